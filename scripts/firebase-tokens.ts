@@ -0,0 +1,86 @@
+// Checks the Firebase Auth ID tokens the app sends the storage server (see restBackend), without the
+// Admin SDK: the token must be signed with one of Google's published keys for the project and still valid.
+import { X509Certificate, createVerify } from 'node:crypto';
+import { UserRole } from '../src/types';
+
+const CERTIFICATES_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+// Tokens issued a little in the future by a clock ahead of ours are still accepted
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface IdTokenClaims {
+  uid: string;
+  email?: string;
+  emailVerified: boolean;
+  // Custom claim set by an admin; the profile's role is used when it is missing
+  role?: UserRole;
+}
+
+// Raised for a missing, forged or expired token
+export class InvalidTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+let certificates: { keys: Record<string, string>; expiresAt: number } | null = null;
+
+// Google rotates the keys; the answer says how long it may be kept
+const getCertificates = async (): Promise<Record<string, string>> => {
+  if (certificates && certificates.expiresAt > Date.now()) return certificates.keys;
+
+  const response = await fetch(CERTIFICATES_URL);
+  if (!response.ok) {
+    throw new Error(`Could not fetch the Firebase token certificates (${response.status})`);
+  }
+  const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1]) || 0;
+  certificates = { keys: await response.json(), expiresAt: Date.now() + maxAge * 1000 };
+  return certificates.keys;
+};
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+export const verifyIdToken = async (token: string, projectId: string): Promise<IdTokenClaims> => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new InvalidTokenError('The sign-in token is malformed');
+  }
+  const [header, payload, signature] = segments;
+
+  let decodedHeader: { alg?: string; kid?: string };
+  let claims: Record<string, unknown>;
+  try {
+    decodedHeader = decodeSegment(header);
+    claims = decodeSegment(payload);
+  } catch {
+    throw new InvalidTokenError('The sign-in token is malformed');
+  }
+
+  const certificate = decodedHeader.kid && (await getCertificates())[decodedHeader.kid];
+  if (decodedHeader.alg !== 'RS256' || !certificate) {
+    throw new InvalidTokenError('The sign-in token was not issued by Firebase Auth');
+  }
+  const verifier = createVerify('RSA-SHA256');
+  verifier.update(`${header}.${payload}`);
+  if (!verifier.verify(new X509Certificate(certificate).publicKey, Buffer.from(signature, 'base64url'))) {
+    throw new InvalidTokenError('The sign-in token signature is invalid');
+  }
+
+  const now = Date.now() / 1000;
+  if (claims.aud !== projectId || claims.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new InvalidTokenError('The sign-in token belongs to another Firebase project');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp < now || typeof claims.iat !== 'number' || claims.iat > now + CLOCK_SKEW_SECONDS) {
+    throw new InvalidTokenError('The sign-in token has expired');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new InvalidTokenError('The sign-in token has no user');
+  }
+
+  return {
+    uid: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    emailVerified: claims.email_verified === true,
+    role: typeof claims.role === 'string' ? claims.role as UserRole : undefined
+  };
+};
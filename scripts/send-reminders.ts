@@ -0,0 +1,41 @@
+// Expires uncollected approvals and sends due date reminders and overdue escalations straight against the
+// storage backend, for a cron job:
+//   npm run reminders
+// The backend is the one the app is built for (VITE_STORAGE_BACKEND). Set REMINDER_ADMIN_EMAIL and
+// REMINDER_ADMIN_PASSWORD to sign in as a staff member who takes returns, which the Firestore rules and
+// the storage server both require.
+import { firebaseService } from '../src/services/firebaseService';
+import { defaultLabSettings } from '../src/utils/labSettings';
+import { createStorageBackend } from '../src/services/storageBackend';
+import { reminderService, ReminderStore } from '../src/services/reminderService';
+import { staffNotifications, staffRoles } from '../src/utils/permissions';
+
+const backend = createStorageBackend();
+
+const backendStore: ReminderStore = {
+  getRequests: () => backend.list('requests'),
+  getSettings: async () => ({ ...defaultLabSettings, ...(await backend.getSettings()) }),
+  addNotification: notification => backend.write({ type: 'createNotification', notification }),
+  notifyStaff: async (permission, notice) => {
+    const staff = await backend.list('users', { role: staffRoles });
+    await Promise.all(staffNotifications(staff, permission, notice).map(notification => backend.write({ type: 'createNotification', notification })));
+  },
+  recordReminders: (request, remindersSent) => backend.write({ type: 'updateRequest', requestId: request.id, changes: { remindersSent } }),
+  expireRequest: requestId => backend.transition({ type: 'expireRequest', requestId, expiredAt: new Date().toISOString() }),
+};
+
+const main = async () => {
+  const { REMINDER_ADMIN_EMAIL, REMINDER_ADMIN_PASSWORD } = process.env;
+  if (REMINDER_ADMIN_EMAIL && REMINDER_ADMIN_PASSWORD) {
+    await firebaseService.signIn(REMINDER_ADMIN_EMAIL, REMINDER_ADMIN_PASSWORD);
+  }
+
+  const expired = await reminderService.expireUncollected(backendStore);
+  const sent = await reminderService.run(backendStore);
+  console.log(`Expired ${expired.length} uncollected request(s), sent ${sent} reminder notification(s)`);
+};
+
+main().then(() => process.exit(0)).catch(error => {
+  console.error('Error running reminders:', error);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BorrowRequest, LoanExtension, PenaltyEntry, StudentStanding, User } from '../src/types';
+import { PermissionError } from '../src/utils/permissions';
+import { StoredData, applyWrite, emptyStore } from '../src/utils/storageMutations';
+import { Caller, InvalidMutationError, canRead, checkWrite, checkWrittenStock, identify, validateMutation } from './storage-access';
+
+const profile = (id: string, role: User['role']): User => ({ id, name: id, email: `${id}@college.edu`, role, registeredAt: '2025-03-01T09:00:00.000Z' });
+
+const request = (id: string, studentId: string): BorrowRequest => ({
+  id,
+  studentId,
+  studentName: studentId,
+  rollNo: '21CS001',
+  mobile: '9000000000',
+  componentId: 'comp-1',
+  componentName: 'Arduino Uno R3',
+  quantity: 2,
+  requestDate: '2025-03-01T09:00:00.000Z',
+  dueDate: '2025-03-08T09:00:00.000Z',
+  status: 'pending',
+  items: [{ componentId: 'comp-1', componentName: 'Arduino Uno R3', quantity: 2, status: 'pending' }],
+});
+
+let data: StoredData;
+const signedIn = (uid: string, emailVerified = true): Caller => identify({ uid, email: `${uid}@college.edu`, emailVerified }, data);
+
+beforeEach(() => {
+  data = emptyStore();
+  data.users.push(
+    profile('student-1', 'student'), profile('student-2', 'student'), profile('assistant-1', 'lab_assistant'),
+    profile('manager-1', 'inventory_manager'), profile('admin-1', 'admin')
+  );
+  data.requests.push(request('req-2', 'student-2'));
+});
+
+describe('identify', () => {
+  it('takes the role from the token claim before the profile', () => {
+    expect(identify({ uid: 'student-1', emailVerified: true, role: 'admin' }, data).role).toBe('admin');
+    expect(signedIn('student-1').role).toBe('student');
+    expect(signedIn('stranger').role).toBeNull();
+  });
+});
+
+describe('checkWrite', () => {
+  it('lets a verified student create a pending request of their own', () => {
+    expect(() => checkWrite({ type: 'createRequest', request: request('req-1', 'student-1') }, undefined, signedIn('student-1'), data)).not.toThrow();
+  });
+
+  it('refuses a request created for someone else, already approved or by an unverified student', () => {
+    const student = signedIn('student-1');
+    expect(() => checkWrite({ type: 'createRequest', request: request('req-1', 'student-2') }, undefined, student, data)).toThrow(PermissionError);
+    expect(() => checkWrite({ type: 'createRequest', request: { ...request('req-1', 'student-1'), items: [{ ...request('req-1', 'student-1').items![0], status: 'approved' }] } }, undefined, student, data))
+      .toThrow(PermissionError);
+    expect(() => checkWrite({ type: 'createRequest', request: request('req-1', 'student-1') }, undefined, signedIn('student-1', false), data)).toThrow(PermissionError);
+  });
+
+  it('refuses a student changing another student\'s request or their own role', () => {
+    const student = signedIn('student-1');
+    expect(() => checkWrite({ type: 'updateRequest', requestId: 'req-2', changes: { status: 'returned' } }, undefined, student, data)).toThrow(PermissionError);
+    expect(() => checkWrite({ type: 'updateUser', userId: 'student-1', changes: { role: 'admin' } }, undefined, student, data)).toThrow(PermissionError);
+  });
+
+  it('lets a lab assistant move stock and charge returns but not edit the catalogue or adjust standing', () => {
+    const assistant = signedIn('assistant-1');
+    expect(() => checkWrite({ type: 'updateComponent', componentId: 'comp-1', changes: { availableQuantity: 3 } }, undefined, assistant, data)).not.toThrow();
+    expect(() => checkWrite({ type: 'chargeReturn', userId: 'student-2', request: request('req-2', 'student-2'), record: { lines: [], recordedAt: '', recordedBy: '' } }, undefined, assistant, data))
+      .not.toThrow();
+    expect(() => checkWrite({ type: 'updateComponent', componentId: 'comp-1', changes: { name: 'Renamed' } }, undefined, assistant, data)).toThrow(PermissionError);
+    expect(() => checkWrite({ type: 'adjustStanding', userId: 'student-2', entry: { id: 'p-1', points: 2, reason: 'adjustment', recordedAt: '', recordedBy: '' } }, undefined, assistant, data))
+      .toThrow(PermissionError);
+  });
+
+  it('refuses an inventory manager reviewing a request', () => {
+    const manager = signedIn('manager-1');
+    expect(() => checkWrite({ type: 'reviewRequest', request: { ...data.requests[0], status: 'ready_for_pickup' } }, undefined, manager, data)).toThrow(PermissionError);
+    expect(() => checkWrite({ type: 'updateRequest', requestId: 'req-2', changes: { status: 'rejected' } }, undefined, manager, data)).toThrow(PermissionError);
+  });
+
+  it('lets a lab assistant append the points a return charges but not waive or clear them', () => {
+    const assistant = signedIn('assistant-1');
+    const charge: PenaltyEntry = { id: 'penalty-1', points: 2, reason: 'late_return', recordedAt: '', recordedBy: 'assistant-1' };
+    data.users[1] = { ...data.users[1], standing: { entries: [charge], suspensions: [] } };
+    const update = (standing: StudentStanding) => () =>
+      checkWrite({ type: 'updateUser', userId: 'student-2', changes: { standing } }, undefined, assistant, data);
+
+    expect(update({ entries: [charge, { ...charge, id: 'penalty-2', reason: 'damaged' }], suspensions: [] })).not.toThrow();
+    expect(update({ entries: [charge, { ...charge, id: 'penalty-2', points: -2, reason: 'adjustment' }], suspensions: [] })).toThrow(PermissionError);
+    expect(update({ entries: [{ ...charge, waivedAt: '2025-03-11T09:00:00.000Z' }], suspensions: [] })).toThrow(PermissionError);
+    expect(update({ entries: [], suspensions: [] })).toThrow(PermissionError);
+  });
+
+  it('lets a student add one pending extension but not rewrite the ones recorded', () => {
+    const student = signedIn('student-2');
+    const approved: LoanExtension = { id: 'ext-1', requestedAt: '', previousDueDate: '', proposedDueDate: '', reason: 'Demo', status: 'approved' };
+    data.requests[0] = { ...data.requests[0], status: 'checked_out', extensions: [approved] };
+    const asked: LoanExtension = { ...approved, id: 'ext-2', status: 'pending' };
+    const update = (extensions: LoanExtension[]) => () =>
+      checkWrite({ type: 'updateRequest', requestId: 'req-2', changes: { extensions } }, undefined, student, data);
+
+    expect(update([approved, asked])).not.toThrow();
+    expect(update([asked])).toThrow(PermissionError);
+    expect(update([approved, { ...asked, status: 'approved' }])).toThrow(PermissionError);
+    expect(update([{ ...approved, status: 'denied' }, asked])).toThrow(PermissionError);
+  });
+
+  it('only lets a user replay changes they queued', () => {
+    const entry = { id: 'entry-1', userId: 'student-2', mutation: { type: 'markNotificationRead' as const, notificationId: 'n-1' }, queuedAt: '', attempts: 0 };
+    expect(() => checkWrite(entry.mutation, entry, signedIn('admin-1'), data)).toThrow(PermissionError);
+  });
+});
+
+describe('validateMutation', () => {
+  it('refuses an unknown kind of change', () => {
+    expect(() => validateMutation({ type: 'dropEverything' } as never)).toThrow(InvalidMutationError);
+  });
+
+  it('refuses negative stock', () => {
+    expect(() => validateMutation({ type: 'updateComponent', componentId: 'comp-1', changes: { availableQuantity: -50 } })).toThrow(InvalidMutationError);
+  });
+
+  it('refuses more available than the total once a write is applied', () => {
+    const written = applyWrite(data, { type: 'updateComponent', componentId: 'comp-1', changes: { availableQuantity: 30 } });
+    expect(() => checkWrittenStock(written)).toThrow(InvalidMutationError);
+  });
+});
+
+describe('canRead', () => {
+  it('shows students only their own requests and the staff roster', () => {
+    const student = signedIn('student-1');
+    expect(canRead('requests', data.requests[0], student, data)).toBe(false);
+    expect(canRead('requests', data.requests[0], signedIn('assistant-1'), data)).toBe(true);
+    expect(canRead('users', data.users[1], student, data)).toBe(false);
+    expect(canRead('users', data.users[2], student, data)).toBe(true);
+  });
+});
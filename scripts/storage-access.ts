@@ -0,0 +1,331 @@
+// Who may read and write what on the storage server: the same rules firestore.rules applies to Firestore,
+// checked against the server's own copy of the records. Writes are also checked for well-formed values,
+// since the server applies whatever a client sends.
+import { BorrowRequestItem, Component, LoanExtension, PenaltyEntry, PenaltyReason, RequestItemStatus, RequestStatus, ReturnRecord, StudentStanding, User, UserRole } from '../src/types';
+import { Permission, PermissionError, can, staffRoles } from '../src/utils/permissions';
+import { OutboxEntry, OutboxMutation } from '../src/utils/outbox';
+import { conflictPermissions } from '../src/utils/conflicts';
+import { MAX_REQUEST_LINES } from '../src/utils/requestItems';
+import { emptyStanding } from '../src/utils/standing';
+import { EntityCollection, EntityRecord, StoredData, WrittenRecord } from '../src/utils/storageMutations';
+import { IdTokenClaims } from './firebase-tokens';
+
+// Raised for a write the server cannot apply as sent: an unknown kind, a missing id or an impossible value
+export class InvalidMutationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMutationError';
+  }
+}
+
+// The signed-in user making a call, with the role from the token's custom claim or else from their profile
+export interface Caller extends Omit<IdTokenClaims, 'role'> {
+  role: UserRole | null;
+  profile?: User;
+}
+
+const roles: UserRole[] = ['student', ...staffRoles];
+const requestStatuses: RequestStatus[] = ['pending', 'ready_for_pickup', 'checked_out', 'rejected', 'returned', 'expired'];
+const itemStatuses: RequestItemStatus[] = ['pending', 'approved', 'rejected'];
+// Fields a user may not change on their own profile
+const protectedProfileFields = ['role', 'standing', 'email', 'rollNo', 'deactivatedAt', 'deactivatedBy', 'invited'];
+
+export const identify = (claims: IdTokenClaims, data: StoredData): Caller => {
+  const profile = data.users.find(user => user.id === claims.uid);
+  const role = claims.role && roles.includes(claims.role) ? claims.role : profile?.role || null;
+  return { ...claims, role, profile };
+};
+
+const hasPermission = (caller: Caller, ...permissions: Permission[]): boolean =>
+  permissions.some(permission => can(caller.role ? { role: caller.role } : null, permission));
+
+const isStaffCaller = (caller: Caller): boolean => !!caller.role && staffRoles.includes(caller.role);
+
+// A profile saved under an auto-generated id by earlier versions, which its owner may move to their uid
+const ownsLegacyProfile = (caller: Caller, userId: string | undefined, data: StoredData): boolean =>
+  !!caller.email && userId !== caller.uid && data.users.some(user => user.id === userId && user.email === caller.email);
+
+const changesOnly = (changes: object, fields: string[]): boolean =>
+  Object.keys(changes).every(field => fields.includes(field));
+
+// A student asks for one extension at a time: a single pending entry after the ones already recorded
+const appendsPendingExtension = (stored: LoanExtension[] = [], next?: LoanExtension[]): boolean =>
+  next === undefined || (
+    Array.isArray(next) &&
+    next.length === stored.length + 1 &&
+    JSON.stringify(next.slice(0, stored.length)) === JSON.stringify(stored) &&
+    next[stored.length]?.status === 'pending'
+  );
+
+export const canRead = <K extends EntityCollection>(collection: K, record: EntityRecord<K>, caller: Caller, data: StoredData): boolean => {
+  switch (collection) {
+    case 'users': {
+      const user = record as User;
+      return isStaffCaller(caller) || user.id === caller.uid || (!!caller.email && user.email === caller.email) || staffRoles.includes(user.role);
+    }
+    case 'components':
+      return true;
+    case 'requests': {
+      const { studentId } = record as EntityRecord<'requests'>;
+      return isStaffCaller(caller) || studentId === caller.uid || ownsLegacyProfile(caller, studentId, data);
+    }
+    case 'notifications': {
+      const { userId } = record as EntityRecord<'notifications'>;
+      return caller.role === 'admin' || userId === caller.uid || ownsLegacyProfile(caller, userId, data);
+    }
+    case 'loginSessions':
+      return caller.role === 'admin' || (record as EntityRecord<'loginSessions'>).userId === caller.uid;
+    case 'syncConflicts':
+      return isStaffCaller(caller);
+  }
+  return false;
+};
+
+const chargedReasons: PenaltyReason[] = ['late_return', 'damaged', 'lost'];
+
+const isPenaltyCharge = (entry: PenaltyEntry): boolean =>
+  chargedReasons.includes(entry.reason) && entry.points > 0 && !entry.waivedAt && !entry.waivedBy && !entry.waiverReason;
+
+// The points a return charges and the suspension they may start, after what is recorded; adjustments,
+// waivers and lifting a suspension are left to admins
+const appendsPenaltyCharge = (stored: StudentStanding = emptyStanding, next?: StudentStanding): boolean => {
+  if (!next || !Array.isArray(next.entries) || !Array.isArray(next.suspensions)) return false;
+  const added = next.entries.slice(stored.entries.length);
+  const suspended = next.suspensions.slice(stored.suspensions.length);
+  return added.length >= 1 && added.length <= 3 && added.every(isPenaltyCharge) &&
+    JSON.stringify(next.entries.slice(0, stored.entries.length)) === JSON.stringify(stored.entries) &&
+    suspended.length <= 1 && suspended.every(suspension => !suspension.liftedAt && !suspension.liftedBy && !suspension.liftReason) &&
+    JSON.stringify(next.suspensions.slice(0, stored.suspensions.length)) === JSON.stringify(stored.suspensions);
+};
+
+const mayWrite = (mutation: OutboxMutation, caller: Caller, data: StoredData): boolean => {
+  const request = (id: string) => data.requests.find(stored => stored.id === id);
+  switch (mutation.type) {
+    case 'createRequest': {
+      const { request: created } = mutation;
+      return isStaffCaller(caller) || (
+        caller.emailVerified &&
+        !caller.profile?.deactivatedAt &&
+        created.studentId === caller.uid &&
+        created.status === 'pending' &&
+        (created.items || []).every(item => item.status === 'pending')
+      );
+    }
+    case 'updateRequest': {
+      const stored = request(mutation.requestId);
+      return hasPermission(caller, 'review_requests', 'manage_returns') ||
+        (
+          stored?.studentId === caller.uid &&
+          changesOnly(mutation.changes, ['extensions', 'remindersSent']) &&
+          appendsPendingExtension(stored.extensions, mutation.changes.extensions)
+        ) ||
+        (ownsLegacyProfile(caller, stored?.studentId, data) && changesOnly(mutation.changes, ['studentId']) && mutation.changes.studentId === caller.uid);
+    }
+    case 'createComponent':
+    case 'deleteComponent':
+      return hasPermission(caller, 'manage_inventory');
+    case 'updateComponent':
+      return hasPermission(caller, 'manage_inventory') ||
+        (hasPermission(caller, 'manage_returns') && changesOnly(mutation.changes, ['availableQuantity', 'totalQuantity', 'writeOffs', 'units', 'waitlist']));
+    case 'joinWaitlist':
+      return isStaffCaller(caller) || mutation.entry.studentId === caller.uid;
+    case 'leaveWaitlist':
+    case 'surfaceWaitlistEntry':
+      return isStaffCaller(caller);
+    case 'createUser':
+      return hasPermission(caller, 'manage_users') ||
+        (mutation.user.id === caller.uid && mutation.user.role === 'student' && mutation.user.email === caller.email);
+    case 'updateUser': {
+      const { changes } = mutation;
+      return hasPermission(caller, 'manage_users') ||
+        (
+          hasPermission(caller, 'manage_returns') &&
+          changesOnly(changes, ['standing']) &&
+          appendsPenaltyCharge(data.users.find(user => user.id === mutation.userId)?.standing, changes.standing)
+        ) ||
+        (
+          mutation.userId === caller.uid &&
+          !Object.keys(changes).some(field => protectedProfileFields.includes(field)) &&
+          (changes.mustChangePassword === undefined || changes.mustChangePassword === false)
+        );
+    }
+    case 'chargeReturn':
+      return hasPermission(caller, 'manage_returns', 'manage_standing');
+    case 'adjustStanding':
+    case 'waivePenalty':
+    case 'liftSuspension':
+      return hasPermission(caller, 'manage_standing');
+    case 'createNotification': {
+      const recipient = data.users.find(user => user.id === mutation.notification.userId);
+      return isStaffCaller(caller) || mutation.notification.userId === caller.uid || (!!recipient && staffRoles.includes(recipient.role));
+    }
+    case 'markNotificationRead':
+      return caller.role === 'admin' || data.notifications.find(stored => stored.id === mutation.notificationId)?.userId === caller.uid;
+    case 'updateSettings':
+      return hasPermission(caller, 'manage_policy');
+    case 'createLoginSession':
+      return mutation.session.userId === caller.uid;
+    case 'updateLoginSession': {
+      const stored = data.loginSessions.find(session => session.id === mutation.sessionId);
+      return caller.role === 'admin' ||
+        (stored?.userId === caller.uid && changesOnly(mutation.changes, ['isActive', 'logoutTime', 'sessionDuration']));
+    }
+    case 'adoptProfile':
+      return mutation.profile.id === caller.uid &&
+        mutation.profile.role === 'student' &&
+        mutation.profile.email === caller.email &&
+        ownsLegacyProfile(caller, mutation.previousId, data);
+    case 'importUsers':
+    case 'mergeUsers':
+    case 'setUserDeactivation':
+    case 'deleteUser':
+      return hasPermission(caller, 'manage_users');
+    // Checked against the conflict as recorded, not the copy the client sent
+    case 'resolveSyncConflict': {
+      const stored = data.syncConflicts.find(conflict => conflict.id === mutation.conflict.id);
+      return !!stored &&
+        stored.collection === mutation.conflict.collection &&
+        stored.documentId === mutation.conflict.documentId &&
+        hasPermission(caller, conflictPermissions[stored.collection]);
+    }
+    case 'reviewRequest':
+      return hasPermission(caller, 'review_requests');
+    case 'checkOutRequest':
+    case 'returnRequest':
+      return hasPermission(caller, 'manage_returns');
+    case 'expireRequest':
+      return hasPermission(caller, 'review_requests', 'manage_returns');
+    case 'requestExtension':
+      return request(mutation.requestId)?.studentId === caller.uid || hasPermission(caller, 'review_requests');
+    case 'reviewExtension':
+      return hasPermission(caller, 'review_requests');
+  }
+};
+
+// Refuses with a PermissionError. A queued write may only be replayed by the user who queued it.
+export const checkWrite = (mutation: OutboxMutation, entry: OutboxEntry | undefined, caller: Caller, data: StoredData): void => {
+  if (entry && entry.userId !== caller.uid) {
+    throw new PermissionError('Queued changes can only be sent by the user who made them');
+  }
+  if (!mayWrite(mutation, caller, data)) {
+    throw new PermissionError(`You are not allowed to make this change (${mutation.type})`);
+  }
+};
+
+const isId = (value: unknown): boolean => typeof value === 'string' && value.length > 0;
+const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+const isPositive = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+const isObject = (value: unknown): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean => value === undefined || check(value);
+
+const validItems = (items: unknown): boolean =>
+  items === undefined || (
+    Array.isArray(items) &&
+    items.length <= MAX_REQUEST_LINES &&
+    items.every((item: BorrowRequestItem) => isObject(item) && isId(item.componentId) && isPositive(item.quantity) && itemStatuses.includes(item.status))
+  );
+
+const validComponentFields = (component: Partial<Component>): boolean =>
+  isObject(component) &&
+  isOptional(component.totalQuantity, isCount) &&
+  isOptional(component.availableQuantity, isCount) &&
+  isOptional(component.name, name => typeof name === 'string' && name.trim().length > 0);
+
+const validReturn = (record: ReturnRecord): boolean =>
+  isObject(record) && Array.isArray(record.lines) &&
+  record.lines.every(line => isCount(line.lineIndex) && isCount(line.good) && isCount(line.damaged) && isCount(line.lost));
+
+const validity = (mutation: OutboxMutation): boolean => {
+  switch (mutation.type) {
+    case 'createRequest':
+      return isObject(mutation.request) && isId(mutation.request.id) && isId(mutation.request.studentId) &&
+        requestStatuses.includes(mutation.request.status) && isPositive(mutation.request.quantity) && validItems(mutation.request.items);
+    case 'updateRequest':
+      return isId(mutation.requestId) && isObject(mutation.changes) &&
+        isOptional(mutation.changes.status, status => requestStatuses.includes(status as RequestStatus)) &&
+        isOptional(mutation.changes.quantity, isPositive) && validItems(mutation.changes.items);
+    case 'createComponent':
+      return validComponentFields(mutation.component) && isId(mutation.component.id) && isId(mutation.component.name) &&
+        isCount(mutation.component.totalQuantity) && mutation.component.availableQuantity <= mutation.component.totalQuantity;
+    case 'updateComponent':
+      return isId(mutation.componentId) && validComponentFields(mutation.changes);
+    case 'deleteComponent':
+      return isId(mutation.componentId);
+    case 'joinWaitlist':
+      return isId(mutation.componentId) && isObject(mutation.entry) && isId(mutation.entry.requestId) &&
+        isId(mutation.entry.studentId) && isPositive(mutation.entry.quantity);
+    case 'leaveWaitlist':
+      return isId(mutation.componentId) && isId(mutation.requestId);
+    case 'surfaceWaitlistEntry':
+      return isId(mutation.componentId) && isId(mutation.requestId) && isId(mutation.surfacedAt);
+    case 'createUser':
+      return isObject(mutation.user) && isId(mutation.user.id) && isId(mutation.user.email) && roles.includes(mutation.user.role);
+    case 'updateUser':
+      return isId(mutation.userId) && isObject(mutation.changes) && isOptional(mutation.changes.role, role => roles.includes(role as UserRole));
+    case 'chargeReturn':
+      return isId(mutation.userId) && isObject(mutation.request) && isId(mutation.request.id) && validReturn(mutation.record);
+    case 'adjustStanding':
+      return isId(mutation.userId) && isObject(mutation.entry) && isId(mutation.entry.id) &&
+        Number.isInteger(mutation.entry.points) && mutation.entry.points !== 0;
+    case 'waivePenalty':
+      return isId(mutation.userId) && isId(mutation.entryId);
+    case 'liftSuspension':
+      return isId(mutation.userId) && isId(mutation.liftedAt);
+    case 'createNotification':
+      return isObject(mutation.notification) && isId(mutation.notification.id) && isId(mutation.notification.userId);
+    case 'markNotificationRead':
+      return isId(mutation.notificationId);
+    case 'updateSettings':
+      return isObject(mutation.settings) &&
+        isOptional(mutation.settings.pickupWindowHours, isPositive) &&
+        isOptional(mutation.settings.maxRenewals, isCount) &&
+        isOptional(mutation.settings.maxLoanDays, isPositive);
+    case 'createLoginSession':
+      return isObject(mutation.session) && isId(mutation.session.id) && isId(mutation.session.userId);
+    case 'updateLoginSession':
+      return isId(mutation.sessionId) && isObject(mutation.changes);
+    case 'adoptProfile':
+      return isObject(mutation.profile) && isId(mutation.profile.id) && isId(mutation.previousId);
+    case 'importUsers':
+      return Array.isArray(mutation.users) && mutation.users.every(user => isObject(user) && isId(user.id) && roles.includes(user.role));
+    case 'mergeUsers':
+      return isObject(mutation.merged) && isId(mutation.merged.id) && isId(mutation.duplicateId);
+    case 'setUserDeactivation':
+      return isId(mutation.userId) && (mutation.deactivation === null || isObject(mutation.deactivation));
+    case 'deleteUser':
+      return isId(mutation.userId);
+    case 'resolveSyncConflict':
+      return isObject(mutation.conflict) && isId(mutation.conflict.id) && isObject(mutation.resolution);
+    case 'reviewRequest':
+      return isObject(mutation.request) && isId(mutation.request.id) && validItems(mutation.request.items);
+    case 'checkOutRequest':
+    case 'expireRequest':
+      return isId(mutation.requestId);
+    case 'requestExtension':
+      return isId(mutation.requestId) && isObject(mutation.extension) && isId(mutation.extension.id);
+    case 'reviewExtension':
+      return isId(mutation.requestId) && isObject(mutation.review) && isId(mutation.review.extensionId);
+    case 'returnRequest':
+      return isId(mutation.requestId) && validReturn(mutation.record);
+    default:
+      return false;
+  }
+};
+
+export const validateMutation = (mutation: OutboxMutation): void => {
+  if (!validity(mutation)) {
+    throw new InvalidMutationError(`The change is not valid (${mutation.type})`);
+  }
+};
+
+// Merged counters are only known once a write is applied, so the stock it saved is checked before the
+// store is written to disk
+export const checkWrittenStock = (written: WrittenRecord[]): void => {
+  written.forEach(({ collection, record }) => {
+    if (collection !== 'components' || !record) return;
+    const { name, availableQuantity, totalQuantity } = record as Component;
+    if (!isCount(availableQuantity) || !isCount(totalQuantity) || availableQuantity > totalQuantity) {
+      throw new InvalidMutationError(`${name} cannot have ${availableQuantity} of ${totalQuantity} units available`);
+    }
+  });
+};
@@ -0,0 +1,186 @@
+// Reference server for the REST storage backend (src/services/restBackend.ts), so a department can keep
+// the lab's records on its own machine instead of Firestore:
+//   npm run storage-server
+// Records are kept in one JSON file (STORAGE_FILE, default lab-data.json) and served on STORAGE_PORT
+// (default 8787). Build the app with VITE_STORAGE_BACKEND=rest and VITE_STORAGE_API_URL set to this
+// server's address; STORAGE_ALLOWED_ORIGIN limits which site may call it from a browser.
+// Users still sign in with Firebase Auth: every call must carry the Firebase ID token of the signed-in
+// user, checked against STORAGE_FIREBASE_PROJECT_ID, and is then allowed or refused by the same role
+// rules as firestore.rules (see storage-access.ts). There is no sign-in that works without Firebase.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { EntityCollection, EntityFilter, EntityRecord, StoredData, applyTransition, applyWrite, emptyStore, matchesFilter } from '../src/utils/storageMutations';
+import { OutboxEntry, OutboxMutation, isTransition } from '../src/utils/outbox';
+import { StockTransactionError } from '../src/utils/stockTransactions';
+import { RequestTransitionError } from '../src/utils/requestLifecycle';
+import { PermissionError } from '../src/utils/permissions';
+import { defaultLabSettings } from '../src/utils/labSettings';
+import { InvalidTokenError, verifyIdToken } from './firebase-tokens';
+import { Caller, InvalidMutationError, canRead, checkWrite, checkWrittenStock, identify, validateMutation } from './storage-access';
+
+const PORT = Number(process.env.STORAGE_PORT) || 8787;
+const FILE = process.env.STORAGE_FILE || 'lab-data.json';
+const ALLOWED_ORIGIN = process.env.STORAGE_ALLOWED_ORIGIN || '*';
+// The project in src/config/firebase.ts unless the app is built for another
+const PROJECT_ID = process.env.STORAGE_FIREBASE_PROJECT_ID || 'issacasimovlab';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const collections: EntityCollection[] = ['users', 'components', 'requests', 'notifications', 'loginSessions', 'syncConflicts'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+let data: StoredData = existsSync(FILE) ? { ...emptyStore(), ...JSON.parse(readFileSync(FILE, 'utf8')) } : emptyStore();
+
+// Every change is applied to a copy and written to a temporary file first, so a refused write or a crash
+// part way through never leaves a half-applied store
+const commit = <T>(change: (next: StoredData) => T): T => {
+  const next = structuredClone(data);
+  const result = change(next);
+  writeFileSync(`${FILE}.tmp`, JSON.stringify(next));
+  renameSync(`${FILE}.tmp`, FILE);
+  data = next;
+  return result;
+};
+
+const respond = (response: ServerResponse, status: number, body?: unknown) => {
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = async (request: IncomingMessage): Promise<{ mutation: OutboxMutation; entry?: OutboxEntry }> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large', 'invalid-argument');
+    }
+    chunks.push(chunk);
+  }
+
+  const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  if (typeof body.mutation?.type !== 'string') {
+    throw new HttpError(400, 'Expected { mutation, entry? }', 'invalid-argument');
+  }
+  return body;
+};
+
+const authenticate = async (request: IncomingMessage): Promise<Caller> => {
+  const token = /^Bearer (.+)$/.exec(request.headers.authorization || '')?.[1];
+  if (!token) {
+    throw new InvalidTokenError('Sign in to use the storage server');
+  }
+  const claims = await verifyIdToken(token, PROJECT_ID).catch(error => {
+    if (error instanceof InvalidTokenError) throw error;
+    console.error('Error checking a sign-in token:', error);
+    throw new HttpError(503, 'Sign-in tokens cannot be checked right now', 'unavailable');
+  });
+  return identify(claims, data);
+};
+
+// Extension limits are the lab's settings as stored, whatever the client sent
+const withStoredLimits = (mutation: OutboxMutation): OutboxMutation => {
+  if (mutation.type !== 'requestExtension' && mutation.type !== 'reviewExtension') return mutation;
+  const { maxRenewals, maxLoanDays } = { ...defaultLabSettings, ...data.settings };
+  return { ...mutation, limits: { maxRenewals, maxLoanDays } };
+};
+
+// A repeated query parameter matches any of its values
+const readFilter = (params: URLSearchParams): EntityFilter => Object.fromEntries(
+  [...new Set(params.keys())].map(field => {
+    const values = params.getAll(field);
+    return [field, values.length > 1 ? values : values[0]];
+  })
+);
+
+const handle = async (request: IncomingMessage, response: ServerResponse) => {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const [first, id, ...rest] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (request.method === 'OPTIONS') {
+    respond(response, 204);
+    return;
+  }
+
+  const caller = await authenticate(request);
+
+  if (request.method === 'GET' && first === 'settings' && !id) {
+    respond(response, data.settings ? 200 : 404, data.settings || { error: 'No settings saved yet', code: 'not-found' });
+    return;
+  }
+
+  if (request.method === 'GET' && collections.includes(first as EntityCollection) && rest.length === 0) {
+    const collection = first as EntityCollection;
+    const records = data[collection] as { id: string }[];
+    const readable = (record: { id: string }) => canRead(collection, record as EntityRecord<typeof collection>, caller, data);
+    if (!id) {
+      respond(response, 200, records.filter(record => matchesFilter(record, readFilter(url.searchParams)) && readable(record)));
+      return;
+    }
+    const record = records.find(stored => stored.id === id);
+    if (record && !readable(record)) {
+      throw new PermissionError(`You are not allowed to read ${collection}/${id}`);
+    }
+    respond(response, record ? 200 : 404, record || { error: `${first}/${id} not found`, code: 'not-found' });
+    return;
+  }
+
+  if (request.method === 'POST' && !id && (first === 'writes' || first === 'transitions')) {
+    const body = await readBody(request);
+    const { entry } = body;
+    validateMutation(body.mutation);
+    if (isTransition(body.mutation) !== (first === 'transitions')) {
+      throw new HttpError(400, `${body.mutation.type} cannot be sent to /${first}`, 'invalid-argument');
+    }
+    checkWrite(body.mutation, entry, caller, data);
+
+    const mutation = withStoredLimits(body.mutation);
+    if (isTransition(mutation)) {
+      respond(response, 200, commit(next => {
+        const { result, written } = applyTransition(next, mutation, entry);
+        checkWrittenStock(written);
+        return result;
+      }));
+    } else {
+      commit(next => checkWrittenStock(applyWrite(next, mutation, entry)));
+      respond(response, 204);
+    }
+    return;
+  }
+
+  throw new HttpError(404, 'Not found', 'not-found');
+};
+
+// Refused transitions keep their kind, so the app can tell them from a connection failure
+const describeError = (error: unknown): { status: number; code: string } => {
+  if (error instanceof HttpError) return { status: error.status, code: error.code };
+  if (error instanceof InvalidTokenError) return { status: 401, code: 'unauthenticated' };
+  if (error instanceof PermissionError) return { status: 403, code: 'permission-denied' };
+  if (error instanceof InvalidMutationError) return { status: 400, code: 'invalid-argument' };
+  if (error instanceof RequestTransitionError) return { status: 409, code: 'request-transition' };
+  if (error instanceof StockTransactionError) return { status: 409, code: 'stock-transaction' };
+  if (error instanceof SyntaxError) return { status: 400, code: 'invalid-argument' };
+  return { status: 422, code: 'failed-precondition' };
+};
+
+createServer((request, response) => {
+  handle(request, response).catch(error => {
+    const { status, code } = describeError(error);
+    if (status >= 500 || status === 422) {
+      console.error(`${request.method} ${request.url} failed:`, error);
+    }
+    respond(response, status, { error: error instanceof Error ? error.message : String(error), code });
+  });
+}).listen(PORT, () => {
+  console.log(`Storage server listening on port ${PORT}, keeping records in ${FILE}`);
+});
@@ -1,9 +1,12 @@
 import React from 'react';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { DataProvider } from './context/DataContext';
 import LoginForm from './components/LoginForm';
+import ChangePasswordForm from './components/ChangePasswordForm';
 import Header from './components/Header';
 import StudentDashboard from './components/student/StudentDashboard';
 import AdminDashboard from './components/admin/AdminDashboard';
+import { isStaff } from './utils/permissions';
 
 const AppContent: React.FC = () => {
   const { user, isLoading } = useAuth();
@@ -20,10 +23,14 @@ const AppContent: React.FC = () => {
     return <LoginForm />;
   }
 
+  if (user.mustChangePassword) {
+    return <ChangePasswordForm />;
+  }
+
   return (
     <div className="min-h-screen bg-dark-950">
       <Header />
-      {user.role === 'admin' ? <AdminDashboard /> : <StudentDashboard />}
+      {isStaff(user) ? <AdminDashboard /> : <StudentDashboard />}
     </div>
   );
 };
@@ -31,7 +38,9 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <DataProvider>
+        <AppContent />
+      </DataProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { KeyRound, Lock, LogOut } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+
+// Shown instead of the dashboard while the signed-in user has to choose a new password
+const ChangePasswordForm: React.FC = () => {
+  const { changePassword, logout } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters long.');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError('Choose a password different from the current one.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const success = await changePassword(currentPassword, newPassword);
+      if (!success) {
+        setError('Current password is incorrect.');
+      }
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setError('Failed to change password. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full pl-10 pr-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-950 via-dark-900 to-peacock-900 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <form
+          onSubmit={handleSubmit}
+          className="bg-dark-800/70 backdrop-blur-2xl rounded-3xl shadow-2xl border border-peacock-500/20 p-8 space-y-6"
+        >
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-peacock-500 to-blue-500 rounded-full mb-4 shadow-lg">
+              <KeyRound className="w-8 h-8 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold text-white mb-2">Change Your Password</h1>
+            <p className="text-peacock-300 text-sm">Your password has to be changed before you can continue.</p>
+          </div>
+
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              type="password"
+              required
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="Current password"
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              type="password"
+              required
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="New password"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              type="password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full bg-gradient-to-r from-peacock-500 to-blue-500 text-white py-4 rounded-xl font-bold shadow-lg hover:from-peacock-600 hover:to-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+          >
+            {isSaving ? 'Saving...' : 'Save Password'}
+          </button>
+          <button
+            type="button"
+            onClick={logout}
+            className="w-full flex items-center justify-center gap-2 text-peacock-400 hover:text-peacock-300 transition-colors font-medium"
+          >
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ChangePasswordForm;
@@ -1,33 +1,37 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { LogOut, Cpu, Users, Wifi, WifiOff } from 'lucide-react';
+import { LogOut, Cpu, Users, Wifi, WifiOff, UploadCloud, AlertTriangle, HardDrive } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { hybridDataService } from '../services/hybridDataService';
+import { useData } from '../context/DataContext';
+import { outboxService } from '../services/outboxService';
+import { localCacheService } from '../services/localCacheService';
 import NotificationBell from './NotificationBell';
+import { isStaff, roleLabels } from '../utils/permissions';
+import { OutboxEntry, describeMutation } from '../utils/outbox';
 
 const Header: React.FC = () => {
   const { user, logout } = useAuth();
-  const [onlineCount, setOnlineCount] = useState(0);
+  const { stats } = useData();
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [storageFull, setStorageFull] = useState(false);
 
   useEffect(() => {
-    const updateOnlineCount = () => {
-      const stats = hybridDataService.getSystemStats();
-      setOnlineCount(stats.onlineUsers);
-    };
-    
-    updateOnlineCount();
-    const interval = setInterval(updateOnlineCount, 30000); // Update every 30 seconds
-    
     // Network status listeners
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
     
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+
+    // Changes made offline that have not reached the backend yet
+    const unsubscribeOutbox = outboxService.subscribe(setOutbox);
+    // This device ran out of room for its copy of the lab data
+    const unsubscribeStorage = localCacheService.subscribe(setStorageFull);
     
     return () => {
-      clearInterval(interval);
+      unsubscribeOutbox();
+      unsubscribeStorage();
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
@@ -35,6 +39,18 @@ const Header: React.FC = () => {
 
   if (!user) return null;
 
+  const queued = outbox.filter(entry => !entry.failedAt);
+  const failed = outbox.filter(entry => entry.failedAt);
+
+  const handleReviewFailed = () => {
+    const details = failed.map(entry => `${describeMutation(entry.mutation)}: ${entry.lastError || 'rejected'}`).join('\n');
+    if (confirm(`These offline changes were rejected by the server and were not saved:\n\n${details}\n\nDismiss them?`)) {
+      outboxService.discardFailed().catch(error => {
+        console.error('Error discarding failed changes:', error);
+      });
+    }
+  };
+
   return (
     <motion.header
       initial={{ y: -20, opacity: 0 }}
@@ -54,7 +70,7 @@ const Header: React.FC = () => {
               <h1 className="text-white font-bold text-lg">Isaac Asimov Lab</h1>
               <div className="flex items-center gap-2">
                 <p className="text-peacock-300 text-sm">
-                  {user.role === 'admin' ? 'Admin Dashboard' : 'Student Portal'}
+                  {isStaff(user) ? `${roleLabels[user.role]} Dashboard` : 'Student Portal'}
                 </p>
                 {/* Network Status Indicator */}
                 <motion.div
@@ -69,13 +85,46 @@ const Header: React.FC = () => {
                   {isOnline ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
                   {isOnline ? 'Online' : 'Offline'}
                 </motion.div>
+                {queued.length > 0 && (
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    title={queued.map(entry => describeMutation(entry.mutation)).join(', ')}
+                    className="flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-yellow-500/20 text-yellow-400"
+                  >
+                    <UploadCloud className="w-3 h-3" />
+                    {queued.length} queued
+                  </motion.div>
+                )}
+                {failed.length > 0 && (
+                  <motion.button
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    onClick={handleReviewFailed}
+                    className="flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                  >
+                    <AlertTriangle className="w-3 h-3" />
+                    {failed.length} not saved
+                  </motion.button>
+                )}
+                {storageFull && (
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    title="This device is out of storage space. Recent changes are kept until the page is closed; free up space so they are saved."
+                    className="flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-red-500/20 text-red-400"
+                  >
+                    <HardDrive className="w-3 h-3" />
+                    Storage full
+                  </motion.div>
+                )}
               </div>
             </div>
           </div>
 
           <div className="flex items-center gap-4">
             {/* Online Users Count */}
-            {user.role === 'admin' && (
+            {isStaff(user) && (
               <motion.div
                 initial={{ opacity: 0, scale: 0.9 }}
                 animate={{ opacity: 1, scale: 1 }}
@@ -84,7 +133,7 @@ const Header: React.FC = () => {
               >
                 <Users className="w-4 h-4 text-green-400" />
                 <span className="text-green-400 text-sm font-medium">
-                  {onlineCount} online
+                  {stats.onlineUsers} online
                 </span>
                 <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
               </motion.div>
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Eye, EyeOff, User, Lock, Cpu, Shield, Users, UserPlus, Mail, Hash } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { AccountDeactivatedError, rollNoToEmail } from '../utils/userAccounts';
 
 const LoginForm: React.FC = () => {
   const [isRegistering, setIsRegistering] = useState(false);
@@ -14,22 +15,19 @@ const LoginForm: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { login, register } = useAuth();
+  const { login, register, resetPassword } = useAuth();
 
   const handleRollNumberChange = (rollNo: string) => {
     setRollNumber(rollNo);
-    const cleanRollNo = rollNo.toLowerCase().replace(/\s+/g, '.');
-    if (cleanRollNo && !cleanRollNo.includes('@')) {
-      setEmail(cleanRollNo + '@issacasimov.in');
-    } else {
-      setEmail(cleanRollNo);
-    }
+    setEmail(rollNoToEmail(rollNo));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setIsLoading(true);
 
     try {
@@ -75,12 +73,33 @@ const LoginForm: React.FC = () => {
         }
       }
     } catch (err) {
+      if (err instanceof AccountDeactivatedError) {
+        setError(err.message);
+        return;
+      }
       setError(isRegistering ? 'Registration failed. Please try again.' : 'Login failed. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleForgotPassword = async () => {
+    setError('');
+    setNotice('');
+    if (!email) {
+      setError('Enter your roll number first, then choose "Forgot password?".');
+      return;
+    }
+
+    try {
+      await resetPassword(email);
+      setNotice(`If ${email} has an account, a password reset link is on its way.`);
+    } catch (err) {
+      console.error('Password reset error:', err);
+      setError('Could not send the reset email. Please try again later.');
+    }
+  };
+
   const resetForm = () => {
     setName('');
     setEmail('');
@@ -89,6 +108,7 @@ const LoginForm: React.FC = () => {
     setPassword('');
     setConfirmPassword('');
     setError('');
+    setNotice('');
   };
 
   const toggleMode = () => {
@@ -242,6 +262,17 @@ const LoginForm: React.FC = () => {
                   {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
                 </button>
               </div>
+              {!isRegistering && (
+                <div className="text-right mt-2">
+                  <button
+                    type="button"
+                    onClick={handleForgotPassword}
+                    className="text-peacock-400 hover:text-peacock-300 transition-colors text-sm font-medium"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              )}
             </motion.div>
 
             {isRegistering && (
@@ -288,6 +319,19 @@ const LoginForm: React.FC = () => {
               </motion.div>
             )}
 
+            {notice && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-green-500/10 border border-green-500/20 rounded-xl p-4 text-green-400 text-sm backdrop-blur-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-green-400 rounded-full"></div>
+                  {notice}
+                </div>
+              </motion.div>
+            )}
+
             <motion.button
               initial={{ y: 20, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
@@ -1,38 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Bell, X, Check } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useData } from '../context/DataContext';
 import { hybridDataService } from '../services/hybridDataService';
-import { Notification } from '../types';
+import { isMuted } from '../utils/notifications';
 
 const NotificationBell: React.FC = () => {
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { notifications: allNotifications } = useData();
   const [isOpen, setIsOpen] = useState(false);
-  const [unreadCount, setUnreadCount] = useState(0);
 
-  useEffect(() => {
-    if (user) {
-      loadNotifications();
-      const interval = setInterval(loadNotifications, 5000); // Check every 5 seconds
-      return () => clearInterval(interval);
-    }
-  }, [user]);
-
-  const loadNotifications = () => {
-    if (user) {
-      hybridDataService.getUserNotifications(user.id).then(userNotifications => {
-      setNotifications(userNotifications.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
-      setUnreadCount(userNotifications.filter(n => !n.read).length);
-      }).catch(error => {
-        console.error('Error loading notifications:', error);
-      });
-    }
-  };
+  const notifications = allNotifications.filter(n => !isMuted(n, user?.notificationPreferences));
+  const unreadCount = notifications.filter(n => !n.read).length;
 
   const markAsRead = (notificationId: string) => {
     hybridDataService.markNotificationAsRead(notificationId);
-    loadNotifications();
   };
 
   const markAllAsRead = () => {
@@ -41,7 +24,6 @@ const NotificationBell: React.FC = () => {
         hybridDataService.markNotificationAsRead(notification.id);
       }
     });
-    loadNotifications();
   };
 
   const getNotificationIcon = (type: string) => {
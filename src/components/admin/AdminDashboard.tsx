@@ -11,62 +11,97 @@ import {
   TrendingUp,
   Activity,
   FileSpreadsheet,
-  Eye
+  Eye,
+  ScanLine,
+  CalendarClock,
+  ShieldCheck,
+  Gavel,
+  UserCog,
+  GitMerge
 } from 'lucide-react';
 import { hybridDataService } from '../../services/hybridDataService';
-import { BorrowRequest, Component, SystemStats } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { pickupService } from '../../services/pickupService';
+import { reminderService } from '../../services/reminderService';
 import RequestManagement from './RequestManagement';
 import InventoryManagement from './InventoryManagement';
 import BorrowHistory from './BorrowHistory';
 import ReturnManagement from './ReturnManagement';
+import CounterMode from './CounterMode';
+import ExtensionQueue from './ExtensionQueue';
+import PolicySettings from './PolicySettings';
+import StandingManagement from './StandingManagement';
 import UserAnalytics from './UserAnalytics';
 import ExportPreviewModal from './ExportPreviewModal';
+import UserManagement from './UserManagement';
+import ConflictReview from './ConflictReview';
+import { Permission, can } from '../../utils/permissions';
 
 const AdminDashboard: React.FC = () => {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('overview');
   const [showExportPreview, setShowExportPreview] = useState(false);
-  const [stats, setStats] = useState<SystemStats>({
-    totalUsers: 0,
-    activeUsers: 0,
-    totalLogins: 0,
-    onlineUsers: 0,
-    totalRequests: 0,
-    pendingRequests: 0,
-    totalComponents: 0,
-    overdueItems: 0
-  });
+  const { stats, requests } = useData();
+
+  const canReview = can(user, 'review_requests');
 
   useEffect(() => {
-    loadStats();
-    const interval = setInterval(loadStats, 30000); // Update every 30 seconds
-    return () => clearInterval(interval);
+    // Catch up on due date reminders and escalations for every open loan
+    reminderService.run(hybridDataService);
   }, []);
 
-  const loadStats = () => {
-    setStats(hybridDataService.getSystemStats());
-  };
+  useEffect(() => {
+    if (!canReview) return;
+    // Release stock held for approvals whose pickup window has passed. Windows close with time rather than
+    // with a change to the data, so the live requests are checked again on a timer too.
+    const expireUncollected = () => pickupService.expireUncollected(requests);
+    expireUncollected();
+    const interval = setInterval(expireUncollected, 30000);
+    return () => clearInterval(interval);
+  }, [canReview, requests]);
 
-  const tabs = [
+  // Tabs without a permission are open to every staff role
+  const allTabs: { id: string; label: string; icon: typeof BarChart3; color: string; permission?: Permission }[] = [
     { id: 'overview', label: 'Overview', icon: BarChart3, color: 'from-blue-500 to-cyan-500' },
-    { id: 'requests', label: 'Requests', icon: CheckSquare, color: 'from-yellow-500 to-orange-500' },
-    { id: 'returns', label: 'Returns', icon: RotateCcw, color: 'from-green-500 to-emerald-500' },
-    { id: 'inventory', label: 'Inventory', icon: Package, color: 'from-purple-500 to-pink-500' },
-    { id: 'analytics', label: 'User Analytics', icon: Activity, color: 'from-indigo-500 to-purple-500' },
+    { id: 'requests', label: 'Requests', icon: CheckSquare, color: 'from-yellow-500 to-orange-500', permission: 'review_requests' },
+    { id: 'returns', label: 'Returns', icon: RotateCcw, color: 'from-green-500 to-emerald-500', permission: 'manage_returns' },
+    { id: 'counter', label: 'Counter', icon: ScanLine, color: 'from-cyan-500 to-blue-500', permission: 'manage_returns' },
+    { id: 'extensions', label: 'Extensions', icon: CalendarClock, color: 'from-teal-500 to-cyan-500', permission: 'review_requests' },
+    { id: 'inventory', label: 'Inventory', icon: Package, color: 'from-purple-500 to-pink-500', permission: 'manage_inventory' },
+    { id: 'policy', label: 'Policy', icon: ShieldCheck, color: 'from-rose-500 to-orange-500', permission: 'manage_policy' },
+    { id: 'standing', label: 'Standing', icon: Gavel, color: 'from-amber-500 to-red-500', permission: 'manage_standing' },
+    { id: 'users', label: 'Users', icon: UserCog, color: 'from-violet-500 to-fuchsia-500', permission: 'manage_users' },
+    { id: 'analytics', label: 'User Analytics', icon: Activity, color: 'from-indigo-500 to-purple-500', permission: 'view_analytics' },
     { id: 'history', label: 'History', icon: Clock, color: 'from-indigo-500 to-blue-500' },
+    { id: 'conflicts', label: 'Conflicts', icon: GitMerge, color: 'from-orange-500 to-amber-500' },
   ];
+  const tabs = allTabs.filter(tab => !tab.permission || can(user, tab.permission));
 
   const renderContent = () => {
     switch (activeTab) {
       case 'requests':
-        return <RequestManagement onUpdate={loadStats} />;
+        return <RequestManagement />;
       case 'returns':
-        return <ReturnManagement onUpdate={loadStats} />;
+        return <ReturnManagement />;
+      case 'counter':
+        return <CounterMode />;
+      case 'extensions':
+        return <ExtensionQueue />;
       case 'inventory':
         return <InventoryManagement />;
+      case 'policy':
+        return <PolicySettings />;
+      case 'standing':
+        return <StandingManagement />;
+      case 'users':
+        return <UserManagement />;
       case 'analytics':
         return <UserAnalytics />;
       case 'history':
         return <BorrowHistory />;
+      case 'conflicts':
+        return <ConflictReview />;
       default:
         return renderOverview();
     }
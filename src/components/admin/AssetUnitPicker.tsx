@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { ScanBarcode } from 'lucide-react';
+import { AssetUnit } from '../../types';
+import { findUnit } from '../../utils/assetUnits';
+
+interface AssetUnitPickerProps {
+  units: AssetUnit[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  max?: number;
+  // Extra controls shown next to each selected unit
+  renderSelected?: (unit: AssetUnit) => React.ReactNode;
+}
+
+const AssetUnitPicker: React.FC<AssetUnitPickerProps> = ({ units, selected, onChange, max, renderSelected }) => {
+  const [scanValue, setScanValue] = useState('');
+  const [scanError, setScanError] = useState('');
+
+  const toggle = (assetTag: string) => {
+    if (selected.includes(assetTag)) {
+      onChange(selected.filter(tag => tag !== assetTag));
+    } else if (max === undefined || selected.length < max) {
+      onChange([...selected, assetTag]);
+    }
+  };
+
+  // Barcode scanners type the code and press Enter
+  const handleScan = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const unit = findUnit(units, scanValue);
+    if (!unit) {
+      setScanError(`No matching unit for "${scanValue.trim()}"`);
+    } else if (!selected.includes(unit.assetTag) && max !== undefined && selected.length >= max) {
+      setScanError(`Only ${max} unit(s) can be selected`);
+    } else {
+      setScanError('');
+      if (!selected.includes(unit.assetTag)) toggle(unit.assetTag);
+    }
+    setScanValue('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <ScanBarcode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-4 h-4" />
+        <input
+          type="text"
+          value={scanValue}
+          onChange={(e) => setScanValue(e.target.value)}
+          onKeyDown={handleScan}
+          placeholder="Scan or type asset tag / serial"
+          className="w-full pl-9 pr-3 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+        />
+      </div>
+      {scanError && <p className="text-red-400 text-xs">{scanError}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {units.map(unit => {
+          const isSelected = selected.includes(unit.assetTag);
+          return (
+            <div
+              key={unit.assetTag}
+              className={`flex items-center gap-2 px-3 py-1 rounded-lg border text-xs transition-all duration-200 ${
+                isSelected
+                  ? 'bg-peacock-500/20 border-peacock-500 text-white'
+                  : 'bg-dark-700/30 border-dark-600 text-peacock-300'
+              }`}
+            >
+              <button type="button" onClick={() => toggle(unit.assetTag)} className="text-left">
+                <span className="font-semibold">{unit.assetTag}</span>
+                {unit.serialNumber && <span className="text-dark-300"> · {unit.serialNumber}</span>}
+                <span className={unit.condition === 'damaged' || unit.condition === 'worn' ? 'text-yellow-400' : 'text-dark-300'}>
+                  {' '}· {unit.condition}
+                </span>
+              </button>
+              {isSelected && renderSelected?.(unit)}
+            </div>
+          );
+        })}
+        {units.length === 0 && <p className="text-dark-300 text-xs">No units to choose from</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AssetUnitPicker;
@@ -1,30 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { History, Search, Filter, Calendar, User, Package } from 'lucide-react';
-import { hybridDataService } from '../../services/hybridDataService';
-import { BorrowRequest } from '../../types';
+import { useData } from '../../context/DataContext';
+import { getRequestItems } from '../../utils/requestItems';
+import { formatRequestStatus } from '../../utils/requestLifecycle';
 
 const BorrowHistory: React.FC = () => {
-  const [history, setHistory] = useState<BorrowRequest[]>([]);
+  const { requests } = useData();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState('');
 
-  useEffect(() => {
-    loadHistory();
-  }, []);
-
-  const loadHistory = () => {
-    hybridDataService.getRequests().then(requests => {
-      setHistory(requests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()));
-    }).catch(error => {
-      console.error('Error loading history:', error);
-    });
-  };
+  const history = [...requests].sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
 
   const filteredHistory = history.filter(request => {
     const matchesSearch = request.studentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         request.componentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         getRequestItems(request).some(item => item.componentName.toLowerCase().includes(searchTerm.toLowerCase())) ||
                          request.rollNo.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesStatus = statusFilter === 'all' || request.status === statusFilter;
@@ -37,8 +28,12 @@ const BorrowHistory: React.FC = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'approved':
+      case 'ready_for_pickup':
+        return 'bg-cyan-500/10 border-cyan-500/20 text-cyan-400';
+      case 'checked_out':
         return 'bg-green-500/10 border-green-500/20 text-green-400';
+      case 'expired':
+        return 'bg-dark-500/10 border-dark-500/20 text-dark-300';
       case 'rejected':
         return 'bg-red-500/10 border-red-500/20 text-red-400';
       case 'returned':
@@ -72,9 +67,11 @@ const BorrowHistory: React.FC = () => {
           >
             <option value="all">All Status</option>
             <option value="pending">Pending</option>
-            <option value="approved">Approved</option>
+            <option value="ready_for_pickup">Ready for Pickup</option>
+            <option value="checked_out">Checked Out</option>
             <option value="rejected">Rejected</option>
             <option value="returned">Returned</option>
+            <option value="expired">Expired</option>
           </select>
         </div>
         
@@ -123,9 +120,15 @@ const BorrowHistory: React.FC = () => {
                     </div>
                   </td>
                   <td className="p-4">
-                    <div className="flex items-center gap-2">
-                      <Package className="w-4 h-4 text-peacock-400" />
-                      <span className="text-white">{request.componentName}</span>
+                    <div className="flex items-start gap-2">
+                      <Package className="w-4 h-4 text-peacock-400 mt-1" />
+                      <div>
+                        {getRequestItems(request).map((item, lineIndex) => (
+                          <p key={`${item.componentId}-${lineIndex}`} className={item.status === 'rejected' && request.status !== 'rejected' ? 'text-dark-400 line-through' : 'text-white'}>
+                            {item.componentName}{request.items && request.items.length > 1 ? ` x${item.quantity}` : ''}
+                          </p>
+                        ))}
+                      </div>
                     </div>
                   </td>
                   <td className="p-4 text-white">{request.quantity}</td>
@@ -133,7 +136,7 @@ const BorrowHistory: React.FC = () => {
                   <td className="p-4 text-white">{new Date(request.dueDate).toLocaleDateString()}</td>
                   <td className="p-4">
                     <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(request.status)}`}>
-                      {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                      {formatRequestStatus(request.status)}
                     </span>
                   </td>
                   <td className="p-4 text-white text-sm">
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitMerge, Check, Clock, User, WifiOff } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { SyncConflict } from '../../types';
+import { conflictCollectionLabels, formatConflictValue } from '../../utils/conflicts';
+
+type Resolution = Record<string, 'local' | 'remote'>;
+
+const ConflictReview: React.FC = () => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [choices, setChoices] = useState<Record<string, Resolution>>({});
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = () => {
+    setIsOffline(!navigator.onLine);
+    Promise.all([hybridDataService.getSyncConflicts(), hybridDataService.getUsers()]).then(([all, users]) => {
+      setConflicts(all.filter(conflict => !conflict.resolvedAt));
+      setUserNames(Object.fromEntries(users.map(user => [user.id, user.name])));
+    }).catch(error => {
+      console.error('Error loading sync conflicts:', error);
+    });
+  };
+
+  const getChoice = (conflict: SyncConflict, field: string) => choices[conflict.id]?.[field] || 'remote';
+
+  const setChoice = (conflict: SyncConflict, field: string, side: 'local' | 'remote') => {
+    setChoices(prev => ({ ...prev, [conflict.id]: { ...prev[conflict.id], [field]: side } }));
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    const resolution = Object.fromEntries(conflict.fields.map(field => [field.field, getChoice(conflict, field.field)]));
+    try {
+      await hybridDataService.resolveSyncConflict(conflict, resolution);
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      alert(error instanceof Error ? error.message : 'Failed to resolve the conflict. Please try again.');
+    }
+    loadConflicts();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-orange-500/10 to-amber-500/10 backdrop-blur-xl rounded-2xl border border-orange-500/20 p-6"
+      >
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gradient-to-br from-orange-500 to-amber-500 rounded-xl shadow-lg">
+            <GitMerge className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Sync Conflicts</h2>
+            <p className="text-orange-200">Changes made offline that clashed with a newer edit. Pick the value each field should keep.</p>
+          </div>
+        </div>
+      </motion.div>
+
+      {isOffline && (
+        <p className="flex items-center gap-2 text-yellow-400 text-sm">
+          <WifiOff className="w-4 h-4" />
+          Conflicts are kept in the cloud; reconnect to review them.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        <AnimatePresence>
+          {conflicts.map((conflict, index) => (
+            <motion.div
+              key={conflict.id}
+              initial={{ opacity: 0, y: 20, scale: 0.95 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -20, scale: 0.95 }}
+              transition={{ delay: index * 0.05 }}
+              className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6 hover:border-peacock-500/40 transition-all duration-300"
+            >
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+                <div>
+                  <p className="text-orange-300 text-xs uppercase tracking-wide">{conflictCollectionLabels[conflict.collection]}</p>
+                  <h3 className="text-white font-bold text-lg">{conflict.label}</h3>
+                  <div className="flex flex-wrap gap-4 text-peacock-300 text-sm mt-1">
+                    <span className="flex items-center gap-1">
+                      <User className="w-4 h-4 text-peacock-400" />
+                      Changed by {userNames[conflict.queuedBy] || 'Unknown user'}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-4 h-4 text-peacock-400" />
+                      {new Date(conflict.queuedAt).toLocaleString()}, synced {new Date(conflict.detectedAt).toLocaleString()}
+                    </span>
+                  </div>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => handleResolve(conflict)}
+                  className="flex items-center gap-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white px-5 py-2 rounded-xl font-semibold hover:from-green-600 hover:to-emerald-600 transition-all duration-200"
+                >
+                  <Check className="w-4 h-4" />
+                  Resolve
+                </motion.button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-peacock-300 text-left">
+                      <th className="py-2 pr-4 font-medium">Field</th>
+                      <th className="py-2 pr-4 font-medium">Before</th>
+                      <th className="py-2 pr-4 font-medium">Offline change</th>
+                      <th className="py-2 font-medium">Current value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {conflict.fields.map(field => (
+                      <tr key={field.field} className="border-t border-dark-600 align-top">
+                        <td className="py-2 pr-4 text-white font-medium">{field.field}</td>
+                        <td className="py-2 pr-4 text-dark-300 break-all">{formatConflictValue(field.base)}</td>
+                        {(['local', 'remote'] as const).map(side => (
+                          <td key={side} className="py-2 pr-4">
+                            <label className="flex items-start gap-2 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`${conflict.id}-${field.field}`}
+                                checked={getChoice(conflict, field.field) === side}
+                                onChange={() => setChoice(conflict, field.field, side)}
+                                className="mt-1 accent-peacock-500"
+                              />
+                              <span className="text-white break-all">{formatConflictValue(field[side])}</span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      {conflicts.length === 0 && !isOffline && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-16"
+        >
+          <GitMerge className="w-16 h-16 text-orange-400 mx-auto mb-4" />
+          <h3 className="text-2xl font-bold text-white mb-3">No Conflicts</h3>
+          <p className="text-peacock-300 text-lg">Offline changes that could not be merged automatically will appear here.</p>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ConflictReview;
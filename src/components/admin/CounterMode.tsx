@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ScanLine, Camera, CameraOff, Package, User, Calendar, RotateCcw, AlertTriangle, Hand } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { useAuth } from '../../context/AuthContext';
+import { requestLifecycleService } from '../../services/requestLifecycleService';
+import { BorrowRequest } from '../../types';
+import { resolveScan, ScanMatch } from '../../utils/labels';
+import { getApprovedItems, getOutstandingLines, formatItemList } from '../../utils/requestItems';
+import { StockTransactionError } from '../../utils/stockTransactions';
+import ReturnDialog from './ReturnDialog';
+
+// BarcodeDetector is not in the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const CounterMode: React.FC = () => {
+  const { user } = useAuth();
+  const [code, setCode] = useState('');
+  const [lastScan, setLastScan] = useState('');
+  const [match, setMatch] = useState<ScanMatch | null>(null);
+  const [error, setError] = useState('');
+  const [cameraActive, setCameraActive] = useState(false);
+  const [returningRequest, setReturningRequest] = useState<BorrowRequest | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    return () => stopCamera();
+  }, []);
+
+  const handleScan = async (scanned: string) => {
+    const value = scanned.trim();
+    if (!value) return;
+
+    setLastScan(value);
+    setCode('');
+    try {
+      const [components, requests] = await Promise.all([
+        hybridDataService.getComponents(),
+        hybridDataService.getRequests(),
+      ]);
+      const result = resolveScan(value, components, requests);
+      setMatch(result);
+      setError(result ? '' : `Nothing matches "${value}"`);
+
+      // A unit on loan can only belong to one request, so go straight to its return
+      if (result?.unit?.status === 'on_loan' && result.requests.length === 1 && result.requests[0].status === 'checked_out') {
+        setReturningRequest(result.requests[0]);
+      }
+    } catch (error) {
+      console.error('Error resolving scan:', error);
+      setError('Failed to look up the scanned code');
+    }
+  };
+
+  const startCamera = async () => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+      setError('Camera scanning is not supported in this browser. Use a handheld scanner or type the code.');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setCameraActive(true);
+      setError('');
+
+      const detector = new Detector({ formats: ['qr_code'] });
+      const poll = async () => {
+        if (!streamRef.current) return;
+        const video = videoRef.current;
+        if (video && video.readyState >= 2) {
+          const [barcode] = await detector.detect(video).catch(() => []);
+          if (barcode) {
+            stopCamera();
+            handleScan(barcode.rawValue);
+            return;
+          }
+        }
+        setTimeout(poll, 300);
+      };
+
+      // The video element mounts once cameraActive is set
+      setTimeout(() => {
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          videoRef.current.play();
+        }
+        poll();
+      }, 0);
+    } catch (error) {
+      console.error('Error starting camera:', error);
+      setError('Could not access the camera. Check the browser permissions.');
+    }
+  };
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setCameraActive(false);
+  };
+
+  const handleCheckOut = async (request: BorrowRequest) => {
+    try {
+      await requestLifecycleService.checkOut(request, user?.name || 'Staff');
+    } catch (error) {
+      console.error('Error checking out request:', error);
+      alert(error instanceof StockTransactionError ? error.message : 'Failed to confirm pickup. Please try again.');
+    }
+    refresh();
+  };
+
+  const refresh = () => {
+    setReturningRequest(null);
+    handleScan(lastScan);
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-cyan-500/10 to-blue-500/10 backdrop-blur-xl rounded-2xl border border-cyan-500/20 p-6"
+      >
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gradient-to-br from-cyan-500 to-blue-500 rounded-xl shadow-lg">
+            <ScanLine className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Counter Mode</h2>
+            <p className="text-cyan-200">Scan a component or unit label to find its pickup or open loan</p>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Scanner Input */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6 space-y-4"
+      >
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleScan(code);
+          }}
+          className="flex gap-3"
+        >
+          <div className="relative flex-1">
+            <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              ref={inputRef}
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Scan a label or type an asset tag, serial or request id"
+              className="w-full pl-10 pr-4 py-3 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={cameraActive ? stopCamera : startCamera}
+            className="flex items-center gap-2 px-4 py-3 bg-dark-700 text-white rounded-xl font-medium hover:bg-dark-600 transition-all duration-200"
+          >
+            {cameraActive ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+            {cameraActive ? 'Stop' : 'Camera'}
+          </button>
+        </form>
+
+        {cameraActive && (
+          <video ref={videoRef} muted playsInline className="w-full max-w-md mx-auto rounded-xl border border-dark-600" />
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Scan Result */}
+      {match && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4"
+        >
+          {match.component && (
+            <div className="flex items-center gap-4 bg-dark-800/50 rounded-2xl border border-peacock-500/20 p-4">
+              <div className="p-3 bg-peacock-500/20 rounded-xl">
+                <Package className="w-6 h-6 text-peacock-400" />
+              </div>
+              <div>
+                <h3 className="text-white font-bold text-lg">{match.component.name}</h3>
+                <p className="text-peacock-300 text-sm">
+                  {match.unit
+                    ? `Unit ${match.unit.assetTag} · ${match.unit.status === 'on_loan' ? 'on loan' : match.unit.status.replace('_', ' ')} · ${match.unit.condition}`
+                    : `${match.component.availableQuantity} of ${match.component.totalQuantity} available`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {match.requests.length === 0 && (
+            <p className="text-peacock-300 text-center py-6">No pickups or open loans for this item.</p>
+          )}
+
+          {match.requests.map(request => (
+            <div
+              key={request.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-dark-800/50 rounded-2xl border border-peacock-500/20 p-4"
+            >
+              <div className="space-y-1 text-sm">
+                <p className="flex items-center gap-2 text-white font-semibold">
+                  <User className="w-4 h-4 text-peacock-400" />
+                  {request.studentName} ({request.rollNo})
+                </p>
+                <p className="text-peacock-300">
+                  {formatItemList(request.status === 'ready_for_pickup' ? getApprovedItems(request) : getOutstandingLines(request))}
+                </p>
+                <p className="flex items-center gap-2 text-peacock-300">
+                  <Calendar className="w-4 h-4 text-peacock-400" />
+                  {request.status === 'ready_for_pickup' && request.pickupDeadline
+                    ? `Awaiting pickup until ${new Date(request.pickupDeadline).toLocaleString()}`
+                    : `Due ${new Date(request.dueDate).toLocaleDateString()}`}
+                </p>
+              </div>
+              {request.status === 'ready_for_pickup' ? (
+                <button
+                  onClick={() => handleCheckOut(request)}
+                  className="flex items-center gap-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-5 py-2 rounded-xl font-semibold hover:from-blue-600 hover:to-cyan-600 transition-all duration-200"
+                >
+                  <Hand className="w-4 h-4" />
+                  Confirm Pickup
+                </button>
+              ) : (
+                <button
+                  onClick={() => setReturningRequest(request)}
+                  className="flex items-center gap-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white px-5 py-2 rounded-xl font-semibold hover:from-green-600 hover:to-emerald-600 transition-all duration-200"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Record Return
+                </button>
+              )}
+            </div>
+          ))}
+        </motion.div>
+      )}
+
+      <AnimatePresence>
+        {returningRequest && (
+          <ReturnDialog
+            request={returningRequest}
+            scannedCode={match?.unit?.assetTag}
+            onClose={() => setReturningRequest(null)}
+            onComplete={refresh}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default CounterMode;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CalendarClock, Check, X, User, Calendar, AlertTriangle } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { requestLifecycleService } from '../../services/requestLifecycleService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { BorrowRequest, LoanExtension } from '../../types';
+import { getOutstandingLines, formatItemList } from '../../utils/requestItems';
+import {
+  ExtensionLimits,
+  getExtensionBlocker,
+  getLoanStart,
+  getPendingExtension,
+  getRenewalCount,
+  getWaitlistBlocker
+} from '../../utils/loanExtensions';
+import { StockTransactionError } from '../../utils/stockTransactions';
+import { can } from '../../utils/permissions';
+
+interface QueuedExtension {
+  request: BorrowRequest;
+  extension: LoanExtension;
+}
+
+const ExtensionQueue: React.FC = () => {
+  const { user } = useAuth();
+  const { requests, components } = useData();
+  const canEditPolicy = can(user, 'manage_policy');
+  const [limits, setLimits] = useState<ExtensionLimits>(defaultLabSettings);
+
+  useEffect(() => {
+    hybridDataService.getSettings().then(settings => {
+      setLimits(settings);
+    }).catch(error => {
+      console.error('Error loading settings:', error);
+    });
+  }, []);
+
+  const queue = requests
+    .map(request => ({ request, extension: getPendingExtension(request) }))
+    .filter((entry): entry is QueuedExtension => !!entry.extension && entry.request.status === 'checked_out')
+    .sort((a, b) => new Date(a.extension.requestedAt).getTime() - new Date(b.extension.requestedAt).getTime());
+
+  const handleLimitChange = async (field: keyof ExtensionLimits, value: number) => {
+    if (!Number.isFinite(value) || value < (field === 'maxRenewals' ? 0 : 1)) return;
+    setLimits(prev => ({ ...prev, [field]: value }));
+    const settings = await hybridDataService.getSettings();
+    await hybridDataService.updateSettings({ ...settings, [field]: value });
+  };
+
+  const handleReview = async (entry: QueuedExtension, approved: boolean) => {
+    const response = approved ? undefined : prompt('Reason for denying the extension:');
+    if (!approved && !response) return;
+
+    try {
+      await requestLifecycleService.reviewExtension(entry.request, entry.extension.id, approved, user?.name || 'Staff', response || undefined);
+    } catch (error) {
+      console.error('Error reviewing extension:', error);
+      alert(error instanceof StockTransactionError ? error.message : 'Failed to review the extension. Please try again.');
+    }
+  };
+
+  const getLoanDays = (request: BorrowRequest, dueDate: string) => {
+    return Math.ceil((new Date(dueDate).getTime() - new Date(getLoanStart(request)).getTime()) / (1000 * 3600 * 24));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-teal-500/10 to-cyan-500/10 backdrop-blur-xl rounded-2xl border border-teal-500/20 p-6"
+      >
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="p-3 bg-gradient-to-br from-teal-500 to-cyan-500 rounded-xl shadow-lg">
+            <CalendarClock className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Loan Extensions</h2>
+            <p className="text-teal-200">Approve or deny requests for more time on checked out items</p>
+          </div>
+          <div className="ml-auto flex flex-wrap gap-2">
+            <label className="flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+              <span className="text-teal-200 text-sm px-2">Max renewals:</span>
+              <input
+                type="number"
+                min="0"
+                value={limits.maxRenewals}
+                onChange={(e) => handleLimitChange('maxRenewals', parseInt(e.target.value))}
+                disabled={!canEditPolicy}
+                className="w-16 disabled:opacity-50 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+              />
+            </label>
+            <label className="flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+              <span className="text-teal-200 text-sm px-2">Max loan (days):</span>
+              <input
+                type="number"
+                min="1"
+                value={limits.maxLoanDays}
+                onChange={(e) => handleLimitChange('maxLoanDays', parseInt(e.target.value))}
+                disabled={!canEditPolicy}
+                className="w-16 disabled:opacity-50 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+              />
+            </label>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Extension Requests */}
+      <div className="space-y-4">
+        <AnimatePresence>
+          {queue.map((entry, index) => {
+            const { request, extension } = entry;
+            const blocker = getWaitlistBlocker(request, components) || getExtensionBlocker(request, limits, extension.proposedDueDate);
+
+            return (
+              <motion.div
+                key={extension.id}
+                initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.95 }}
+                transition={{ delay: index * 0.05 }}
+                className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6 hover:border-peacock-500/40 transition-all duration-300"
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
+                  <div className="flex-1 space-y-3">
+                    <div>
+                      <h3 className="text-white font-bold text-lg">{formatItemList(getOutstandingLines(request))}</h3>
+                      <p className="flex items-center gap-2 text-peacock-300 text-sm">
+                        <User className="w-4 h-4 text-peacock-400" />
+                        {request.studentName} ({request.rollNo})
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                      <div className="flex items-center gap-3">
+                        <Calendar className="w-4 h-4 text-peacock-400" />
+                        <div>
+                          <p className="text-peacock-300">Current Due Date</p>
+                          <p className="text-white">{new Date(request.dueDate).toLocaleDateString()}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <CalendarClock className="w-4 h-4 text-peacock-400" />
+                        <div>
+                          <p className="text-peacock-300">Requested Due Date</p>
+                          <p className="text-white font-semibold">{new Date(extension.proposedDueDate).toLocaleDateString()}</p>
+                        </div>
+                      </div>
+                      <div>
+                        <p className="text-peacock-300">Loan Length / Renewals</p>
+                        <p className="text-white">
+                          {getLoanDays(request, extension.proposedDueDate)} of {limits.maxLoanDays} days · {getRenewalCount(request)} of {limits.maxRenewals} used
+                        </p>
+                      </div>
+                    </div>
+
+                    <p className="text-peacock-200 text-sm bg-dark-700/30 rounded-xl p-3">"{extension.reason}"</p>
+
+                    {blocker && (
+                      <p className="flex items-center gap-2 text-yellow-400 text-sm">
+                        <AlertTriangle className="w-4 h-4" />
+                        {blocker}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex gap-3">
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => handleReview(entry, true)}
+                      disabled={!!blocker}
+                      className="flex items-center gap-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white px-5 py-2 rounded-xl font-semibold hover:from-green-600 hover:to-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      <Check className="w-4 h-4" />
+                      Approve
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => handleReview(entry, false)}
+                      className="flex items-center gap-2 bg-gradient-to-r from-red-500 to-red-600 text-white px-5 py-2 rounded-xl font-semibold hover:from-red-600 hover:to-red-700 transition-all duration-200"
+                    >
+                      <X className="w-4 h-4" />
+                      Deny
+                    </motion.button>
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      {queue.length === 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-16"
+        >
+          <CalendarClock className="w-16 h-16 text-teal-400 mx-auto mb-4" />
+          <h3 className="text-2xl font-bold text-white mb-3">No Extension Requests</h3>
+          <p className="text-peacock-300 text-lg">Requests for more time will appear here.</p>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ExtensionQueue;
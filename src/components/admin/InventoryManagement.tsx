@@ -1,36 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Edit, Package, Search, Trash2 } from 'lucide-react';
+import { Plus, Edit, Package, Search, Trash2, X, QrCode } from 'lucide-react';
 import { hybridDataService } from '../../services/hybridDataService';
-import { Component } from '../../types';
+import { useData } from '../../context/DataContext';
+import { waitlistService } from '../../services/waitlistService';
+import { AssetCondition, AssetUnit, Component } from '../../types';
+import { countUnits } from '../../utils/assetUnits';
+import { Label, labelService } from '../../services/labelService';
+import LabelSheetModal from './LabelSheetModal';
 
 const InventoryManagement: React.FC = () => {
-  const [components, setComponents] = useState<Component[]>([]);
+  const { components } = useData();
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingComponent, setEditingComponent] = useState<Component | null>(null);
+  const [labelSheet, setLabelSheet] = useState<{ title: string; labels: Label[] } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     totalQuantity: 0,
     category: '',
     description: '',
+    serialized: false,
+    units: [] as AssetUnit[],
   });
 
-  useEffect(() => {
-    loadComponents();
-  }, []);
-
-  const loadComponents = () => {
-    hybridDataService.getComponents().then(components => {
-      setComponents(components);
-    }).catch(error => {
-      console.error('Error loading components:', error);
-    });
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    const units = formData.units.map(({ serialNumber, ...unit }) => ({
+      ...unit,
+      assetTag: unit.assetTag.trim(),
+      ...(serialNumber?.trim() ? { serialNumber: serialNumber.trim() } : {}),
+    }));
+    if (formData.serialized) {
+      const tags = units.map(unit => unit.assetTag.toLowerCase());
+      if (tags.some(tag => !tag) || new Set(tags).size !== tags.length) {
+        alert('Every unit needs a unique asset tag.');
+        return;
+      }
+    }
+    // Serialized components take their quantities from the unit list
+    const tracking = formData.serialized ? { serialized: true, units, ...countUnits(units) } : { serialized: false };
+
     if (editingComponent) {
       const updatedComponent: Component = {
         ...editingComponent,
@@ -39,8 +50,18 @@ const InventoryManagement: React.FC = () => {
         availableQuantity: editingComponent.availableQuantity + (formData.totalQuantity - editingComponent.totalQuantity),
         category: formData.category,
         description: formData.description,
+        ...tracking,
       };
-      hybridDataService.updateComponent(updatedComponent);
+      // Only what the form changed is sent, so stock moved since the dialog opened is kept
+      const changes = Object.fromEntries(Object.entries(updatedComponent).filter(([field, value]) =>
+        JSON.stringify(value) !== JSON.stringify(editingComponent[field as keyof Component])
+      )) as Partial<Component>;
+      hybridDataService.updateComponent(editingComponent, changes).then(() => {
+        // Added stock may cover the next waitlisted request
+        if (updatedComponent.availableQuantity > editingComponent.availableQuantity) {
+          return waitlistService.promote([updatedComponent.id]);
+        }
+      });
     } else {
       const newComponent: Component = {
         id: `comp-${Date.now()}`,
@@ -49,12 +70,12 @@ const InventoryManagement: React.FC = () => {
         availableQuantity: formData.totalQuantity,
         category: formData.category,
         description: formData.description,
+        ...tracking,
       };
       hybridDataService.addComponent(newComponent);
     }
 
     resetForm();
-    loadComponents();
   };
 
   const handleEdit = (component: Component) => {
@@ -64,15 +85,39 @@ const InventoryManagement: React.FC = () => {
       totalQuantity: component.totalQuantity,
       category: component.category,
       description: component.description || '',
+      serialized: !!component.serialized,
+      units: component.units || [],
     });
     setShowAddForm(true);
   };
 
+  const addUnit = () => {
+    setFormData(prev => {
+      const prefix = (prev.name.replace(/[^a-z0-9]/gi, '').slice(0, 4) || 'UNIT').toUpperCase();
+      let next = prev.units.length + 1;
+      while (prev.units.some(unit => unit.assetTag === `${prefix}-${String(next).padStart(3, '0')}`)) next++;
+      return {
+        ...prev,
+        units: [...prev.units, { assetTag: `${prefix}-${String(next).padStart(3, '0')}`, condition: 'good', status: 'available' }],
+      };
+    });
+  };
+
+  const updateUnit = (index: number, changes: Partial<AssetUnit>) => {
+    setFormData(prev => ({
+      ...prev,
+      units: prev.units.map((unit, unitIndex) => unitIndex === index ? { ...unit, ...changes } : unit),
+    }));
+  };
+
+  const removeUnit = (index: number) => {
+    setFormData(prev => ({ ...prev, units: prev.units.filter((_, unitIndex) => unitIndex !== index) }));
+  };
+
   const handleDelete = async (component: Component) => {
     if (window.confirm(`Are you sure you want to delete "${component.name}"? This action cannot be undone.`)) {
       try {
         await hybridDataService.deleteComponent(component.id);
-        loadComponents();
       } catch (error) {
         console.error('Error deleting component:', error);
         alert('Failed to delete component. Please try again.');
@@ -85,11 +130,20 @@ const InventoryManagement: React.FC = () => {
       totalQuantity: 0,
       category: '',
       description: '',
+      serialized: false,
+      units: [],
     });
     setEditingComponent(null);
     setShowAddForm(false);
   };
 
+  // Switching tracking mode mid-loan would lose track of what is out, so it waits until everything is back
+  const serializationLock = editingComponent && (
+    editingComponent.serialized
+      ? editingComponent.units?.some(unit => unit.status === 'on_loan') && 'Units are on loan; return them before turning off unit tracking.'
+      : editingComponent.availableQuantity < editingComponent.totalQuantity && 'Some units are on loan; return them before enabling unit tracking.'
+  );
+
   const filteredComponents = components.filter(component =>
     component.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     component.category.toLowerCase().includes(searchTerm.toLowerCase())
@@ -118,6 +172,19 @@ const InventoryManagement: React.FC = () => {
           />
         </div>
         
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setLabelSheet({
+            title: 'All Component Labels',
+            labels: filteredComponents.flatMap(component => labelService.getComponentLabels(component)),
+          })}
+          className="flex items-center gap-2 bg-dark-700/50 border border-dark-600 text-peacock-300 px-6 py-3 rounded-lg font-medium hover:text-white hover:bg-dark-700 transition-all duration-200"
+        >
+          <QrCode className="w-5 h-5" />
+          Print Labels
+        </motion.button>
+
         <motion.button
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
@@ -129,6 +196,12 @@ const InventoryManagement: React.FC = () => {
         </motion.button>
       </div>
 
+      <AnimatePresence>
+        {labelSheet && (
+          <LabelSheetModal title={labelSheet.title} labels={labelSheet.labels} onClose={() => setLabelSheet(null)} />
+        )}
+      </AnimatePresence>
+
       {/* Add/Edit Form Modal */}
       <AnimatePresence>
         {showAddForm && (
@@ -143,7 +216,7 @@ const InventoryManagement: React.FC = () => {
               initial={{ scale: 0.95, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.95, opacity: 0 }}
-              className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-md"
+              className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
             >
               <h3 className="text-xl font-bold text-white mb-4">
                 {editingComponent ? 'Edit Component' : 'Add New Component'}
@@ -172,17 +245,94 @@ const InventoryManagement: React.FC = () => {
                   />
                 </div>
                 
-                <div>
-                  <label className="block text-peacock-300 text-sm font-medium mb-2">Total Quantity</label>
+                <label className="flex items-center gap-3 text-peacock-300 text-sm font-medium">
                   <input
-                    type="number"
-                    min="0"
-                    value={formData.totalQuantity}
-                    onChange={(e) => setFormData(prev => ({ ...prev, totalQuantity: parseInt(e.target.value) }))}
-                    className="w-full px-4 py-3 bg-dark-700/50 border border-dark-600 rounded-lg text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
-                    required
+                    type="checkbox"
+                    checked={formData.serialized}
+                    disabled={!!serializationLock}
+                    onChange={(e) => setFormData(prev => ({ ...prev, serialized: e.target.checked }))}
+                    className="w-4 h-4 rounded border-dark-600 bg-dark-700 text-peacock-500"
                   />
-                </div>
+                  Track individual units with asset tags
+                </label>
+                {serializationLock && <p className="text-yellow-300 text-xs -mt-2">{serializationLock}</p>}
+
+                {formData.serialized ? (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-peacock-300 text-sm font-medium">
+                        Units ({formData.units.filter(unit => unit.status !== 'written_off').length})
+                      </label>
+                      <button
+                        type="button"
+                        onClick={addUnit}
+                        className="flex items-center gap-1 text-peacock-400 hover:text-peacock-300 text-sm"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add Unit
+                      </button>
+                    </div>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {formData.units.map((unit, unitIndex) => (
+                        <div key={unitIndex} className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={unit.assetTag}
+                            onChange={(e) => updateUnit(unitIndex, { assetTag: e.target.value })}
+                            placeholder="Asset tag"
+                            disabled={unit.status !== 'available'}
+                            className="w-28 px-2 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm disabled:opacity-60"
+                          />
+                          <input
+                            type="text"
+                            value={unit.serialNumber || ''}
+                            onChange={(e) => updateUnit(unitIndex, { serialNumber: e.target.value })}
+                            placeholder="Serial no."
+                            className="flex-1 min-w-0 px-2 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm"
+                          />
+                          {unit.status === 'available' ? (
+                            <>
+                              <select
+                                value={unit.condition}
+                                onChange={(e) => updateUnit(unitIndex, { condition: e.target.value as AssetCondition })}
+                                className="px-2 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm"
+                              >
+                                <option value="new">New</option>
+                                <option value="good">Good</option>
+                                <option value="worn">Worn</option>
+                                <option value="damaged">Damaged</option>
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => removeUnit(unitIndex)}
+                                className="p-1 text-red-400 hover:text-red-300"
+                                title="Remove unit"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </>
+                          ) : (
+                            <span className="text-xs text-dark-300 w-24 text-right">
+                              {unit.status === 'on_loan' ? 'On loan' : 'Written off'}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-peacock-300 text-sm font-medium mb-2">Total Quantity</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.totalQuantity}
+                      onChange={(e) => setFormData(prev => ({ ...prev, totalQuantity: parseInt(e.target.value) }))}
+                      className="w-full px-4 py-3 bg-dark-700/50 border border-dark-600 rounded-lg text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+                      required
+                    />
+                  </div>
+                )}
                 
                 <div>
                   <label className="block text-peacock-300 text-sm font-medium mb-2">Description</label>
@@ -240,6 +390,19 @@ const InventoryManagement: React.FC = () => {
                 </div>
                 
                 <div className="flex items-center gap-2">
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setLabelSheet({
+                      title: `${component.name} Labels`,
+                      labels: labelService.getComponentLabels(component),
+                    })}
+                    className="p-2 text-peacock-400 hover:text-peacock-300 hover:bg-dark-700/50 rounded-lg transition-all duration-200"
+                    title="Print QR labels"
+                  >
+                    <QrCode className="w-4 h-4" />
+                  </motion.button>
+
                   <motion.button
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
@@ -271,6 +434,12 @@ const InventoryManagement: React.FC = () => {
                   <span className="text-peacock-300">Total:</span>
                   <span className="text-white font-medium">{component.totalQuantity}</span>
                 </div>
+                {component.waitlist && component.waitlist.length > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-peacock-300">Waitlist:</span>
+                    <span className="text-purple-400 font-medium">{component.waitlist.length} waiting</span>
+                  </div>
+                )}
                 
                 <div className={`px-3 py-1 rounded-full text-xs font-medium ${stockStatus.bg} ${stockStatus.color}`}>
                   {stockStatus.text}
@@ -279,6 +448,53 @@ const InventoryManagement: React.FC = () => {
                 {component.description && (
                   <p className="text-dark-300 text-sm">{component.description}</p>
                 )}
+
+                {component.serialized && component.units && component.units.length > 0 && (
+                  <details className="text-sm">
+                    <summary className="text-peacock-300 cursor-pointer">
+                      {component.units.length} tracked unit(s)
+                    </summary>
+                    <div className="mt-2 space-y-1">
+                      {component.units.map(unit => {
+                        const loans = unit.history || [];
+                        const damagedCount = loans.filter(loan => loan.outcome === 'damaged').length;
+                        return (
+                          <div key={unit.assetTag} className="flex items-center justify-between p-2 bg-dark-700/30 rounded-lg border border-dark-600 text-xs">
+                            <span className="text-white">
+                              {unit.assetTag}
+                              {unit.serialNumber && <span className="text-dark-300"> · {unit.serialNumber}</span>}
+                            </span>
+                            <span className={unit.status === 'available' ? 'text-green-400' : unit.status === 'on_loan' ? 'text-yellow-400' : 'text-red-400'}>
+                              {unit.status === 'on_loan' ? 'on loan' : unit.status === 'written_off' ? 'written off' : unit.condition}
+                              {' '}· {loans.length} loan(s){damagedCount > 0 && `, ${damagedCount} damaged`}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </details>
+                )}
+
+                {component.writeOffs && component.writeOffs.length > 0 && (
+                  <details className="text-sm">
+                    <summary className="text-red-400 cursor-pointer">
+                      {component.writeOffs.reduce((sum, writeOff) => sum + writeOff.quantity, 0)} unit(s) written off
+                    </summary>
+                    <div className="mt-2 space-y-2">
+                      {component.writeOffs.map((writeOff, writeOffIndex) => (
+                        <div key={writeOffIndex} className="p-2 bg-dark-700/30 rounded-lg border border-dark-600 text-xs">
+                          <p className="text-white">
+                            {writeOff.quantity} {writeOff.reason} · {writeOff.studentName}
+                          </p>
+                          <p className="text-peacock-300">
+                            {new Date(writeOff.recordedAt).toLocaleDateString()} by {writeOff.recordedBy}
+                          </p>
+                          {writeOff.notes && <p className="text-dark-300">{writeOff.notes}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
               </div>
             </motion.div>
           );
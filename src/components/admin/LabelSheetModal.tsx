@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Printer, X } from 'lucide-react';
+import { Label, labelService } from '../../services/labelService';
+
+interface LabelSheetModalProps {
+  title: string;
+  labels: Label[];
+  onClose: () => void;
+}
+
+const LabelSheetModal: React.FC<LabelSheetModalProps> = ({ title, labels, onClose }) => {
+  const sheets = useMemo(() => labelService.generateSheets(labels), [labels]);
+  const filename = `labels-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.svg`;
+
+  const handlePrint = () => {
+    try {
+      labelService.print(labels, title);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to open print window');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-2xl max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-white">{title}</h3>
+            <p className="text-peacock-300 text-sm">
+              {labels.length} label(s) on {sheets.length} A4 sheet(s)
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-peacock-400 hover:text-white rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 bg-dark-900/50 rounded-xl p-4">
+          {sheets.map((sheet, index) => (
+            <div
+              key={index}
+              className="mx-auto max-w-md shadow-lg [&>svg]:w-full [&>svg]:h-auto"
+              dangerouslySetInnerHTML={{ __html: sheet }}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <button
+            onClick={handlePrint}
+            className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-peacock-500 to-blue-500 text-white py-3 rounded-lg font-medium hover:from-peacock-600 hover:to-blue-600 transition-all duration-200"
+          >
+            <Printer className="w-4 h-4" />
+            Print / Save as PDF
+          </button>
+          <button
+            onClick={() => labelService.downloadSVG(labels, filename)}
+            className="flex items-center gap-2 px-6 py-3 bg-dark-700 text-white rounded-lg font-medium hover:bg-dark-600 transition-all duration-200"
+          >
+            <Download className="w-4 h-4" />
+            SVG
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default LabelSheetModal;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, Layers, CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { BorrowingPolicy, CategoryLimit } from '../../types';
+import { PolicyLimits } from '../../utils/borrowingPolicy';
+
+const inputClass = 'w-20 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200';
+
+const PolicySettings: React.FC = () => {
+  const [limits, setLimits] = useState<PolicyLimits>(defaultLabSettings);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [blackout, setBlackout] = useState({ label: '', start: '', end: '' });
+
+  useEffect(() => {
+    Promise.all([hybridDataService.getSettings(), hybridDataService.getComponents()]).then(([settings, components]) => {
+      setLimits(settings);
+      setCategories([...new Set(components.map(c => c.category))].sort());
+    }).catch(error => {
+      console.error('Error loading borrowing policy:', error);
+    });
+  }, []);
+
+  const save = async (next: PolicyLimits) => {
+    setLimits(next);
+    const settings = await hybridDataService.getSettings();
+    await hybridDataService.updateSettings({ ...settings, ...next });
+  };
+
+  const savePolicy = (changes: Partial<BorrowingPolicy>) => save({ ...limits, policy: { ...limits.policy, ...changes } });
+
+  const handleNumberChange = (field: 'maxPerComponent' | 'maxConcurrentLoans' | 'minLeadDays', value: number) => {
+    if (!Number.isFinite(value) || value < (field === 'minLeadDays' ? 0 : 1)) return;
+    savePolicy({ [field]: value });
+  };
+
+  const handleMaxLoanDaysChange = (value: number) => {
+    if (!Number.isFinite(value) || value < 1) return;
+    save({ ...limits, maxLoanDays: value });
+  };
+
+  // A blank field removes that limit so the category falls back to the lab-wide one
+  const handleCategoryChange = (category: string, field: keyof Omit<CategoryLimit, 'category'>, raw: string) => {
+    const value = parseInt(raw);
+    if (raw !== '' && (!Number.isFinite(value) || value < 1)) return;
+
+    const existing = limits.policy.categoryLimits.find(limit => limit.category === category) || { category };
+    const updated: CategoryLimit = { ...existing };
+    if (raw === '') {
+      delete updated[field];
+    } else {
+      updated[field] = value;
+    }
+
+    const others = limits.policy.categoryLimits.filter(limit => limit.category !== category);
+    const hasLimits = Object.keys(updated).length > 1;
+    savePolicy({ categoryLimits: hasLimits ? [...others, updated] : others });
+  };
+
+  const handleAddBlackout = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!blackout.label.trim() || !blackout.start || !blackout.end) return;
+    if (blackout.end < blackout.start) {
+      alert('The blackout must end on or after its start date');
+      return;
+    }
+
+    savePolicy({
+      blackouts: [...limits.policy.blackouts, { id: `blackout-${Date.now()}`, label: blackout.label.trim(), start: blackout.start, end: blackout.end }]
+        .sort((a, b) => a.start.localeCompare(b.start)),
+    });
+    setBlackout({ label: '', start: '', end: '' });
+  };
+
+  const handleRemoveBlackout = (id: string) => {
+    savePolicy({ blackouts: limits.policy.blackouts.filter(period => period.id !== id) });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-rose-500/10 to-orange-500/10 backdrop-blur-xl rounded-2xl border border-rose-500/20 p-6"
+      >
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gradient-to-br from-rose-500 to-orange-500 rounded-xl shadow-lg">
+            <ShieldCheck className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Borrowing Policy</h2>
+            <p className="text-rose-200">Limits checked when students submit requests and again when you approve them</p>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Lab-wide Limits */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6"
+      >
+        <h3 className="text-white font-bold text-lg mb-4">Lab-wide Limits</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="flex items-center justify-between gap-4 bg-dark-700/30 p-3 rounded-xl">
+            <span className="text-peacock-300 text-sm">Max units of one component per student</span>
+            <input
+              type="number"
+              min="1"
+              value={limits.policy.maxPerComponent}
+              onChange={(e) => handleNumberChange('maxPerComponent', parseInt(e.target.value))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 bg-dark-700/30 p-3 rounded-xl">
+            <span className="text-peacock-300 text-sm">Max open requests per student</span>
+            <input
+              type="number"
+              min="1"
+              value={limits.policy.maxConcurrentLoans}
+              onChange={(e) => handleNumberChange('maxConcurrentLoans', parseInt(e.target.value))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 bg-dark-700/30 p-3 rounded-xl">
+            <span className="text-peacock-300 text-sm">Min days between request and due date</span>
+            <input
+              type="number"
+              min="0"
+              value={limits.policy.minLeadDays}
+              onChange={(e) => handleNumberChange('minLeadDays', parseInt(e.target.value))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 bg-dark-700/30 p-3 rounded-xl">
+            <span className="text-peacock-300 text-sm">Max loan length (days)</span>
+            <input
+              type="number"
+              min="1"
+              value={limits.maxLoanDays}
+              onChange={(e) => handleMaxLoanDaysChange(parseInt(e.target.value))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-3 bg-dark-700/30 p-3 rounded-xl md:col-span-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={limits.policy.blockOverdue}
+              onChange={(e) => savePolicy({ blockOverdue: e.target.checked })}
+              className="w-4 h-4 accent-peacock-500"
+            />
+            <span className="text-peacock-300 text-sm">Block new requests from students with overdue items</span>
+          </label>
+        </div>
+      </motion.div>
+
+      {/* Category Limits */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6"
+      >
+        <div className="flex items-center gap-2 mb-1">
+          <Layers className="w-5 h-5 text-peacock-400" />
+          <h3 className="text-white font-bold text-lg">Category Limits</h3>
+        </div>
+        <p className="text-peacock-300 text-sm mb-4">Leave a field blank to use the lab-wide limit.</p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-peacock-300">
+                <th className="py-2 pr-4 font-medium">Category</th>
+                <th className="py-2 pr-4 font-medium">Per component</th>
+                <th className="py-2 pr-4 font-medium">Category total</th>
+                <th className="py-2 font-medium">Max loan (days)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(category => {
+                const limit = limits.policy.categoryLimits.find(l => l.category === category);
+                return (
+                  <tr key={category} className="border-t border-dark-700">
+                    <td className="py-2 pr-4 text-white">{category}</td>
+                    {(['maxPerComponent', 'maxTotal', 'maxLoanDays'] as const).map(field => (
+                      <td key={field} className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min="1"
+                          value={limit?.[field] ?? ''}
+                          onChange={(e) => handleCategoryChange(category, field, e.target.value)}
+                          className={inputClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </motion.div>
+
+      {/* Blackout Dates */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6"
+      >
+        <div className="flex items-center gap-2 mb-1">
+          <CalendarOff className="w-5 h-5 text-peacock-400" />
+          <h3 className="text-white font-bold text-lg">Blackout Dates</h3>
+        </div>
+        <p className="text-peacock-300 text-sm mb-4">No requests are taken and no loans may fall due during these dates.</p>
+
+        <div className="space-y-2 mb-4">
+          {limits.policy.blackouts.map(period => (
+            <div key={period.id} className="flex items-center justify-between p-3 bg-dark-700/30 rounded-xl">
+              <div>
+                <p className="text-white font-medium">{period.label}</p>
+                <p className="text-peacock-300 text-sm">
+                  {new Date(period.start).toLocaleDateString()} – {new Date(period.end).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRemoveBlackout(period.id)}
+                className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-all duration-200"
+                title="Remove blackout"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {limits.policy.blackouts.length === 0 && (
+            <p className="text-peacock-300 text-sm">No blackout dates set.</p>
+          )}
+        </div>
+
+        <form onSubmit={handleAddBlackout} className="flex flex-wrap items-end gap-3">
+          <input
+            type="text"
+            required
+            placeholder="e.g. Mid-semester exams"
+            value={blackout.label}
+            onChange={(e) => setBlackout(prev => ({ ...prev, label: e.target.value }))}
+            className="flex-1 min-w-[12rem] px-4 py-2 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+          />
+          <input
+            type="date"
+            required
+            value={blackout.start}
+            onChange={(e) => setBlackout(prev => ({ ...prev, start: e.target.value }))}
+            className="px-4 py-2 bg-dark-700/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+          />
+          <input
+            type="date"
+            required
+            value={blackout.end}
+            min={blackout.start}
+            onChange={(e) => setBlackout(prev => ({ ...prev, end: e.target.value }))}
+            className="px-4 py-2 bg-dark-700/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-rose-500 to-orange-500 text-white rounded-xl font-semibold hover:from-rose-600 hover:to-orange-600 transition-all duration-200"
+          >
+            <Plus className="w-4 h-4" />
+            Add Blackout
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+};
+
+export default PolicySettings;
@@ -1,110 +1,253 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Check, X, Package, User, Phone, Calendar, AlertTriangle, Search, Filter } from 'lucide-react';
+import { Check, X, Package, User, Phone, Calendar, AlertTriangle, Search, Edit, ShieldAlert } from 'lucide-react';
 import { hybridDataService } from '../../services/hybridDataService';
-import { BorrowRequest, Component } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { waitlistService } from '../../services/waitlistService';
+import { requestLifecycleService } from '../../services/requestLifecycleService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { StockTransactionError } from '../../utils/stockTransactions';
+import { AssetUnit, BorrowRequest, BorrowRequestItem, RequestStatus, StudentStanding, WaitlistPolicy } from '../../types';
+import { getAvailableUnits } from '../../utils/assetUnits';
+import AssetUnitPicker from './AssetUnitPicker';
+import { getRequestItems, formatItemList, summarizeItems } from '../../utils/requestItems';
+import { formatRequestStatus, isOverdue } from '../../utils/requestLifecycle';
+import { PolicyLimits, getPolicyViolations } from '../../utils/borrowingPolicy';
+import { can } from '../../utils/permissions';
 
-interface RequestManagementProps {
-  onUpdate: () => void;
+type RemainderAction = 'waitlist' | 'drop';
+
+interface ApprovalDraft {
+  request: BorrowRequest;
+  // Granted quantity and current stock, keyed by line index
+  grants: Record<number, number>;
+  available: Record<number, number>;
+  // Serialized lines only: units that can be issued and the ones picked so far
+  candidates: Record<number, AssetUnit[]>;
+  units: Record<number, string[]>;
+  reason: string;
+  remainder: RemainderAction;
 }
 
-const RequestManagement: React.FC<RequestManagementProps> = ({ onUpdate }) => {
-  const [requests, setRequests] = useState<BorrowRequest[]>([]);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
+const RequestManagement: React.FC = () => {
+  const { user } = useAuth();
+  const { requests: allRequests, components, users } = useData();
+  const canEditPolicy = can(user, 'manage_policy');
+  const [filter, setFilter] = useState<'all' | RequestStatus>('pending');
   const [searchTerm, setSearchTerm] = useState('');
+  const [approvalDraft, setApprovalDraft] = useState<ApprovalDraft | null>(null);
+  const [waitlistPolicy, setWaitlistPolicy] = useState<WaitlistPolicy>('notify_admin');
+  const [pickupWindowHours, setPickupWindowHours] = useState(48);
+  const [policyLimits, setPolicyLimits] = useState<PolicyLimits>(defaultLabSettings);
 
   useEffect(() => {
-    loadRequests();
+    hybridDataService.getSettings().then(settings => {
+      setWaitlistPolicy(settings.waitlistPolicy);
+      setPickupWindowHours(settings.pickupWindowHours);
+      setPolicyLimits(settings);
+    }).catch(error => {
+      console.error('Error loading settings:', error);
+    });
   }, []);
 
-  const loadRequests = () => {
-    hybridDataService.getRequests().then(requests => {
-    setRequests(allRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()));
+  const requests = [...allRequests].sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
+  const standings: Record<string, StudentStanding | undefined> = Object.fromEntries(users.map(user => [user.id, user.standing]));
+
+  const handlePolicyChange = async (policy: WaitlistPolicy) => {
+    setWaitlistPolicy(policy);
+    const settings = await hybridDataService.getSettings();
+    await hybridDataService.updateSettings({ ...settings, waitlistPolicy: policy });
+  };
+
+  const handlePickupWindowChange = async (hours: number) => {
+    if (!Number.isFinite(hours) || hours < 1) return;
+    setPickupWindowHours(hours);
+    const settings = await hybridDataService.getSettings();
+    await hybridDataService.updateSettings({ ...settings, pickupWindowHours: hours });
+  };
+
+  const getTargetLines = (request: BorrowRequest, lineIndex?: number) => {
+    return getRequestItems(request)
+      .map((item, index) => ({ item, index }))
+      .filter(({ item, index }) => item.status === 'pending' && (lineIndex === undefined || index === lineIndex));
+  };
+
+  // Approves every pending line (or only lineIndex), opening the adjustment dialog when stock falls short
+  const handleApprove = (request: BorrowRequest, lineIndex?: number, forceAdjust = false) => {
+    hybridDataService.getComponents().then(components => {
+      const grants: Record<number, number> = {};
+      const available: Record<number, number> = {};
+      const candidates: Record<number, AssetUnit[]> = {};
+      const units: Record<number, string[]> = {};
+      let fullyAvailable = true;
+
+      getTargetLines(request, lineIndex).forEach(({ item, index }) => {
+        const component = components.find(c => c.id === item.componentId);
+        const stock = component?.availableQuantity || 0;
+        available[index] = stock;
+        grants[index] = Math.min(item.quantity, stock);
+        if (grants[index] < item.quantity) fullyAvailable = false;
+
+        // Serialized units have to be picked, so those lines always go through the dialog
+        if (component?.serialized) {
+          candidates[index] = getAvailableUnits(component);
+          units[index] = [];
+          grants[index] = 0;
+          fullyAvailable = false;
+        }
+      });
+
+      if (fullyAvailable && !forceAdjust) {
+        approveLines(request, grants);
+      } else {
+        setApprovalDraft({ request, grants, available, candidates, units, reason: '', remainder: 'waitlist' });
+      }
     }).catch(error => {
-      console.error('Error loading requests:', error);
+      console.error('Error approving request:', error);
     });
   };
 
-  const handleApprove = (request: BorrowRequest) => {
-    hybridDataService.getComponents().then(components => {
-      const component = components.find(c => c.id === request.componentId);
-      
-      if (!component || component.availableQuantity < request.quantity) {
-        alert('Not enough components available!');
+  const approveLines = async (
+    request: BorrowRequest,
+    grants: Record<number, number>,
+    reason = '',
+    remainder: RemainderAction = 'drop',
+    units: Record<number, string[]> = {}
+  ) => {
+    try {
+      const items = getRequestItems(request);
+      const remaining: BorrowRequestItem[] = [];
+      const updatedItems = items.map((item, index): BorrowRequestItem => {
+        if (!(index in grants)) return item;
+
+        const quantity = grants[index];
+        if (quantity < item.quantity) {
+          remaining.push({
+            componentId: item.componentId,
+            componentName: item.componentName,
+            quantity: item.quantity - quantity,
+            status: 'pending',
+          });
+        }
+        if (quantity === 0) {
+          return { ...item, status: 'rejected', notes: reason };
+        }
+
+        return {
+          ...item,
+          status: 'approved',
+          ...(quantity < item.quantity ? { quantity, requestedQuantity: item.quantity, adjustmentReason: reason } : {}),
+          ...(units[index] ? { assetTags: units[index] } : {}),
+        };
+      });
+
+      // The student's situation may have changed since they submitted, so check what is actually being granted
+      const [studentRequests, student] = await Promise.all([
+        hybridDataService.getUserRequests(request.studentId),
+        hybridDataService.getUserById(request.studentId)
+      ]);
+      const violations = getPolicyViolations({ ...request, items: updatedItems }, studentRequests, components, policyLimits, student?.standing);
+      if (violations.length > 0 && !confirm(`This approval breaks the borrowing policy:\n\n${violations.map(v => `• ${v}`).join('\n')}\n\nApprove anyway?`)) {
         return;
       }
 
-      // Update component availability
-      component.availableQuantity -= request.quantity;
-      hybridDataService.updateComponent(component);
-
-      // Update request status
-      const updatedRequest = {
-        ...request,
-        status: 'approved' as const,
-        approvedBy: 'Administrator',
-        approvedAt: new Date().toISOString(),
-      };
-      hybridDataService.updateRequest(updatedRequest);
-
-      // Add notification for student
-      hybridDataService.addNotification({
-        id: `notif-${Date.now()}`,
-        userId: request.studentId,
-        title: 'Request Approved! 🎉',
-        message: `Your request for ${request.componentName} x${request.quantity} has been approved. Come and get it in the Isaac Asimov Robotics Lab.`,
-        type: 'success',
-        read: false,
-        createdAt: new Date().toISOString(),
+      const remainderMessage = remaining.length > 0
+        ? `${reason} The remaining ${formatItemList(remaining)} ${remainder === 'waitlist' ? 'has been added to the waitlist' : 'will not be issued'}.`
+        : '';
+
+      // Stock for the granted amounts is reserved in the same transaction as the status change
+      await requestLifecycleService.review(request, updatedItems, {
+        reviewedBy: user?.name || 'Staff',
+        reviewerId: user?.id,
+        note: reason,
+        detail: remainderMessage,
       });
+      await waitlistService.dequeue(request.id, Object.keys(grants).map(index => items[Number(index)].componentId));
 
-      loadRequests();
-      onUpdate();
-    }).catch(error => {
+      // Queue whatever could not be granted as a new pending request
+      if (remaining.length > 0 && remainder === 'waitlist') {
+        const waitlistedRequest: BorrowRequest = {
+          id: `req-${Date.now()}`,
+          studentId: request.studentId,
+          studentName: request.studentName,
+          rollNo: request.rollNo,
+          mobile: request.mobile,
+          ...summarizeItems(remaining),
+          items: remaining,
+          requestDate: request.requestDate,
+          dueDate: request.dueDate,
+          status: 'pending',
+          waitlistedFrom: request.id,
+        };
+        await hybridDataService.addRequest(waitlistedRequest);
+        await waitlistService.enqueue(waitlistedRequest);
+      }
+
+      setApprovalDraft(null);
+    } catch (error) {
       console.error('Error approving request:', error);
-    });
+      if (error instanceof StockTransactionError) {
+        alert(error.message);
+      }
+    }
   };
 
-  const handleReject = (request: BorrowRequest, reason: string) => {
-    const updatedRequest = {
-      ...request,
-      status: 'rejected' as const,
-      notes: reason,
-    };
-    hybridDataService.updateRequest(updatedRequest);
-
-    // Add notification for student
-    hybridDataService.addNotification({
-      id: `notif-${Date.now()}`,
-      userId: request.studentId,
-      title: 'Request Update',
-      message: `Your request for ${request.componentName} has been reviewed. ${reason}`,
-      type: 'error',
-      read: false,
-      createdAt: new Date().toISOString(),
-    });
+  const submitApprovalDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!approvalDraft) return;
+    approveLines(
+      approvalDraft.request,
+      approvalDraft.grants,
+      approvalDraft.reason.trim(),
+      approvalDraft.remainder,
+      approvalDraft.units
+    );
+  };
+
+  // Rejects every pending line, or only the line at lineIndex when given
+  const handleReject = async (request: BorrowRequest, reason: string, lineIndex?: number) => {
+    const items = getRequestItems(request);
+    const toReject = items.filter((item, index) =>
+      item.status === 'pending' && (lineIndex === undefined || index === lineIndex)
+    );
+    const updatedItems: BorrowRequestItem[] = items.map(item =>
+      toReject.includes(item) ? { ...item, status: 'rejected', notes: reason } : item
+    );
 
-    loadRequests();
-    onUpdate();
+    try {
+      await requestLifecycleService.review(request, updatedItems, { reviewedBy: user?.name || 'Staff', reviewerId: user?.id, note: reason, detail: reason });
+      await waitlistService.dequeue(request.id, toReject.map(item => item.componentId));
+    } catch (error) {
+      console.error('Error rejecting request:', error);
+      if (error instanceof StockTransactionError) {
+        alert(error.message);
+      }
+    }
+  };
+
+  const promptReject = (request: BorrowRequest, lineIndex?: number) => {
+    const reason = prompt('Reason for rejection:');
+    if (reason) handleReject(request, reason, lineIndex);
   };
 
   const filteredRequests = requests.filter(request => {
     const matchesFilter = filter === 'all' || request.status === filter;
     const matchesSearch = request.studentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         request.componentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         getRequestItems(request).some(item => item.componentName.toLowerCase().includes(searchTerm.toLowerCase())) ||
                          request.rollNo.toLowerCase().includes(searchTerm.toLowerCase());
     return matchesFilter && matchesSearch;
   });
 
-  const isOverdue = (dueDate: string, status: string) => {
-    if (status === 'returned' || status === 'rejected') return false;
-    return new Date(dueDate) < new Date();
-  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'approved':
+      case 'ready_for_pickup':
+        return 'bg-cyan-500/10 border-cyan-500/20 text-cyan-400';
+      case 'checked_out':
         return 'bg-green-500/10 border-green-500/20 text-green-400';
+      case 'expired':
+        return 'bg-dark-500/10 border-dark-500/20 text-dark-300';
       case 'rejected':
         return 'bg-red-500/10 border-red-500/20 text-red-400';
       case 'returned':
@@ -130,6 +273,34 @@ const RequestManagement: React.FC<RequestManagementProps> = ({ onUpdate }) => {
             <h2 className="text-2xl font-bold text-white mb-1">Request Management</h2>
             <p className="text-yellow-200">Review and process student component requests</p>
           </div>
+          <div className="ml-auto flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+            <span className="text-yellow-200 text-sm px-2">Waitlist:</span>
+            {([['notify_admin', 'Notify Admin'], ['auto_approve', 'Auto-Approve']] as [WaitlistPolicy, string][]).map(([policy, label]) => (
+              <button
+                key={policy}
+                onClick={() => handlePolicyChange(policy)}
+                disabled={!canEditPolicy}
+                className={`px-3 py-1 rounded-lg text-sm font-medium disabled:cursor-not-allowed transition-all duration-200 ${
+                  waitlistPolicy === policy
+                    ? 'bg-peacock-500 text-white shadow-lg'
+                    : 'text-peacock-300 hover:text-white hover:bg-dark-700/50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+            <span className="text-yellow-200 text-sm px-2">Pickup window (hours):</span>
+            <input
+              type="number"
+              min="1"
+              value={pickupWindowHours}
+              onChange={(e) => handlePickupWindowChange(parseInt(e.target.value))}
+              disabled={!canEditPolicy}
+              className="w-20 disabled:opacity-50 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+            />
+          </label>
         </div>
       </motion.div>
 
@@ -152,19 +323,19 @@ const RequestManagement: React.FC<RequestManagementProps> = ({ onUpdate }) => {
         </div>
         
         <div className="flex flex-wrap gap-2 bg-dark-800/30 p-2 rounded-xl">
-          {['all', 'pending', 'approved', 'rejected'].map((filterOption) => (
+          {(['all', 'pending', 'ready_for_pickup', 'checked_out', 'rejected'] as const).map((filterOption) => (
             <motion.button
               key={filterOption}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
-              onClick={() => setFilter(filterOption as any)}
+              onClick={() => setFilter(filterOption)}
               className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all duration-200 capitalize ${
                 filter === filterOption
                   ? 'bg-peacock-500 text-white shadow-lg'
                   : 'text-peacock-300 hover:text-white hover:bg-dark-700/50'
               }`}
             >
-              {filterOption} ({requests.filter(r => filterOption === 'all' || r.status === filterOption).length})
+              {filterOption === 'all' ? 'all' : formatRequestStatus(filterOption)} ({requests.filter(r => filterOption === 'all' || r.status === filterOption).length})
             </motion.button>
           ))}
         </div>
@@ -173,127 +344,236 @@ const RequestManagement: React.FC<RequestManagementProps> = ({ onUpdate }) => {
       {/* Requests List */}
       <div className="space-y-4">
         <AnimatePresence>
-          {filteredRequests.map((request, index) => (
-            <motion.div
-              key={request.id}
-              initial={{ opacity: 0, y: 20, scale: 0.95 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              exit={{ opacity: 0, y: -20, scale: 0.95 }}
-              transition={{ delay: index * 0.05 }}
-              whileHover={{ scale: 1.01, y: -2 }}
-              className="relative overflow-hidden bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6 hover:border-peacock-500/40 transition-all duration-300"
-            >
-              {/* Priority Indicator */}
-              {request.status === 'pending' && (
-                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-yellow-500 to-orange-500"></div>
-              )}
-
-              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
-                <div className="flex-1">
-                  <div className="flex items-center gap-4 mb-4">
-                    <div className="p-3 bg-peacock-500/20 rounded-xl">
-                      <Package className="w-6 h-6 text-peacock-400" />
-                    </div>
-                    <div>
-                      <h3 className="text-white font-bold text-xl">{request.componentName}</h3>
-                      <p className="text-peacock-300">Quantity: {request.quantity}</p>
-                    </div>
-                    {isOverdue(request.dueDate, request.status) && (
-                      <motion.div
-                        initial={{ scale: 0 }}
-                        animate={{ scale: 1 }}
-                        className="flex items-center gap-1 bg-red-500/10 border border-red-500/20 px-3 py-1 rounded-full text-red-400 text-sm font-medium"
-                      >
-                        <AlertTriangle className="w-4 h-4" />
-                        Overdue
-                      </motion.div>
-                    )}
-                  </div>
+          {filteredRequests.map((request, index) => {
+            const items = getRequestItems(request);
+            const pendingLines = items.filter(item => item.status === 'pending').length;
+            const waitlistEntry = request.status === 'pending' ? waitlistService.getEntry(components, request.id) : null;
+            const violations = request.status === 'pending'
+              ? getPolicyViolations(
+                  request,
+                  requests.filter(r => r.studentId === request.studentId),
+                  components,
+                  policyLimits,
+                  standings[request.studentId]
+                )
+              : [];
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
-                    <div className="flex items-center gap-3">
-                      <User className="w-4 h-4 text-peacock-400" />
-                      <div>
-                        <p className="text-peacock-300">Student</p>
-                        <p className="text-white font-semibold">{request.studentName}</p>
-                        <p className="text-peacock-300 text-xs">Roll: {request.rollNo}</p>
+            return (
+              <motion.div
+                key={request.id}
+                initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -20, scale: 0.95 }}
+                transition={{ delay: index * 0.05 }}
+                whileHover={{ scale: 1.01, y: -2 }}
+                className="relative overflow-hidden bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6 hover:border-peacock-500/40 transition-all duration-300"
+              >
+                {/* Priority Indicator */}
+                {request.status === 'pending' && (
+                  <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-yellow-500 to-orange-500"></div>
+                )}
+
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-4 mb-4">
+                      <div className="p-3 bg-peacock-500/20 rounded-xl">
+                        <Package className="w-6 h-6 text-peacock-400" />
                       </div>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <Phone className="w-4 h-4 text-peacock-400" />
                       <div>
-                        <p className="text-peacock-300">Mobile</p>
-                        <p className="text-white">{request.mobile}</p>
+                        <h3 className="text-white font-bold text-xl">{request.componentName}</h3>
+                        <p className="text-peacock-300">
+                          Quantity: {request.quantity}
+                          {items.length === 1 && items[0].requestedQuantity !== undefined && ` (of ${items[0].requestedQuantity} requested)`}
+                        </p>
                       </div>
+                      {waitlistEntry ? (
+                        <div className={`px-3 py-1 rounded-full border text-sm font-medium ${
+                          waitlistEntry.entry.surfacedAt
+                            ? 'bg-green-500/10 border-green-500/20 text-green-400'
+                            : 'bg-purple-500/10 border-purple-500/20 text-purple-400'
+                        }`}>
+                          Waitlist #{waitlistEntry.position} · {waitlistEntry.component.name}
+                          {waitlistEntry.entry.surfacedAt && ' · Stock available'}
+                        </div>
+                      ) : request.waitlistedFrom && request.status === 'pending' && (
+                        <div className="bg-purple-500/10 border border-purple-500/20 px-3 py-1 rounded-full text-purple-400 text-sm font-medium">
+                          Waitlisted
+                        </div>
+                      )}
+                      {isOverdue(request) && (
+                        <motion.div
+                          initial={{ scale: 0 }}
+                          animate={{ scale: 1 }}
+                          className="flex items-center gap-1 bg-red-500/10 border border-red-500/20 px-3 py-1 rounded-full text-red-400 text-sm font-medium"
+                        >
+                          <AlertTriangle className="w-4 h-4" />
+                          Overdue
+                        </motion.div>
+                      )}
                     </div>
-                    <div className="flex items-center gap-3">
-                      <Calendar className="w-4 h-4 text-peacock-400" />
-                      <div>
-                        <p className="text-peacock-300">Request Date</p>
-                        <p className="text-white">{new Date(request.requestDate).toLocaleDateString()}</p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+                      <div className="flex items-center gap-3">
+                        <User className="w-4 h-4 text-peacock-400" />
+                        <div>
+                          <p className="text-peacock-300">Student</p>
+                          <p className="text-white font-semibold">{request.studentName}</p>
+                          <p className="text-peacock-300 text-xs">Roll: {request.rollNo}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Phone className="w-4 h-4 text-peacock-400" />
+                        <div>
+                          <p className="text-peacock-300">Mobile</p>
+                          <p className="text-white">{request.mobile}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Calendar className="w-4 h-4 text-peacock-400" />
+                        <div>
+                          <p className="text-peacock-300">Request Date</p>
+                          <p className="text-white">{new Date(request.requestDate).toLocaleDateString()}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Calendar className="w-4 h-4 text-peacock-400" />
+                        <div>
+                          <p className="text-peacock-300">Due Date</p>
+                          <p className={`font-semibold ${isOverdue(request) ? 'text-red-400' : 'text-white'}`}>
+                            {new Date(request.dueDate).toLocaleDateString()}
+                          </p>
+                        </div>
                       </div>
                     </div>
-                    <div className="flex items-center gap-3">
-                      <Calendar className="w-4 h-4 text-peacock-400" />
-                      <div>
-                        <p className="text-peacock-300">Due Date</p>
-                        <p className={`font-semibold ${isOverdue(request.dueDate, request.status) ? 'text-red-400' : 'text-white'}`}>
-                          {new Date(request.dueDate).toLocaleDateString()}
-                        </p>
+
+                    {/* Line Items */}
+                    {items.length > 1 && (
+                      <div className="mt-4 space-y-2">
+                        {items.map((item, lineIndex) => (
+                          <div
+                            key={`${item.componentId}-${lineIndex}`}
+                            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-dark-700/30 rounded-xl border border-dark-600"
+                          >
+                            <div>
+                              <p className="text-white font-medium">{item.componentName}</p>
+                              <p className="text-peacock-300 text-sm">
+                                Quantity: {item.quantity}
+                                {item.requestedQuantity !== undefined && ` (of ${item.requestedQuantity} requested)`}
+                              </p>
+                              {item.adjustmentReason && <p className="text-yellow-300 text-xs mt-1">{item.adjustmentReason}</p>}
+                              {item.notes && <p className="text-red-300 text-xs mt-1">{item.notes}</p>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className={`px-3 py-1 rounded-full border text-xs font-semibold ${getStatusColor(item.status)}`}>
+                                {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+                              </span>
+                              {item.status === 'pending' && (
+                                <>
+                                  <button
+                                    onClick={() => handleApprove(request, lineIndex)}
+                                    className="p-2 text-green-400 hover:text-green-300 hover:bg-green-500/10 rounded-lg transition-all duration-200"
+                                    title="Approve this item"
+                                  >
+                                    <Check className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => promptReject(request, lineIndex)}
+                                    className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-all duration-200"
+                                    title="Reject this item"
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        ))}
                       </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col items-end gap-3">
+                    <div className={`px-4 py-2 rounded-full border text-sm font-semibold ${getStatusColor(request.status)}`}>
+                      {formatRequestStatus(request.status)}
                     </div>
+
+                    {request.status === 'pending' && (
+                      <div className="flex gap-3">
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => handleApprove(request)}
+                          className="group relative overflow-hidden bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white px-4 py-2 rounded-xl font-semibold shadow-lg transition-all duration-300"
+                        >
+                          <div className="relative z-10 flex items-center gap-2">
+                            <Check className="w-4 h-4" />
+                            {pendingLines > 1 ? 'Approve All' : 'Approve'}
+                          </div>
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => promptReject(request)}
+                          className="group relative overflow-hidden bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white px-4 py-2 rounded-xl font-semibold shadow-lg transition-all duration-300"
+                        >
+                          <div className="relative z-10 flex items-center gap-2">
+                            <X className="w-4 h-4" />
+                            {pendingLines > 1 ? 'Reject All' : 'Reject'}
+                          </div>
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => handleApprove(request, undefined, true)}
+                          className="p-2 text-peacock-400 hover:text-peacock-300 hover:bg-dark-700/50 rounded-xl transition-all duration-200"
+                          title="Approve with adjusted quantities"
+                        >
+                          <Edit className="w-5 h-5" />
+                        </motion.button>
+                      </div>
+                    )}
+
+                    {request.status !== 'pending' && items.some(item => item.adjustmentReason) && (
+                      <p className="text-yellow-300 text-xs max-w-xs text-right">
+                        Partially approved: {items.find(item => item.adjustmentReason)?.adjustmentReason}
+                      </p>
+                    )}
+
+                    {items.some(item => item.assetTags?.length) && (
+                      <p className="text-peacock-300 text-xs max-w-xs text-right">
+                        Units issued: {items.flatMap(item => item.assetTags || []).join(', ')}
+                      </p>
+                    )}
                   </div>
                 </div>
 
-                <div className="flex flex-col items-end gap-3">
-                  <div className={`px-4 py-2 rounded-full border text-sm font-semibold ${getStatusColor(request.status)}`}>
-                    {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                {violations.length > 0 && (
+                  <div className="mt-4 p-4 bg-orange-500/10 border border-orange-500/20 rounded-xl">
+                    <p className="flex items-center gap-2 text-orange-400 font-medium">
+                      <ShieldAlert className="w-4 h-4" />
+                      Borrowing policy
+                    </p>
+                    <ul className="list-disc list-inside text-orange-300 text-sm mt-1 space-y-1">
+                      {violations.map(violation => (
+                        <li key={violation}>{violation}</li>
+                      ))}
+                    </ul>
                   </div>
+                )}
 
-                  {request.status === 'pending' && (
-                    <div className="flex gap-3">
-                      <motion.button
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        onClick={() => handleApprove(request)}
-                        className="group relative overflow-hidden bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white px-4 py-2 rounded-xl font-semibold shadow-lg transition-all duration-300"
-                      >
-                        <div className="relative z-10 flex items-center gap-2">
-                          <Check className="w-4 h-4" />
-                          Approve
-                        </div>
-                      </motion.button>
-                      <motion.button
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        onClick={() => {
-                          const reason = prompt('Reason for rejection:');
-                          if (reason) handleReject(request, reason);
-                        }}
-                        className="group relative overflow-hidden bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white px-4 py-2 rounded-xl font-semibold shadow-lg transition-all duration-300"
-                      >
-                        <div className="relative z-10 flex items-center gap-2">
-                          <X className="w-4 h-4" />
-                          Reject
-                        </div>
-                      </motion.button>
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              {request.notes && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl"
-                >
-                  <p className="text-red-400 font-medium">Rejection Reason:</p>
-                  <p className="text-red-300 text-sm mt-1">{request.notes}</p>
-                </motion.div>
-              )}
-            </motion.div>
-          ))}
+                {request.notes && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl"
+                  >
+                    <p className="text-red-400 font-medium">Rejection Reason:</p>
+                    <p className="text-red-300 text-sm mt-1">{request.notes}</p>
+                  </motion.div>
+                )}
+              </motion.div>
+            );
+          })}
         </AnimatePresence>
       </div>
 
@@ -317,6 +597,130 @@ const RequestManagement: React.FC<RequestManagementProps> = ({ onUpdate }) => {
           </p>
         </motion.div>
       )}
+
+      {/* Partial Approval Modal */}
+      <AnimatePresence>
+        {approvalDraft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+            onClick={(e) => e.target === e.currentTarget && setApprovalDraft(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-lg"
+            >
+              <h3 className="text-xl font-bold text-white mb-1">Approve Request</h3>
+              <p className="text-peacock-300 text-sm mb-4">
+                {approvalDraft.request.studentName} ({approvalDraft.request.rollNo})
+              </p>
+
+              <form onSubmit={submitApprovalDraft} className="space-y-4">
+                {Object.keys(approvalDraft.grants).map(key => {
+                  const lineIndex = Number(key);
+                  const item = getRequestItems(approvalDraft.request)[lineIndex];
+                  const maxGrant = Math.min(item.quantity, approvalDraft.available[lineIndex]);
+                  return (
+                    <div key={key} className="p-3 bg-dark-700/30 rounded-xl border border-dark-600">
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-white font-medium">{item.componentName}</p>
+                        <p className="text-peacock-300 text-xs">
+                          Requested {item.quantity} · Available {approvalDraft.available[lineIndex]}
+                        </p>
+                      </div>
+                      {approvalDraft.candidates[lineIndex] ? (
+                        <AssetUnitPicker
+                          units={approvalDraft.candidates[lineIndex]}
+                          selected={approvalDraft.units[lineIndex]}
+                          max={item.quantity}
+                          onChange={(selected) => setApprovalDraft(prev => prev && {
+                            ...prev,
+                            units: { ...prev.units, [lineIndex]: selected },
+                            grants: { ...prev.grants, [lineIndex]: selected.length },
+                          })}
+                        />
+                      ) : (
+                        <input
+                          type="number"
+                          min="0"
+                          max={maxGrant}
+                          value={approvalDraft.grants[lineIndex]}
+                          onChange={(e) => {
+                            const quantity = Math.max(0, Math.min(parseInt(e.target.value) || 0, maxGrant));
+                            setApprovalDraft(prev => prev && { ...prev, grants: { ...prev.grants, [lineIndex]: quantity } });
+                          }}
+                          className="w-full px-4 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {Object.keys(approvalDraft.grants).some(key =>
+                  approvalDraft.grants[Number(key)] < getRequestItems(approvalDraft.request)[Number(key)].quantity
+                ) && (
+                  <>
+                    <div>
+                      <label className="block text-peacock-300 text-sm font-medium mb-2">Reason for reduced quantity</label>
+                      <textarea
+                        value={approvalDraft.reason}
+                        onChange={(e) => setApprovalDraft(prev => prev && { ...prev, reason: e.target.value })}
+                        rows={2}
+                        className="w-full px-4 py-3 bg-dark-700/50 border border-dark-600 rounded-lg text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+                        placeholder="e.g. Only 6 units in stock right now"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-peacock-300 text-sm font-medium mb-2">Remaining quantity</label>
+                      <div className="flex gap-2 bg-dark-700/30 p-2 rounded-lg">
+                        {([
+                          { key: 'waitlist', label: 'Add to waitlist' },
+                          { key: 'drop', label: 'Drop' },
+                        ] as const).map(option => (
+                          <button
+                            key={option.key}
+                            type="button"
+                            onClick={() => setApprovalDraft(prev => prev && { ...prev, remainder: option.key })}
+                            className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                              approvalDraft.remainder === option.key
+                                ? 'bg-peacock-500 text-white shadow-lg'
+                                : 'text-peacock-300 hover:text-white hover:bg-dark-700/50'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="submit"
+                    className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 text-white py-3 rounded-lg font-medium hover:from-green-600 hover:to-emerald-600 transition-all duration-200"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setApprovalDraft(null)}
+                    className="px-6 py-3 bg-dark-700 text-white rounded-lg font-medium hover:bg-dark-600 transition-all duration-200"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { hybridDataService } from '../../services/hybridDataService';
+import { useAuth } from '../../context/AuthContext';
+import { waitlistService } from '../../services/waitlistService';
+import { requestLifecycleService } from '../../services/requestLifecycleService';
+import { StockTransactionError } from '../../utils/stockTransactions';
+import { AssetUnit, BorrowRequest, ReturnOutcome, ReturnRecord } from '../../types';
+import { findUnit, getUnitsOnLoan } from '../../utils/assetUnits';
+import { getRequestItems, getOutstandingItems } from '../../utils/requestItems';
+import AssetUnitPicker from './AssetUnitPicker';
+
+interface ReturnDialogProps {
+  request: BorrowRequest;
+  // Asset tag or serial scanned at the counter, pre-selected as returned
+  scannedCode?: string;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+interface ReturnCounts {
+  good: number;
+  damaged: number;
+  lost: number;
+}
+
+interface ReturnDraft {
+  request: BorrowRequest;
+  // Counts keyed by line index, only for lines with units still outstanding
+  lines: Record<number, ReturnCounts>;
+  // Serialized lines: units still out on this request and the outcome picked for each handed-back unit
+  serial: Record<number, { candidates: AssetUnit[]; outcomes: Record<string, ReturnOutcome> }>;
+  notes: string;
+}
+
+const ReturnDialog: React.FC<ReturnDialogProps> = ({ request, scannedCode, onClose, onComplete }) => {
+  const { user } = useAuth();
+  const [returnDraft, setReturnDraft] = useState<ReturnDraft | null>(null);
+
+  useEffect(() => {
+    const loadDraft = async () => {
+      try {
+        const components = await hybridDataService.getComponents();
+        const lines: Record<number, ReturnCounts> = {};
+        const serial: ReturnDraft['serial'] = {};
+
+        getOutstandingItems(request).forEach(({ item, index, outstanding }) => {
+          const component = components.find(c => c.id === item.componentId);
+          if (component?.serialized && item.assetTags) {
+            // Serialized units are scanned back in one by one
+            serial[index] = {
+              candidates: getUnitsOnLoan(component, request.id).filter(unit => item.assetTags!.includes(unit.assetTag)),
+              outcomes: {},
+            };
+            // A unit scanned at the counter starts out marked as returned in good condition
+            const scanned = scannedCode ? findUnit(serial[index].candidates, scannedCode) : undefined;
+            if (scanned) serial[index].outcomes[scanned.assetTag] = 'good';
+            lines[index] = { good: scanned ? 1 : 0, damaged: 0, lost: 0 };
+          } else {
+            lines[index] = { good: outstanding, damaged: 0, lost: 0 };
+          }
+        });
+        setReturnDraft({ request, lines, serial, notes: '' });
+      } catch (error) {
+        console.error('Error opening return dialog:', error);
+      }
+    };
+
+    loadDraft();
+  }, [request, scannedCode]);
+
+  const updateSerialLine = (lineIndex: number, outcomes: Record<string, ReturnOutcome>) => {
+    const count = (outcome: ReturnOutcome) => Object.values(outcomes).filter(value => value === outcome).length;
+    setReturnDraft(prev => prev && {
+      ...prev,
+      serial: { ...prev.serial, [lineIndex]: { ...prev.serial[lineIndex], outcomes } },
+      lines: { ...prev.lines, [lineIndex]: { good: count('good'), damaged: count('damaged'), lost: count('lost') } },
+    });
+  };
+
+  const updateDraftLine = (lineIndex: number, field: keyof ReturnCounts, value: number) => {
+    setReturnDraft(prev => prev && {
+      ...prev,
+      lines: { ...prev.lines, [lineIndex]: { ...prev.lines[lineIndex], [field]: Math.max(0, value) } },
+    });
+  };
+
+  const handleReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!returnDraft) return;
+
+    const { request } = returnDraft;
+    const items = getRequestItems(request);
+    const notes = returnDraft.notes.trim();
+    const record: ReturnRecord = {
+      lines: Object.entries(returnDraft.lines).map(([index, counts]) => {
+        const serial = returnDraft.serial[Number(index)];
+        return {
+          lineIndex: Number(index),
+          ...counts,
+          ...(serial ? { units: Object.entries(serial.outcomes).map(([assetTag, outcome]) => ({ assetTag, outcome })) } : {}),
+        };
+      }),
+      ...(notes ? { notes } : {}),
+      recordedAt: new Date().toISOString(),
+      recordedBy: user?.name || 'Staff',
+    };
+
+    try {
+      await requestLifecycleService.recordReturn(request, record);
+
+      // Restored stock may cover the next waitlisted request
+      await waitlistService.promote(
+        record.lines.filter(line => line.good > 0).map(line => items[line.lineIndex].componentId)
+      );
+
+      onComplete();
+    } catch (error) {
+      console.error('Error processing return:', error);
+      if (error instanceof StockTransactionError) {
+        alert(error.message);
+      }
+    }
+  };
+
+  if (!returnDraft) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-lg"
+      >
+        <h3 className="text-xl font-bold text-white mb-1">Record Return</h3>
+        <p className="text-peacock-300 text-sm mb-4">
+          {returnDraft.request.studentName} ({returnDraft.request.rollNo})
+        </p>
+
+        <form onSubmit={handleReturn} className="space-y-4">
+          {getOutstandingItems(returnDraft.request).map(({ item, index, outstanding }) => {
+            const counts = returnDraft.lines[index];
+            const serial = returnDraft.serial[index];
+            const entered = counts.good + counts.damaged + counts.lost;
+            return (
+              <div key={index} className="p-3 bg-dark-700/30 rounded-xl border border-dark-600">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-white font-medium">{item.componentName}</p>
+                  <p className={`text-xs ${entered > outstanding ? 'text-red-400' : 'text-peacock-300'}`}>
+                    {entered} of {outstanding} outstanding
+                  </p>
+                </div>
+                {serial ? (
+                  <AssetUnitPicker
+                    units={serial.candidates}
+                    selected={Object.keys(serial.outcomes)}
+                    onChange={(selected) => updateSerialLine(index, Object.fromEntries(
+                      selected.map(assetTag => [assetTag, serial.outcomes[assetTag] || 'good'])
+                    ))}
+                    renderSelected={(unit) => (
+                      <select
+                        value={serial.outcomes[unit.assetTag]}
+                        onChange={(e) => updateSerialLine(index, {
+                          ...serial.outcomes,
+                          [unit.assetTag]: e.target.value as ReturnOutcome,
+                        })}
+                        className="bg-dark-700 border border-dark-600 rounded text-white text-xs px-1 py-0.5"
+                      >
+                        <option value="good">Returned</option>
+                        <option value="damaged">Damaged</option>
+                        <option value="lost">Lost</option>
+                      </select>
+                    )}
+                  />
+                ) : (
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      { key: 'good', label: 'Returned' },
+                      { key: 'damaged', label: 'Damaged' },
+                      { key: 'lost', label: 'Lost' },
+                    ] as const).map(field => (
+                      <div key={field.key}>
+                        <label className="block text-peacock-300 text-xs mb-1">{field.label}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          value={counts[field.key]}
+                          onChange={(e) => updateDraftLine(index, field.key, parseInt(e.target.value) || 0)}
+                          className="w-full px-3 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {Object.values(returnDraft.lines).some(counts => counts.damaged + counts.lost > 0) && (
+            <div>
+              <label className="block text-peacock-300 text-sm font-medium mb-2">What happened to the damaged or lost units?</label>
+              <textarea
+                value={returnDraft.notes}
+                onChange={(e) => setReturnDraft(prev => prev && { ...prev, notes: e.target.value })}
+                rows={2}
+                className="w-full px-4 py-3 bg-dark-700/50 border border-dark-600 rounded-lg text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+                placeholder="e.g. Motor driver burnt out during testing"
+                required
+              />
+            </div>
+          )}
+
+          <p className="text-dark-300 text-xs">
+            Returned units go back into stock. Damaged and lost units are written off the inventory total.
+            Units left unaccounted for stay on loan.
+          </p>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="submit"
+              className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 text-white py-3 rounded-lg font-medium hover:from-green-600 hover:to-emerald-600 transition-all duration-200"
+            >
+              Confirm Return
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 bg-dark-700 text-white rounded-lg font-medium hover:bg-dark-600 transition-all duration-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ReturnDialog;
@@ -1,70 +1,77 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RotateCcw, Package, User, Calendar, CheckCircle, Search, Filter } from 'lucide-react';
+import { RotateCcw, Package, User, Calendar, CheckCircle, Search, Filter, Hand, Bell } from 'lucide-react';
 import { hybridDataService } from '../../services/hybridDataService';
-import { BorrowRequest } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { requestLifecycleService } from '../../services/requestLifecycleService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { BorrowRequest, ReminderSettings } from '../../types';
+import { getApprovedItems, getOutstandingLines, formatItemList } from '../../utils/requestItems';
+import { StockTransactionError } from '../../utils/stockTransactions';
+import { isOpenLoan } from '../../utils/requestLifecycle';
+import ReturnDialog from './ReturnDialog';
+import { can } from '../../utils/permissions';
 
-interface ReturnManagementProps {
-  onUpdate: () => void;
-}
-
-const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
-  const [approvedItems, setApprovedItems] = useState<BorrowRequest[]>([]);
+const ReturnManagement: React.FC = () => {
+  const { user } = useAuth();
+  const { requests } = useData();
+  const canEditPolicy = can(user, 'manage_policy');
+  const [stage, setStage] = useState<'checked_out' | 'ready_for_pickup'>('checked_out');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'dueDate' | 'studentName' | 'componentName'>('dueDate');
+  const [returningRequest, setReturningRequest] = useState<BorrowRequest | null>(null);
+  const [reminders, setReminders] = useState<ReminderSettings>(defaultLabSettings.reminders);
+  const [offsetsInput, setOffsetsInput] = useState(defaultLabSettings.reminders.offsets.join(', '));
 
   useEffect(() => {
-    loadApprovedItems();
-  }, []);
-
-  const loadApprovedItems = () => {
-    hybridDataService.getRequests().then(allRequests => {
-      const approved = allRequests.filter(r => r.status === 'approved');
-      setApprovedItems(approved.sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()));
+    hybridDataService.getSettings().then(settings => {
+      setReminders(settings.reminders);
+      setOffsetsInput(settings.reminders.offsets.join(', '));
     }).catch(error => {
-      console.error('Error loading approved items:', error);
+      console.error('Error loading settings:', error);
     });
-  };
+  }, []);
 
-  const handleReturn = (request: BorrowRequest) => {
-    hybridDataService.getComponents().then(components => {
-      const component = components.find(c => c.id === request.componentId);
-      
-      if (component) {
-        component.availableQuantity += request.quantity;
-        hybridDataService.updateComponent(component);
-      }
+  const approvedItems = requests.filter(isOpenLoan).sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
 
-      const updatedRequest = {
-        ...request,
-        status: 'returned' as const,
-        returnedAt: new Date().toISOString(),
-      };
-      hybridDataService.updateRequest(updatedRequest);
+  const handleCheckOut = async (request: BorrowRequest) => {
+    try {
+      await requestLifecycleService.checkOut(request, user?.name || 'Staff');
+    } catch (error) {
+      console.error('Error checking out request:', error);
+      alert(error instanceof StockTransactionError ? error.message : 'Failed to confirm pickup. Please try again.');
+    }
+  };
 
-      // Add notification for student
-      hybridDataService.addNotification({
-        id: `notif-${Date.now()}`,
-        userId: request.studentId,
-        title: 'Item Returned Successfully',
-        message: `Your return of ${request.componentName} x${request.quantity} has been confirmed. Thank you for using Isaac Asimov Robotics Lab!`,
-        type: 'success',
-        read: false,
-        createdAt: new Date().toISOString(),
-      });
+  const saveReminders = async (next: ReminderSettings) => {
+    setReminders(next);
+    const settings = await hybridDataService.getSettings();
+    await hybridDataService.updateSettings({ ...settings, reminders: next });
+  };
 
-      loadApprovedItems();
-      onUpdate();
-    }).catch(error => {
-      console.error('Error processing return:', error);
-    });
+  // Days relative to the due date, e.g. "-3, 0, 1, 3, 7"
+  const handleOffsetsBlur = () => {
+    const offsets = offsetsInput.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+    if (offsets.some(offset => !Number.isInteger(offset))) {
+      setOffsetsInput(reminders.offsets.join(', '));
+      return;
+    }
+    const sorted = [...new Set(offsets)].sort((a, b) => a - b);
+    setOffsetsInput(sorted.join(', '));
+    saveReminders({ ...reminders, offsets: sorted });
+  };
+
+  const handleEscalationChange = (days: number) => {
+    if (!Number.isFinite(days) || days < 0) return;
+    saveReminders({ ...reminders, escalateAfterDays: days });
   };
 
   const filteredItems = approvedItems.filter(item => {
     const searchLower = searchTerm.toLowerCase();
-    return (
+    return item.status === stage && (
       item.studentName.toLowerCase().includes(searchLower) ||
-      item.componentName.toLowerCase().includes(searchLower) ||
+      getApprovedItems(item).some(line => line.componentName.toLowerCase().includes(searchLower)) ||
       item.rollNo.toLowerCase().includes(searchLower)
     );
   }).sort((a, b) => {
@@ -103,7 +110,51 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
           </div>
           <div>
             <h2 className="text-2xl font-bold text-white mb-1">Return Management</h2>
-            <p className="text-green-200">Process component returns and update inventory</p>
+            <p className="text-green-200">Confirm pickups, process component returns and update inventory</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          {([
+            { key: 'checked_out', label: 'Checked Out' },
+            { key: 'ready_for_pickup', label: 'Awaiting Pickup' }
+          ] as const).map(option => (
+            <button
+              key={option.key}
+              onClick={() => setStage(option.key)}
+              className={`px-4 py-2 rounded-xl font-medium transition-all duration-200 ${
+                stage === option.key
+                  ? 'bg-gradient-to-r from-green-500 to-emerald-500 text-white shadow-lg'
+                  : 'bg-dark-700/50 text-peacock-300 hover:bg-dark-600/50 hover:text-white'
+              }`}
+            >
+              {option.label} ({approvedItems.filter(r => r.status === option.key).length})
+            </button>
+          ))}
+          <div className="ml-auto flex flex-wrap gap-2">
+            <label className="flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+              <Bell className="w-4 h-4 text-green-300 ml-2" />
+              <span className="text-green-200 text-sm pr-2">Remind (days from due):</span>
+              <input
+                type="text"
+                value={offsetsInput}
+                onChange={(e) => setOffsetsInput(e.target.value)}
+                onBlur={handleOffsetsBlur}
+                disabled={!canEditPolicy}
+                className="w-32 disabled:opacity-50 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+              />
+            </label>
+            <label className="flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+              <span className="text-green-200 text-sm px-2">Escalate after (days overdue):</span>
+              <input
+                type="number"
+                min="0"
+                value={reminders.escalateAfterDays}
+                onChange={(e) => handleEscalationChange(parseInt(e.target.value))}
+                disabled={!canEditPolicy}
+                className="w-16 disabled:opacity-50 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+              />
+            </label>
           </div>
         </div>
       </motion.div>
@@ -141,7 +192,7 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
 
         <div className="flex items-center justify-center bg-dark-700/30 rounded-xl border border-dark-600 px-4 py-3">
           <span className="text-peacock-300 font-medium">
-            {filteredItems.length} items to return
+            {filteredItems.length} {stage === 'checked_out' ? 'items to return' : 'awaiting pickup'}
           </span>
         </div>
       </motion.div>
@@ -150,9 +201,13 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
       <div className="space-y-4">
         <AnimatePresence>
           {filteredItems.map((item, index) => {
-            const overdue = isOverdue(item.dueDate);
+            const awaitingPickup = item.status === 'ready_for_pickup';
+            const overdue = !awaitingPickup && isOverdue(item.dueDate);
             const daysRemaining = getDaysRemaining(item.dueDate);
-            
+            const borrowedLines = getApprovedItems(item);
+            const outstandingLines = getOutstandingLines(item);
+            const partiallyReturned = (item.returns?.length ?? 0) > 0;
+
             return (
               <motion.div
                 key={item.id}
@@ -164,6 +219,8 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
                 className={`relative overflow-hidden bg-dark-800/50 backdrop-blur-xl rounded-2xl border p-6 transition-all duration-300 ${
                   overdue 
                     ? 'border-red-500/30 bg-red-500/5' 
+                    : awaitingPickup
+                    ? 'border-blue-500/20 hover:border-blue-500/40'
                     : daysRemaining <= 3 
                     ? 'border-yellow-500/30 bg-yellow-500/5'
                     : 'border-peacock-500/20 hover:border-peacock-500/40'
@@ -172,6 +229,7 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
                 {/* Status Indicator */}
                 <div className={`absolute top-0 left-0 w-full h-1 ${
                   overdue ? 'bg-gradient-to-r from-red-500 to-red-600' :
+                  awaitingPickup ? 'bg-gradient-to-r from-blue-500 to-cyan-500' :
                   daysRemaining <= 3 ? 'bg-gradient-to-r from-yellow-500 to-orange-500' :
                   'bg-gradient-to-r from-green-500 to-emerald-500'
                 }`}></div>
@@ -184,7 +242,19 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
                       </div>
                       <div>
                         <h3 className="text-white font-bold text-xl">{item.componentName}</h3>
-                        <p className="text-peacock-300">Quantity: {item.quantity}</p>
+                        <p className="text-peacock-300">
+                          {borrowedLines.length > 1 ? formatItemList(borrowedLines) : `Quantity: ${borrowedLines[0]?.quantity ?? item.quantity}`}
+                        </p>
+                        {partiallyReturned && (
+                          <p className="text-yellow-300 text-sm">
+                            Outstanding: {formatItemList(outstandingLines)}
+                          </p>
+                        )}
+                        {borrowedLines.some(line => line.assetTags?.length) && (
+                          <p className="text-peacock-300 text-xs">
+                            Units: {borrowedLines.flatMap(line => line.assetTags || []).join(', ')}
+                          </p>
+                        )}
                       </div>
                       {overdue && (
                         <motion.div
@@ -195,7 +265,16 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
                           {Math.abs(daysRemaining)} days overdue
                         </motion.div>
                       )}
-                      {!overdue && daysRemaining <= 3 && (
+                      {awaitingPickup && item.pickupDeadline && (
+                        <motion.div
+                          initial={{ scale: 0 }}
+                          animate={{ scale: 1 }}
+                          className="bg-blue-500/20 border border-blue-500/30 px-3 py-1 rounded-full text-blue-400 text-sm font-medium"
+                        >
+                          Pick up by {new Date(item.pickupDeadline).toLocaleString()}
+                        </motion.div>
+                      )}
+                      {!awaitingPickup && !overdue && daysRemaining <= 3 && (
                         <motion.div
                           initial={{ scale: 0 }}
                           animate={{ scale: 1 }}
@@ -218,14 +297,16 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
                       <div className="flex items-center gap-3">
                         <Calendar className="w-4 h-4 text-peacock-400" />
                         <div>
-                          <p className="text-peacock-300">Borrowed Date</p>
-                          <p className="text-white">{new Date(item.requestDate).toLocaleDateString()}</p>
+                          <p className="text-peacock-300">{awaitingPickup ? 'Approved Date' : 'Borrowed Date'}</p>
+                          <p className="text-white">
+                            {new Date((awaitingPickup ? item.approvedAt : item.checkedOutAt) || item.requestDate).toLocaleDateString()}
+                          </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
                         <Calendar className="w-4 h-4 text-peacock-400" />
                         <div>
-                          <p className="text-peacock-300">Due Date</p>
+                          <p className="text-peacock-300">{awaitingPickup ? 'Requested Until' : 'Due Date'}</p>
                           <p className={`font-semibold ${overdue ? 'text-red-400' : 'text-white'}`}>
                             {new Date(item.dueDate).toLocaleDateString()}
                           </p>
@@ -235,18 +316,30 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
                   </div>
 
                   <div className="flex flex-col items-end gap-3">
-                    <motion.button
-                      whileHover={{ scale: 1.05 }}
-                      whileTap={{ scale: 0.95 }}
-                      onClick={() => handleReturn(item)}
-                      className="group relative overflow-hidden bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white px-6 py-3 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
-                    >
-                      <div className="absolute inset-0 bg-gradient-to-r from-green-600 to-emerald-600 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                      <div className="relative z-10 flex items-center gap-2">
-                        <CheckCircle className="w-5 h-5" />
-                        Mark as Returned
-                      </div>
-                    </motion.button>
+                    {awaitingPickup ? (
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => handleCheckOut(item)}
+                        className="flex items-center gap-2 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white px-6 py-3 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+                      >
+                        <Hand className="w-5 h-5" />
+                        Confirm Pickup
+                      </motion.button>
+                    ) : (
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => setReturningRequest(item)}
+                        className="group relative overflow-hidden bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white px-6 py-3 rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+                      >
+                        <div className="absolute inset-0 bg-gradient-to-r from-green-600 to-emerald-600 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+                        <div className="relative z-10 flex items-center gap-2">
+                          <CheckCircle className="w-5 h-5" />
+                          {partiallyReturned ? 'Record Return' : 'Mark as Returned'}
+                        </div>
+                      </motion.button>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -269,12 +362,24 @@ const ReturnManagement: React.FC<ReturnManagementProps> = ({ onUpdate }) => {
           >
             <RotateCcw className="w-10 h-10 text-green-400" />
           </motion.div>
-          <h3 className="text-2xl font-bold text-white mb-3">No Items to Return</h3>
+          <h3 className="text-2xl font-bold text-white mb-3">{stage === 'checked_out' ? 'No Items to Return' : 'No Pickups Waiting'}</h3>
           <p className="text-peacock-300 text-lg">
-            {searchTerm ? 'No items match your search criteria.' : 'All approved items have been returned.'}
+            {searchTerm
+              ? 'No items match your search criteria.'
+              : stage === 'checked_out' ? 'All checked out items have been returned.' : 'Every approved request has been collected.'}
           </p>
         </motion.div>
       )}
+
+      <AnimatePresence>
+        {returningRequest && (
+          <ReturnDialog
+            request={returningRequest}
+            onClose={() => setReturningRequest(null)}
+            onComplete={() => setReturningRequest(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Gavel, Search, User as UserIcon, Ban, ChevronDown, ChevronUp, Plus, Undo2 } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { standingService } from '../../services/standingService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { PenaltyEntry, PenaltySettings, User } from '../../types';
+import { emptyStanding, getActivePoints, getActiveSuspension } from '../../utils/standing';
+
+const penaltyFields: { key: keyof PenaltySettings; label: string }[] = [
+  { key: 'pointsPerLateDay', label: 'Points per late day' },
+  { key: 'damagedPoints', label: 'Per damaged unit' },
+  { key: 'lostPoints', label: 'Per lost unit' },
+  { key: 'suspensionThreshold', label: 'Suspend at' },
+  { key: 'suspensionDays', label: 'Suspension (days)' },
+];
+
+const reasonLabels: Record<PenaltyEntry['reason'], string> = {
+  late_return: 'Late return',
+  damaged: 'Damaged',
+  lost: 'Lost',
+  adjustment: 'Adjustment',
+};
+
+const StandingManagement: React.FC = () => {
+  const { user } = useAuth();
+  const { users } = useData();
+  const [penalties, setPenalties] = useState<PenaltySettings>(defaultLabSettings.penalties);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    hybridDataService.getSettings().then(settings => {
+      setPenalties(settings.penalties);
+    }).catch(error => {
+      console.error('Error loading settings:', error);
+    });
+  }, []);
+
+  const students = users.filter(user => user.role === 'student');
+
+  const handlePenaltyChange = async (field: keyof PenaltySettings, value: number) => {
+    if (!Number.isFinite(value) || value < (field === 'suspensionThreshold' || field === 'suspensionDays' ? 1 : 0)) return;
+    const next = { ...penalties, [field]: value };
+    setPenalties(next);
+    const settings = await hybridDataService.getSettings();
+    await hybridDataService.updateSettings({ ...settings, penalties: next });
+  };
+
+  const handleAdjust = async (student: User) => {
+    const input = prompt(`Points to add for ${student.name} (use a negative number to remove points):`);
+    if (!input) return;
+    const points = parseInt(input);
+    if (!Number.isFinite(points) || points === 0) {
+      alert('Enter a whole number of points other than zero');
+      return;
+    }
+    const reason = prompt('Reason for the adjustment:');
+    if (!reason) return;
+
+    try {
+      await standingService.adjust(student, points, reason, user?.name || 'Staff');
+    } catch (error) {
+      console.error('Error adjusting points:', error);
+      alert('Failed to adjust points. Please try again.');
+    }
+  };
+
+  const handleWaive = async (student: User, entry: PenaltyEntry) => {
+    const reason = prompt(`Reason for waiving ${entry.points} point(s):`);
+    if (!reason) return;
+
+    try {
+      await standingService.waive(student, entry.id, reason, user?.name || 'Staff');
+    } catch (error) {
+      console.error('Error waiving penalty:', error);
+      alert('Failed to waive the penalty. Please try again.');
+    }
+  };
+
+  const handleLift = async (student: User) => {
+    const reason = prompt(`Reason for lifting ${student.name}'s suspension:`);
+    if (!reason) return;
+
+    try {
+      await standingService.liftSuspension(student, reason, user?.name || 'Staff');
+    } catch (error) {
+      console.error('Error lifting suspension:', error);
+      alert('Failed to lift the suspension. Please try again.');
+    }
+  };
+
+  const filteredStudents = students
+    .filter(student => {
+      const searchLower = searchTerm.toLowerCase();
+      return student.name.toLowerCase().includes(searchLower) || (student.rollNo || '').toLowerCase().includes(searchLower);
+    })
+    .sort((a, b) => getActivePoints(b.standing) - getActivePoints(a.standing));
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-amber-500/10 to-red-500/10 backdrop-blur-xl rounded-2xl border border-amber-500/20 p-6"
+      >
+        <div className="flex items-center gap-4 mb-4">
+          <div className="p-3 bg-gradient-to-br from-amber-500 to-red-500 rounded-xl shadow-lg">
+            <Gavel className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">Student Standing</h2>
+            <p className="text-amber-200">Penalty points for late, damaged or lost returns and the suspensions they trigger</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {penaltyFields.map(field => (
+            <label key={field.key} className="flex items-center gap-2 bg-dark-800/30 p-2 rounded-xl">
+              <span className="text-amber-200 text-sm px-2">{field.label}:</span>
+              <input
+                type="number"
+                min="0"
+                value={penalties[field.key]}
+                onChange={(e) => handlePenaltyChange(field.key, parseInt(e.target.value))}
+                className="w-16 px-3 py-1 bg-dark-700/50 border border-dark-600 rounded-lg text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+              />
+            </label>
+          ))}
+        </div>
+      </motion.div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+        <input
+          type="text"
+          placeholder="Search by student name or roll number..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-3 bg-dark-800/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+        />
+      </div>
+
+      {/* Students */}
+      <div className="space-y-4">
+        <AnimatePresence>
+          {filteredStudents.map((student, index) => {
+            const standing = student.standing || emptyStanding;
+            const points = getActivePoints(standing);
+            const suspension = getActiveSuspension(standing);
+            const isExpanded = expanded === student.id;
+
+            return (
+              <motion.div
+                key={student.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ delay: index * 0.03 }}
+                className="bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-6"
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 flex-1">
+                    <div className="p-3 bg-peacock-500/20 rounded-xl">
+                      <UserIcon className="w-6 h-6 text-peacock-400" />
+                    </div>
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <h3 className="text-white font-bold text-lg">{student.name}</h3>
+                        {suspension && (
+                          <span className="flex items-center gap-1 bg-red-500/10 border border-red-500/20 px-3 py-1 rounded-full text-red-400 text-sm font-medium">
+                            <Ban className="w-4 h-4" />
+                            Suspended until {new Date(suspension.endsAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-peacock-300 text-sm">{student.rollNo || student.email}</p>
+                      <div className="mt-2 w-full max-w-xs h-2 bg-dark-700 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${points >= penalties.suspensionThreshold * 0.7 ? 'bg-red-500' : 'bg-amber-500'}`}
+                          style={{ width: `${Math.min(100, Math.max(0, points) / penalties.suspensionThreshold * 100)}%` }}
+                        />
+                      </div>
+                      <p className="text-peacock-300 text-xs mt-1">{points} of {penalties.suspensionThreshold} points</p>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => handleAdjust(student)}
+                      className="flex items-center gap-2 px-4 py-2 bg-dark-700/50 text-peacock-300 rounded-xl hover:bg-dark-600/50 hover:text-white transition-all duration-200"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Adjust
+                    </button>
+                    {suspension && (
+                      <button
+                        onClick={() => handleLift(student)}
+                        className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded-xl font-semibold hover:from-green-600 hover:to-emerald-600 transition-all duration-200"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Lift Suspension
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : student.id)}
+                      disabled={standing.entries.length === 0}
+                      className="flex items-center gap-2 px-4 py-2 bg-dark-700/50 text-peacock-300 rounded-xl hover:bg-dark-600/50 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      History ({standing.entries.length})
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-4 space-y-2">
+                    {[...standing.entries].reverse().map(entry => (
+                      <div key={entry.id} className="flex items-center justify-between gap-4 p-3 bg-dark-700/30 rounded-xl text-sm">
+                        <div className={entry.waivedAt ? 'opacity-50' : ''}>
+                          <p className="text-white">
+                            <span className={entry.points > 0 ? 'text-red-400' : 'text-green-400'}>
+                              {entry.points > 0 ? '+' : ''}{entry.points}
+                            </span>{' '}
+                            {reasonLabels[entry.reason]}{entry.note ? ` · ${entry.note}` : ''}
+                          </p>
+                          <p className="text-peacock-300 text-xs">
+                            {new Date(entry.recordedAt).toLocaleString()} by {entry.recordedBy}
+                            {entry.waivedAt && ` · Waived: ${entry.waiverReason}`}
+                          </p>
+                        </div>
+                        {!entry.waivedAt && entry.points > 0 && (
+                          <button
+                            onClick={() => handleWaive(student, entry)}
+                            className="px-3 py-1 bg-dark-700/50 text-peacock-300 rounded-lg hover:bg-dark-600/50 hover:text-white transition-all duration-200"
+                          >
+                            Waive
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      {filteredStudents.length === 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-16"
+        >
+          <Gavel className="w-16 h-16 text-amber-400 mx-auto mb-4" />
+          <h3 className="text-2xl font-bold text-white mb-3">No Students Found</h3>
+          <p className="text-peacock-300 text-lg">Registered students and their penalty points will appear here.</p>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default StandingManagement;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Users, 
@@ -11,33 +11,13 @@ import {
   BarChart3
 } from 'lucide-react';
 import { hybridDataService } from '../../services/hybridDataService';
-import { LoginSession, SystemStats } from '../../types';
+import { useData } from '../../context/DataContext';
+import { roleLabels } from '../../utils/permissions';
 
 const UserAnalytics: React.FC = () => {
-  const [stats, setStats] = useState<SystemStats>({
-    totalUsers: 0,
-    activeUsers: 0,
-    totalLogins: 0,
-    onlineUsers: 0,
-    totalRequests: 0,
-    pendingRequests: 0,
-    totalComponents: 0,
-    overdueItems: 0
-  });
-  const [loginSessions, setLoginSessions] = useState<LoginSession[]>([]);
+  const { stats, loginSessions } = useData();
   const [timeFilter, setTimeFilter] = useState<'today' | 'week' | 'month' | 'all'>('today');
 
-  useEffect(() => {
-    loadData();
-    const interval = setInterval(loadData, 30000); // Update every 30 seconds
-    return () => clearInterval(interval);
-  }, []);
-
-  const loadData = () => {
-    setStats(hybridDataService.getSystemStats());
-    setLoginSessions(hybridDataService.getLoginSessions());
-  };
-
   const exportLoginData = () => {
     const csvContent = hybridDataService.exportLoginSessionsCSV();
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -307,11 +287,11 @@ const UserAnalytics: React.FC = () => {
                         <p className="text-white font-medium">{session.userName}</p>
                         <p className="text-peacock-300 text-sm">{session.userEmail}</p>
                         <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-                          session.userRole === 'admin' 
+                          session.userRole !== 'student'
                             ? 'bg-purple-500/20 text-purple-400' 
                             : 'bg-blue-500/20 text-blue-400'
                         }`}>
-                          {session.userRole}
+                          {roleLabels[session.userRole] || session.userRole}
                         </span>
                       </div>
                     </td>
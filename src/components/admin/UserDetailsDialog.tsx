@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Save, Package, History, UserX, UserCheck, GitMerge, Trash2, AlertTriangle, KeyRound } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { useAuth } from '../../context/AuthContext';
+import { BorrowRequest, User } from '../../types';
+import { formatItemList, getApprovedItems, getOutstandingLines, getRequestItems } from '../../utils/requestItems';
+import { formatRequestStatus, isOpenLoan, isOverdue } from '../../utils/requestLifecycle';
+import { can, roleLabels } from '../../utils/permissions';
+import { isDeactivated } from '../../utils/userAccounts';
+
+interface UserDetailsDialogProps {
+  user: User;
+  // Every other account, offered as duplicates to merge into this one
+  users: User[];
+  onClose: () => void;
+  onSaved: (user: User) => void;
+  onRemoved: (userId: string) => void;
+}
+
+const inputClass = 'w-full px-4 py-2 bg-dark-700/50 border border-dark-600 rounded-lg text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200';
+
+const UserDetailsDialog: React.FC<UserDetailsDialogProps> = ({ user, users, onClose, onSaved, onRemoved }) => {
+  const { user: currentUser } = useAuth();
+  const [profile, setProfile] = useState({ name: user.name, rollNo: user.rollNo || '', mobile: user.mobile || '' });
+  const [requests, setRequests] = useState<BorrowRequest[]>([]);
+  const [duplicateId, setDuplicateId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const isSelf = user.id === currentUser?.id;
+
+  useEffect(() => {
+    hybridDataService.getUserRequests(user.id).then(userRequests => {
+      setRequests(userRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()));
+    }).catch(error => {
+      console.error('Error loading borrowing history:', error);
+    });
+  }, [user.id]);
+
+  const outstanding = requests.filter(isOpenLoan);
+
+  // Likely duplicates first: same roll number, then same name
+  const duplicateCandidates = users
+    .filter(other => other.id !== user.id && other.role === user.role)
+    .sort((a, b) => {
+      const score = (other: User) =>
+        (user.rollNo && other.rollNo?.toLowerCase() === user.rollNo.toLowerCase() ? 2 : 0) +
+        (other.name.toLowerCase() === user.name.toLowerCase() ? 1 : 0);
+      return score(b) - score(a) || a.name.localeCompare(b.name);
+    });
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      alert(error instanceof Error && error.message ? `${failure} ${error.message}` : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = profile.name.trim();
+    if (!name) {
+      alert('Name is required.');
+      return;
+    }
+
+    runAction(async () => {
+      onSaved(await hybridDataService.updateProfile(user, {
+        name,
+        rollNo: profile.rollNo.trim(),
+        mobile: profile.mobile.trim()
+      }));
+    }, 'Failed to save the profile.');
+  };
+
+  const handleToggleActive = () => {
+    const deactivating = !isDeactivated(user);
+    const message = deactivating
+      ? `Deactivate ${user.name}? They will be signed out and unable to sign in until reactivated.${outstanding.length > 0 ? `\n\nThey still have ${outstanding.length} open loan(s).` : ''}`
+      : `Reactivate ${user.name}? They will be able to sign in again.`;
+    if (!confirm(message)) return;
+
+    runAction(async () => {
+      onSaved(await hybridDataService.setUserActive(user, !deactivating, currentUser?.name || 'Staff'));
+    }, 'Failed to change the account status.');
+  };
+
+  const handleMerge = () => {
+    const duplicate = users.find(other => other.id === duplicateId);
+    if (!duplicate) return;
+    if (user.invited && !duplicate.invited) {
+      alert(`${duplicate.name} has registered, so open their account and merge this roster entry into it instead.`);
+      return;
+    }
+    if (!confirm(`Merge ${duplicate.name} (${duplicate.email}) into ${user.name} (${user.email})?\n\nTheir requests, notifications, penalty points and waitlist places move to this account and the duplicate is deleted. This cannot be undone.`)) return;
+
+    runAction(async () => {
+      const merged = await hybridDataService.mergeUsers(user, duplicate);
+      onRemoved(duplicate.id);
+      onSaved(merged);
+      setDuplicateId('');
+      setRequests(await hybridDataService.getUserRequests(merged.id));
+    }, 'Failed to merge the accounts.');
+  };
+
+  const handleSendReset = () => {
+    if (!confirm(`Send a password reset link to ${user.email}?`)) return;
+
+    runAction(async () => {
+      await hybridDataService.sendAccountPasswordReset(user);
+      alert(`Password reset link sent to ${user.email}`);
+    }, 'Failed to send the password reset email.');
+  };
+
+  const handleDelete = () => {
+    if (outstanding.length > 0) {
+      alert(`${user.name} still has ${outstanding.length} open loan(s). Deactivate the account instead, or wait until everything is returned.`);
+      return;
+    }
+    if (!confirm(`Delete ${user.name}'s account? Their past requests stay on record, but the profile is removed and they can no longer sign in. This cannot be undone.`)) return;
+
+    runAction(async () => {
+      await hybridDataService.deleteUser(user);
+      onRemoved(user.id);
+      onClose();
+    }, 'Failed to delete the account.');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-6"
+      >
+        <div>
+          <h3 className="text-xl font-bold text-white mb-1">{user.name}</h3>
+          <p className="text-peacock-300 text-sm">
+            {roleLabels[user.role]} · {user.email}
+            {user.invited && <span className="text-yellow-400"> · Not registered yet</span>}
+            {isDeactivated(user) && <span className="text-red-400"> · Deactivated {new Date(user.deactivatedAt!).toLocaleDateString()} by {user.deactivatedBy}</span>}
+          </p>
+        </div>
+
+        {/* Profile */}
+        <form onSubmit={handleSaveProfile} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-peacock-300 text-xs mb-1">Name</label>
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-peacock-300 text-xs mb-1">Roll number</label>
+              <input
+                type="text"
+                value={profile.rollNo}
+                onChange={(e) => setProfile(prev => ({ ...prev, rollNo: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-peacock-300 text-xs mb-1">Mobile</label>
+              <input
+                type="tel"
+                value={profile.mobile}
+                onChange={(e) => setProfile(prev => ({ ...prev, mobile: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-dark-300 text-xs">The email address is the student's sign-in and cannot be changed here.</p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-peacock-500 to-blue-500 text-white rounded-lg font-medium hover:from-peacock-600 hover:to-blue-600 disabled:opacity-50 transition-all duration-200"
+          >
+            <Save className="w-4 h-4" />
+            Save Profile
+          </button>
+        </form>
+
+        {/* Outstanding items */}
+        <div>
+          <h4 className="flex items-center gap-2 text-white font-semibold mb-2">
+            <Package className="w-5 h-5 text-peacock-400" />
+            Outstanding ({outstanding.length})
+          </h4>
+          {outstanding.length === 0 ? (
+            <p className="text-peacock-300 text-sm">Nothing reserved or on loan.</p>
+          ) : (
+            <div className="space-y-2">
+              {outstanding.map(request => (
+                <div key={request.id} className={`p-3 rounded-xl border ${isOverdue(request) ? 'bg-red-500/10 border-red-500/20' : 'bg-dark-700/30 border-dark-600'}`}>
+                  <p className="text-white text-sm">
+                    {formatItemList(request.status === 'checked_out' ? getOutstandingLines(request) : getApprovedItems(request))}
+                  </p>
+                  <p className={`text-xs ${isOverdue(request) ? 'text-red-400' : 'text-peacock-300'}`}>
+                    {request.status === 'checked_out'
+                      ? `Due ${new Date(request.dueDate).toLocaleDateString()}${isOverdue(request) ? ' · Overdue' : ''}`
+                      : `Awaiting pickup${request.pickupDeadline ? ` until ${new Date(request.pickupDeadline).toLocaleString()}` : ''}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Borrowing history */}
+        <div>
+          <h4 className="flex items-center gap-2 text-white font-semibold mb-2">
+            <History className="w-5 h-5 text-peacock-400" />
+            Borrowing History ({requests.length})
+          </h4>
+          {requests.length === 0 ? (
+            <p className="text-peacock-300 text-sm">No requests yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-60 overflow-y-auto pr-1">
+              {requests.map(request => (
+                <div key={request.id} className="flex items-start justify-between gap-3 p-3 bg-dark-700/30 rounded-xl">
+                  <div>
+                    <p className="text-white text-sm">{formatItemList(getRequestItems(request))}</p>
+                    <p className="text-peacock-300 text-xs">
+                      Requested {new Date(request.requestDate).toLocaleDateString()}
+                      {request.returnedAt && ` · Returned ${new Date(request.returnedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-peacock-200 whitespace-nowrap">{formatRequestStatus(request.status)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Roster entries have no sign-in yet, so there is no password to reset */}
+        {can(currentUser, 'manage_users') && !user.invited && (
+          <div className="flex justify-start border-t border-dark-600 pt-4">
+            <button
+              onClick={handleSendReset}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-peacock-500/20 border border-peacock-500/30 text-peacock-300 rounded-lg hover:bg-peacock-500/30 disabled:opacity-50 transition-all duration-200"
+            >
+              <KeyRound className="w-4 h-4" />
+              Reset Password
+            </button>
+          </div>
+        )}
+
+        {/* Account actions */}
+        {!isSelf && (
+          <div className="space-y-3 border-t border-dark-600 pt-4">
+            <div className="flex flex-col md:flex-row gap-2">
+              <select
+                value={duplicateId}
+                onChange={(e) => setDuplicateId(e.target.value)}
+                className={`${inputClass} flex-1`}
+              >
+                <option value="">Merge a duplicate into this account...</option>
+                {duplicateCandidates.map(other => (
+                  <option key={other.id} value={other.id}>
+                    {other.name} · {other.rollNo || 'no roll number'} · {other.email}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleMerge}
+                disabled={!duplicateId || isSaving}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-violet-500/20 border border-violet-500/30 text-violet-300 rounded-lg hover:bg-violet-500/30 disabled:opacity-50 transition-all duration-200"
+              >
+                <GitMerge className="w-4 h-4" />
+                Merge
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleToggleActive}
+                disabled={isSaving}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg border disabled:opacity-50 transition-all duration-200 ${
+                  isDeactivated(user)
+                    ? 'bg-green-500/20 border-green-500/30 text-green-300 hover:bg-green-500/30'
+                    : 'bg-yellow-500/20 border-yellow-500/30 text-yellow-300 hover:bg-yellow-500/30'
+                }`}
+              >
+                {isDeactivated(user) ? <UserCheck className="w-4 h-4" /> : <UserX className="w-4 h-4" />}
+                {isDeactivated(user) ? 'Reactivate' : 'Deactivate'}
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 bg-red-500/20 border border-red-500/30 text-red-300 rounded-lg hover:bg-red-500/30 disabled:opacity-50 transition-all duration-200"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete Account
+              </button>
+            </div>
+
+            {outstanding.length > 0 && (
+              <p className="flex items-center gap-2 text-yellow-400 text-xs">
+                <AlertTriangle className="w-4 h-4" />
+                Accounts with open loans can be deactivated but not deleted.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 bg-dark-700 text-white rounded-lg font-medium hover:bg-dark-600 transition-all duration-200"
+          >
+            Close
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default UserDetailsDialog;
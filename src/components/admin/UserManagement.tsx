@@ -0,0 +1,255 @@
+import React, { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { UserCog, Search, User as UserIcon, ShieldCheck, Upload, Settings } from 'lucide-react';
+import { hybridDataService } from '../../services/hybridDataService';
+import { excelService } from '../../services/excelService';
+import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
+import { User, UserRole } from '../../types';
+import { roleDescriptions, roleLabels, staffRoles } from '../../utils/permissions';
+import { isDeactivated, parseRoster } from '../../utils/userAccounts';
+import UserDetailsDialog from './UserDetailsDialog';
+
+const roles: UserRole[] = ['student', ...staffRoles];
+
+type StatusFilter = 'all' | 'active' | 'invited' | 'deactivated';
+
+const UserManagement: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const { users } = useData();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const rosterInput = useRef<HTMLInputElement>(null);
+
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    if (role === user.role) return;
+    if (!confirm(`Make ${user.name} a ${roleLabels[role]}?\n\n${roleDescriptions[role]}.`)) return;
+
+    try {
+      await hybridDataService.setUserRole(user, role);
+    } catch (error) {
+      console.error('Error changing role:', error);
+      alert('Failed to change the role. Please try again.');
+    }
+  };
+
+  const handleRosterImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const roster = parseRoster(await excelService.readSheet(file), users);
+      const skipped = roster.skipped.map(({ row, reason }) => `Row ${row}: ${reason}`).join('\n');
+      if (roster.entries.length === 0) {
+        alert(`No new students found in ${file.name}.${skipped ? `\n\n${skipped}` : ''}`);
+        return;
+      }
+      if (!confirm(`Add ${roster.entries.length} student(s) from ${file.name}? Each takes over their profile when they register with their roll number.${skipped ? `\n\nSkipped:\n${skipped}` : ''}`)) return;
+
+      await hybridDataService.importRoster(roster.entries);
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      alert('Failed to import the roster. Use a CSV or Excel file with Name and Roll No columns.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSaved = (updated: User) => {
+    setSelectedUser(prev => prev?.id === updated.id ? updated : prev);
+  };
+
+  const handleRemoved = (userId: string) => {
+    setSelectedUser(prev => prev?.id === userId ? null : prev);
+  };
+
+  const matchesStatus = (user: User) => {
+    switch (statusFilter) {
+      case 'active':
+        return !isDeactivated(user) && !user.invited;
+      case 'invited':
+        return !!user.invited;
+      case 'deactivated':
+        return isDeactivated(user);
+      default:
+        return true;
+    }
+  };
+
+  const filteredUsers = users
+    .filter(user => roleFilter === 'all' || user.role === roleFilter)
+    .filter(matchesStatus)
+    .filter(user => {
+      const searchLower = searchTerm.toLowerCase();
+      return user.name.toLowerCase().includes(searchLower) ||
+        user.email.toLowerCase().includes(searchLower) ||
+        (user.rollNo || '').toLowerCase().includes(searchLower);
+    })
+    .sort((a, b) => roles.indexOf(b.role) - roles.indexOf(a.role) || a.name.localeCompare(b.name));
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-violet-500/10 to-fuchsia-500/10 backdrop-blur-xl rounded-2xl border border-violet-500/20 p-6"
+      >
+        <div className="flex items-center gap-4 mb-4">
+          <div className="p-3 bg-gradient-to-br from-violet-500 to-fuchsia-500 rounded-xl shadow-lg">
+            <UserCog className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-1">User Management</h2>
+            <p className="text-violet-200">Edit profiles, manage accounts and give lab staff the roles they need</p>
+          </div>
+          <button
+            onClick={() => rosterInput.current?.click()}
+            disabled={isImporting}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white rounded-xl font-medium hover:from-violet-600 hover:to-fuchsia-600 disabled:opacity-50 transition-all duration-200"
+          >
+            <Upload className="w-4 h-4" />
+            {isImporting ? 'Importing...' : 'Import Roster'}
+          </button>
+          <input
+            ref={rosterInput}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={handleRosterImport}
+            className="hidden"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {staffRoles.map(role => (
+            <div key={role} className="bg-dark-800/30 p-3 rounded-xl">
+              <p className="text-white font-semibold text-sm">{roleLabels[role]}</p>
+              <p className="text-violet-200 text-xs">{roleDescriptions[role]}</p>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+
+      {/* Search and Filter */}
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by name, email or roll number..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 bg-dark-800/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+          />
+        </div>
+        <select
+          value={roleFilter}
+          onChange={(e) => setRoleFilter(e.target.value as UserRole | 'all')}
+          className="px-4 py-3 bg-dark-800/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+        >
+          <option value="all">All roles</option>
+          {roles.map(role => (
+            <option key={role} value={role}>{roleLabels[role]}</option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="px-4 py-3 bg-dark-800/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+        >
+          <option value="all">All accounts</option>
+          <option value="active">Active</option>
+          <option value="invited">Not registered yet</option>
+          <option value="deactivated">Deactivated</option>
+        </select>
+      </div>
+
+      {/* Users */}
+      <div className="space-y-3">
+        <AnimatePresence>
+          {filteredUsers.map((user, index) => {
+            const isSelf = user.id === currentUser?.id;
+
+            return (
+              <motion.div
+                key={user.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ delay: index * 0.03 }}
+                className={`bg-dark-800/50 backdrop-blur-xl rounded-2xl border border-peacock-500/20 p-4 flex flex-col md:flex-row md:items-center justify-between gap-4 ${isDeactivated(user) ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-4">
+                  <div className={`p-3 rounded-xl ${user.role === 'student' ? 'bg-peacock-500/20' : 'bg-violet-500/20'}`}>
+                    {user.role === 'student'
+                      ? <UserIcon className="w-6 h-6 text-peacock-400" />
+                      : <ShieldCheck className="w-6 h-6 text-violet-400" />}
+                  </div>
+                  <div>
+                    <h3 className="text-white font-bold">{user.name}{isSelf && <span className="text-peacock-400 text-sm font-normal"> (you)</span>}</h3>
+                    <p className="text-peacock-300 text-sm">{user.rollNo ? `${user.rollNo} · ` : ''}{user.email}</p>
+                    {user.invited && <p className="text-yellow-400 text-xs">Not registered yet</p>}
+                    {isDeactivated(user) && <p className="text-red-400 text-xs">Deactivated</p>}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    disabled={isSelf}
+                    title={isSelf ? 'Another super admin has to change your role' : undefined}
+                    className="px-4 py-2 bg-dark-700/50 border border-dark-600 rounded-xl text-white text-sm focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    {roles.map(role => (
+                      <option key={role} value={role}>{roleLabels[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setSelectedUser(user)}
+                    className="flex items-center gap-2 px-4 py-2 bg-peacock-500/20 border border-peacock-500/30 text-peacock-300 rounded-xl text-sm hover:bg-peacock-500/30 transition-all duration-200"
+                  >
+                    <Settings className="w-4 h-4" />
+                    Manage
+                  </button>
+                </div>
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      {filteredUsers.length === 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-16"
+        >
+          <UserCog className="w-16 h-16 text-violet-400 mx-auto mb-4" />
+          <h3 className="text-2xl font-bold text-white mb-3">No Users Found</h3>
+          <p className="text-peacock-300 text-lg">Try a different search or filter.</p>
+        </motion.div>
+      )}
+
+      <AnimatePresence>
+        {selectedUser && (
+          <UserDetailsDialog
+            key={selectedUser.id}
+            user={selectedUser}
+            users={users}
+            onClose={() => setSelectedUser(null)}
+            onSaved={handleSaved}
+            onRemoved={handleRemoved}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default UserManagement;
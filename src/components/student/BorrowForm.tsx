@@ -1,36 +1,48 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Send, Package, User, Phone, Calendar, Hash, CheckCircle } from 'lucide-react';
+import { Send, Package, Phone, Calendar, Hash, CheckCircle, Plus, Trash2, ShoppingCart, ShieldAlert, MailCheck } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
 import { hybridDataService } from '../../services/hybridDataService';
-import { Component, BorrowRequest } from '../../types';
+import { waitlistService } from '../../services/waitlistService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { BorrowRequest, BorrowRequestItem, StudentStanding, User } from '../../types';
+import { summarizeItems, formatItemList } from '../../utils/requestItems';
+import { PolicyLimits, getPolicyViolations } from '../../utils/borrowingPolicy';
+
+interface CartLine {
+  componentId: string;
+  quantity: number;
+}
 
 const BorrowForm: React.FC = () => {
-  const { user } = useAuth();
-  const [components, setComponents] = useState<Component[]>([]);
+  const { user, emailVerified, sendVerificationEmail, refreshEmailVerified } = useAuth();
+  const { components, requests } = useData();
   const [formData, setFormData] = useState({
-    rollNo: user?.rollNo || '',
-    mobile: '',
     componentId: '',
     quantity: 1,
     dueDate: '',
   });
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [policyLimits, setPolicyLimits] = useState<PolicyLimits>(defaultLabSettings);
+  const [standing, setStanding] = useState<StudentStanding | undefined>();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
+  const myRequests = requests.filter(request => request.studentId === user?.id);
+
   useEffect(() => {
-    hybridDataService.getComponents().then(components => {
-      setComponents(components);
+    hybridDataService.getSettings().then(settings => {
+      setPolicyLimits(settings);
     }).catch(error => {
-      console.error('Error loading components:', error);
+      console.error('Error loading settings:', error);
     });
-    // Pre-fill user data if available
     if (user) {
-      setFormData(prev => ({
-        ...prev,
-        rollNo: user.rollNo || '',
-        mobile: user.mobile || ''
-      }));
+      hybridDataService.getUserById(user.id).then(student => {
+        setStanding(student?.standing);
+      }).catch(error => {
+        console.error('Error loading standing:', error);
+      });
     }
   }, [user]);
 
@@ -41,6 +53,49 @@ const BorrowForm: React.FC = () => {
     }
   }, [notification]);
 
+  const getCartQuantity = (componentId: string) => {
+    return cart.find(line => line.componentId === componentId)?.quantity || 0;
+  };
+
+  const handleAddToCart = () => {
+    const component = components.find(c => c.id === formData.componentId);
+    if (!component || !formData.quantity || formData.quantity < 1) return;
+
+    // Anything beyond current stock is waitlisted, but nobody can ask for more than the lab owns
+    if (getCartQuantity(component.id) + formData.quantity > component.totalQuantity) {
+      setNotification({ type: 'error', message: `The lab only has ${component.totalQuantity} ${component.name} in total` });
+      return;
+    }
+
+    setCart(prev => {
+      const existing = prev.find(line => line.componentId === component.id);
+      if (existing) {
+        return prev.map(line =>
+          line.componentId === component.id ? { ...line, quantity: line.quantity + formData.quantity } : line
+        );
+      }
+      return [...prev, { componentId: component.id, quantity: formData.quantity }];
+    });
+    setFormData(prev => ({ ...prev, componentId: '', quantity: 1 }));
+  };
+
+  const handleRemoveFromCart = (componentId: string) => {
+    setCart(prev => prev.filter(line => line.componentId !== componentId));
+  };
+
+  const buildRequest = (student: User, items: BorrowRequestItem[]): BorrowRequest => ({
+    id: `req-${Date.now()}`,
+    studentId: student.id,
+    studentName: student.name,
+    rollNo: student.rollNo || '',
+    mobile: student.mobile || '',
+    ...summarizeItems(items),
+    items,
+    requestDate: new Date().toISOString(),
+    dueDate: formData.dueDate,
+    status: 'pending',
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -48,37 +103,58 @@ const BorrowForm: React.FC = () => {
     setIsSubmitting(true);
 
     try {
-      const selectedComponent = components.find(c => c.id === formData.componentId);
-      if (!selectedComponent) {
-        throw new Error('Component not found');
+      if (!emailVerified && !(await refreshEmailVerified())) {
+        throw new Error('Verify your email address before submitting a request');
       }
-
-      if (formData.quantity > selectedComponent.availableQuantity) {
-        throw new Error('Not enough components available');
+      if (!user.mobile) {
+        throw new Error('Add your mobile number on the Profile tab so the lab can reach you');
+      }
+      if (cart.length === 0) {
+        throw new Error('Add at least one component to your request');
       }
 
-      const request: BorrowRequest = {
-        id: `req-${Date.now()}`,
-        studentId: user.id,
-        studentName: user.name,
-        rollNo: formData.rollNo,
-        mobile: formData.mobile,
-        componentId: selectedComponent.id,
-        componentName: selectedComponent.name,
-        quantity: formData.quantity,
-        requestDate: new Date().toISOString(),
-        dueDate: formData.dueDate,
-        status: 'pending',
-      };
+      const items: BorrowRequestItem[] = cart.map(line => {
+        const component = components.find(c => c.id === line.componentId);
+        if (!component) {
+          throw new Error('Component not found');
+        }
+        if (line.quantity > component.totalQuantity) {
+          throw new Error(`Not enough ${component.name} available`);
+        }
+        return {
+          componentId: component.id,
+          componentName: component.name,
+          quantity: line.quantity,
+          status: 'pending',
+        };
+      });
+
+      const request = buildRequest(user, items);
+
+      // Re-check against the latest requests in case another tab submitted or an item became overdue
+      const [latestRequests, student] = await Promise.all([
+        hybridDataService.getUserRequests(user.id),
+        hybridDataService.getUserById(user.id)
+      ]);
+      const [violation] = getPolicyViolations(request, latestRequests, components, policyLimits, student?.standing);
+      if (violation) {
+        throw new Error(violation);
+      }
 
       await hybridDataService.addRequest(request);
 
-      // Add notification for admin
-      await hybridDataService.addNotification({
+      const waitlistedItems = items.filter(item =>
+        item.quantity > (components.find(c => c.id === item.componentId)?.availableQuantity || 0)
+      );
+      if (waitlistedItems.length > 0) {
+        await waitlistService.enqueue(request);
+      }
+
+      // Let everyone who can review it know
+      await hybridDataService.notifyStaff('review_requests', {
         id: `notif-${Date.now()}`,
-        userId: 'admin-1',
         title: 'New Component Request',
-        message: `${user.name} has requested ${formData.quantity} ${selectedComponent.name}. Review and approve in the admin panel.`,
+        message: `${user.name} has requested ${formatItemList(items)}. Review and approve in the admin panel.`,
         type: 'info',
         read: false,
         createdAt: new Date().toISOString(),
@@ -86,17 +162,18 @@ const BorrowForm: React.FC = () => {
 
       setNotification({
         type: 'success',
-        message: 'Request submitted successfully! You will be notified once the admin reviews your request.',
+        message: waitlistedItems.length > 0
+          ? `Request submitted! ${formatItemList(waitlistedItems)} is out of stock, so you have been added to the waitlist and will be notified when it is available.`
+          : 'Request submitted successfully! You will be notified once the admin reviews your request.',
       });
 
       // Reset form
       setFormData({
-        rollNo: '',
-        mobile: '',
         componentId: '',
         quantity: 1,
         dueDate: '',
       });
+      setCart([]);
     } catch (error) {
       setNotification({
         type: 'error',
@@ -107,8 +184,40 @@ const BorrowForm: React.FC = () => {
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await sendVerificationEmail();
+      setNotification({ type: 'success', message: `Verification link sent to ${user?.email}` });
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+      setNotification({ type: 'error', message: 'Could not send the verification email. Please try again later.' });
+    }
+  };
+
+  const handleCheckVerification = async () => {
+    try {
+      if (!(await refreshEmailVerified())) {
+        setNotification({ type: 'error', message: 'Your email is not verified yet. Open the link in the email we sent you.' });
+      }
+    } catch (error) {
+      console.error('Error checking email verification:', error);
+      setNotification({ type: 'error', message: 'Could not check your verification status. Please try again.' });
+    }
+  };
+
   const selectedComponent = components.find(c => c.id === formData.componentId);
 
+  const cartItems: BorrowRequestItem[] = cart.map(line => ({
+    componentId: line.componentId,
+    componentName: components.find(c => c.id === line.componentId)?.name || 'Unknown component',
+    quantity: line.quantity,
+    status: 'pending',
+  }));
+  const policyViolations = user && cartItems.length > 0
+    ? getPolicyViolations(buildRequest(user, cartItems), myRequests, components, policyLimits, standing)
+    : [];
+  const dateOffset = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 30 }}
@@ -160,46 +269,22 @@ const BorrowForm: React.FC = () => {
           )}
 
           <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Personal Information */}
+            {/* Contact details come from the profile */}
             <motion.div
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.3 }}
-              className="grid grid-cols-1 md:grid-cols-2 gap-6"
+              className="flex flex-wrap items-center gap-x-6 gap-y-2 p-4 bg-dark-700/30 rounded-xl border border-dark-600"
             >
-              <div className="space-y-2">
-                <label className="block text-peacock-300 text-sm font-semibold mb-2">
-                  Roll Number
-                </label>
-                <div className="relative group">
-                  <Hash className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5 group-focus-within:text-peacock-300 transition-colors" />
-                  <input
-                    type="text"
-                    value={formData.rollNo}
-                    onChange={(e) => setFormData(prev => ({ ...prev, rollNo: e.target.value }))}
-                    className="w-full pl-10 pr-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300 group-hover:border-dark-500"
-                    placeholder="Enter your roll number"
-                    required
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="block text-peacock-300 text-sm font-semibold mb-2">
-                  Mobile Number
-                </label>
-                <div className="relative group">
-                  <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5 group-focus-within:text-peacock-300 transition-colors" />
-                  <input
-                    type="tel"
-                    value={formData.mobile}
-                    onChange={(e) => setFormData(prev => ({ ...prev, mobile: e.target.value }))}
-                    className="w-full pl-10 pr-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300 group-hover:border-dark-500"
-                    placeholder="Enter your mobile number"
-                    required
-                  />
-                </div>
-              </div>
+              <span className="flex items-center gap-2 text-white">
+                <Hash className="w-5 h-5 text-peacock-400" />
+                {user?.rollNo || 'No roll number'}
+              </span>
+              <span className={`flex items-center gap-2 ${user?.mobile ? 'text-white' : 'text-yellow-400'}`}>
+                <Phone className="w-5 h-5 text-peacock-400" />
+                {user?.mobile || 'No mobile number'}
+              </span>
+              <span className="text-peacock-300 text-sm">Sent with every request. Update them on the Profile tab.</span>
             </motion.div>
 
             {/* Component Selection */}
@@ -216,7 +301,6 @@ const BorrowForm: React.FC = () => {
                 value={formData.componentId}
                 onChange={(e) => setFormData(prev => ({ ...prev, componentId: e.target.value }))}
                 className="w-full px-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300 hover:border-dark-500"
-                required
               >
                 <option value="">Select a component</option>
                 {components.map(component => (
@@ -252,11 +336,16 @@ const BorrowForm: React.FC = () => {
                   <span className="text-peacock-300">
                     Total: {selectedComponent.totalQuantity} units
                   </span>
+                  {(selectedComponent.waitlist?.length || 0) > 0 && (
+                    <span className="text-purple-400">
+                      {selectedComponent.waitlist!.length} on waitlist
+                    </span>
+                  )}
                 </div>
               </motion.div>
             )}
 
-            {/* Quantity and Due Date */}
+            {/* Quantity and Add to Cart */}
             <motion.div
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
@@ -270,41 +359,154 @@ const BorrowForm: React.FC = () => {
                 <input
                   type="number"
                   min="1"
-                  max={selectedComponent?.availableQuantity || 1}
+                  max={selectedComponent ? Math.max(selectedComponent.totalQuantity - getCartQuantity(selectedComponent.id), 1) : 1}
                   value={formData.quantity}
                   onChange={(e) => setFormData(prev => ({ ...prev, quantity: parseInt(e.target.value) }))}
                   className="w-full px-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300 hover:border-dark-500"
-                  required
                 />
               </div>
 
-              <div className="space-y-2">
-                <label className="block text-peacock-300 text-sm font-semibold mb-2">
-                  Due Date
-                </label>
-                <div className="relative group">
-                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5 group-focus-within:text-peacock-300 transition-colors" />
-                  <input
-                    type="date"
-                    value={formData.dueDate}
-                    onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
-                    min={new Date().toISOString().split('T')[0]}
-                    className="w-full pl-10 pr-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300 group-hover:border-dark-500"
-                    required
-                  />
+              <div className="flex items-end">
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  type="button"
+                  onClick={handleAddToCart}
+                  disabled={!formData.componentId}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-4 bg-dark-700/50 border border-peacock-500/40 rounded-xl text-peacock-300 font-semibold hover:text-white hover:bg-dark-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Plus className="w-5 h-5" />
+                  Add to Request
+                </motion.button>
+              </div>
+            </motion.div>
+
+            {/* Cart */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.55 }}
+              className="bg-dark-700/30 rounded-xl border border-dark-600 p-4"
+            >
+              <div className="flex items-center gap-2 mb-3">
+                <ShoppingCart className="w-5 h-5 text-peacock-400" />
+                <h4 className="text-white font-semibold">Requested Components ({cart.length})</h4>
+              </div>
+              {cart.length === 0 ? (
+                <p className="text-peacock-300 text-sm">No components added yet. Select a component and add it to your request.</p>
+              ) : (
+                <div className="space-y-2">
+                  {cart.map(line => {
+                    const component = components.find(c => c.id === line.componentId);
+                    return (
+                      <div key={line.componentId} className="flex items-center justify-between p-3 bg-dark-800/50 rounded-lg border border-dark-600">
+                        <div>
+                          <p className="text-white font-medium">{component?.name || 'Unknown component'}</p>
+                          <p className="text-peacock-300 text-sm">
+                            Quantity: {line.quantity}
+                            {component && line.quantity > component.availableQuantity && (
+                              <span className="ml-2 text-purple-400">· Waitlist</span>
+                            )}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveFromCart(line.componentId)}
+                          className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-all duration-200"
+                          title="Remove from request"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
                 </div>
+              )}
+            </motion.div>
+
+            {/* Due Date */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.6 }}
+              className="space-y-2"
+            >
+              <label className="block text-peacock-300 text-sm font-semibold mb-2">
+                Due Date
+              </label>
+              <div className="relative group">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5 group-focus-within:text-peacock-300 transition-colors" />
+                <input
+                  type="date"
+                  value={formData.dueDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
+                  min={dateOffset(policyLimits.policy.minLeadDays)}
+                  max={dateOffset(policyLimits.maxLoanDays)}
+                  className="w-full pl-10 pr-4 py-4 bg-dark-700/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300 group-hover:border-dark-500"
+                  required
+                />
               </div>
             </motion.div>
 
+            {/* Email Verification */}
+            {!emailVerified && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                className="p-4 rounded-xl border bg-yellow-500/10 border-yellow-500/20"
+              >
+                <div className="flex items-center gap-2 mb-2 text-yellow-400">
+                  <MailCheck className="w-5 h-5" />
+                  <h4 className="font-semibold">Verify your email to submit requests</h4>
+                </div>
+                <p className="text-yellow-200 text-sm mb-3">We sent a verification link to {user?.email}. Open it, then come back here.</p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={handleCheckVerification}
+                    className="px-4 py-2 bg-yellow-500/20 text-yellow-300 rounded-lg hover:bg-yellow-500/30 transition-all duration-200 text-sm font-medium"
+                  >
+                    I've verified it
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleResendVerification}
+                    className="px-4 py-2 bg-dark-700/50 text-peacock-300 rounded-lg hover:bg-dark-600/50 hover:text-white transition-all duration-200 text-sm font-medium"
+                  >
+                    Resend link
+                  </button>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Policy Violations */}
+            {policyViolations.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                className="p-4 rounded-xl border bg-red-500/10 border-red-500/20"
+              >
+                <div className="flex items-center gap-2 mb-2 text-red-400">
+                  <ShieldAlert className="w-5 h-5" />
+                  <h4 className="font-semibold">This request breaks the lab's borrowing policy</h4>
+                </div>
+                <ul className="list-disc list-inside space-y-1 text-red-300 text-sm">
+                  {policyViolations.map(violation => (
+                    <li key={violation}>{violation}</li>
+                  ))}
+                </ul>
+              </motion.div>
+            )}
+
             {/* Submit Button */}
             <motion.button
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.6 }}
+              transition={{ delay: 0.7 }}
               whileHover={{ scale: 1.02, boxShadow: '0 10px 30px rgba(0, 206, 209, 0.3)' }}
               whileTap={{ scale: 0.98 }}
               type="submit"
-              disabled={isSubmitting || !formData.componentId}
+              disabled={isSubmitting || cart.length === 0 || policyViolations.length > 0 || !emailVerified}
               className="w-full group relative overflow-hidden bg-gradient-to-r from-peacock-500 to-blue-500 text-white py-4 rounded-xl font-bold text-lg shadow-lg hover:shadow-2xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <div className="absolute inset-0 bg-gradient-to-r from-peacock-600 to-blue-600 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
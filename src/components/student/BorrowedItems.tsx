@@ -1,29 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Package, Clock, CheckCircle, XCircle, AlertCircle, Calendar, User } from 'lucide-react';
+import { Package, Clock, CheckCircle, XCircle, AlertCircle, Calendar, User, Hourglass } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { hybridDataService } from '../../services/hybridDataService';
-import { BorrowRequest } from '../../types';
+import { useData } from '../../context/DataContext';
+import { RequestStatus } from '../../types';
+import { getRequestItems, getOutstandingLines, formatItemList } from '../../utils/requestItems';
+import { formatRequestStatus, isOverdue } from '../../utils/requestLifecycle';
 
 const BorrowedItems: React.FC = () => {
   const { user } = useAuth();
-  const [requests, setRequests] = useState<BorrowRequest[]>([]);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected' | 'returned'>('all');
+  const { requests: allRequests } = useData();
+  const [filter, setFilter] = useState<'all' | RequestStatus>('all');
 
-  useEffect(() => {
-    if (user) {
-      hybridDataService.getUserRequests(user.id).then(userRequests => {
-        setRequests(userRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()));
-      }).catch(error => {
-        console.error('Error loading user requests:', error);
-      });
-    }
-  }, [user]);
+  const requests = allRequests
+    .filter(request => request.studentId === user?.id)
+    .sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'approved':
+      case 'ready_for_pickup':
+        return <CheckCircle className="w-5 h-5 text-cyan-400" />;
+      case 'checked_out':
         return <CheckCircle className="w-5 h-5 text-green-400" />;
+      case 'expired':
+        return <Hourglass className="w-5 h-5 text-dark-300" />;
       case 'rejected':
         return <XCircle className="w-5 h-5 text-red-400" />;
       case 'returned':
@@ -35,8 +35,13 @@ const BorrowedItems: React.FC = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'ready_for_pickup':
+        return 'bg-cyan-500/10 border-cyan-500/20 text-cyan-400';
       case 'approved':
+      case 'checked_out':
         return 'bg-green-500/10 border-green-500/20 text-green-400';
+      case 'expired':
+        return 'bg-dark-500/10 border-dark-500/20 text-dark-300';
       case 'rejected':
         return 'bg-red-500/10 border-red-500/20 text-red-400';
       case 'returned':
@@ -46,11 +51,6 @@ const BorrowedItems: React.FC = () => {
     }
   };
 
-  const isOverdue = (dueDate: string, status: string) => {
-    if (status === 'returned' || status === 'rejected') return false;
-    return new Date(dueDate) < new Date();
-  };
-
   const filteredRequests = requests.filter(request => 
     filter === 'all' || request.status === filter
   );
@@ -87,7 +87,8 @@ const BorrowedItems: React.FC = () => {
         {[
           { key: 'all', label: 'All Items', count: requests.length },
           { key: 'pending', label: 'Pending', count: requests.filter(r => r.status === 'pending').length },
-          { key: 'approved', label: 'Approved', count: requests.filter(r => r.status === 'approved').length },
+          { key: 'ready_for_pickup', label: 'Ready for Pickup', count: requests.filter(r => r.status === 'ready_for_pickup').length },
+          { key: 'checked_out', label: 'Checked Out', count: requests.filter(r => r.status === 'checked_out').length },
           { key: 'returned', label: 'Returned', count: requests.filter(r => r.status === 'returned').length },
           { key: 'rejected', label: 'Rejected', count: requests.filter(r => r.status === 'rejected').length },
         ].map((filterOption, index) => (
@@ -125,7 +126,9 @@ const BorrowedItems: React.FC = () => {
             >
               {/* Status Indicator Bar */}
               <div className={`absolute top-0 left-0 w-full h-1 ${
-                request.status === 'approved' ? 'bg-gradient-to-r from-green-500 to-emerald-500' :
+                request.status === 'ready_for_pickup' ? 'bg-gradient-to-r from-cyan-500 to-blue-500' :
+                request.status === 'checked_out' ? 'bg-gradient-to-r from-green-500 to-emerald-500' :
+                request.status === 'expired' ? 'bg-gradient-to-r from-dark-500 to-dark-600' :
                 request.status === 'rejected' ? 'bg-gradient-to-r from-red-500 to-red-600' :
                 request.status === 'returned' ? 'bg-gradient-to-r from-blue-500 to-blue-600' :
                 'bg-gradient-to-r from-yellow-500 to-orange-500'
@@ -138,12 +141,21 @@ const BorrowedItems: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="text-white font-bold text-xl">{request.componentName}</h3>
-                    <p className="text-peacock-300">Quantity: {request.quantity}</p>
+                    <p className="text-peacock-300">
+                      Quantity: {request.quantity}
+                      {request.items?.length === 1 && request.items[0].requestedQuantity !== undefined &&
+                        ` (of ${request.items[0].requestedQuantity} requested)`}
+                    </p>
+                    {getRequestItems(request).some(item => item.assetTags?.length) && (
+                      <p className="text-peacock-300 text-xs">
+                        Units: {getRequestItems(request).flatMap(item => item.assetTags || []).join(', ')}
+                      </p>
+                    )}
                   </div>
                 </div>
                 
                 <div className="flex items-center gap-3">
-                  {isOverdue(request.dueDate, request.status) && (
+                  {isOverdue(request) && (
                     <motion.div
                       initial={{ scale: 0 }}
                       animate={{ scale: 1 }}
@@ -155,7 +167,7 @@ const BorrowedItems: React.FC = () => {
                   )}
                   <div className={`flex items-center gap-2 px-4 py-2 rounded-full border font-semibold ${getStatusColor(request.status)}`}>
                     {getStatusIcon(request.status)}
-                    {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                    {formatRequestStatus(request.status)}
                   </div>
                 </div>
               </div>
@@ -172,7 +184,7 @@ const BorrowedItems: React.FC = () => {
                   <Calendar className="w-4 h-4 text-peacock-400" />
                   <div>
                     <p className="text-peacock-300">Due Date</p>
-                    <p className={`font-medium ${isOverdue(request.dueDate, request.status) ? 'text-red-400' : 'text-white'}`}>
+                    <p className={`font-medium ${isOverdue(request) ? 'text-red-400' : 'text-white'}`}>
                       {new Date(request.dueDate).toLocaleDateString()}
                     </p>
                   </div>
@@ -186,8 +198,66 @@ const BorrowedItems: React.FC = () => {
                 </div>
               </div>
 
+              {/* Line Items */}
+              {getRequestItems(request).length > 1 && (
+                <div className="mt-4 space-y-2">
+                  {getRequestItems(request).map((item, lineIndex) => (
+                    <div
+                      key={`${item.componentId}-${lineIndex}`}
+                      className="flex items-center justify-between p-3 bg-dark-700/30 rounded-xl border border-dark-600 text-sm"
+                    >
+                      <span className="text-white font-medium">
+                        {item.componentName} x{item.quantity}
+                        {item.requestedQuantity !== undefined && ` (of ${item.requestedQuantity} requested)`}
+                      </span>
+                      <span className={`flex items-center gap-1 px-3 py-1 rounded-full border text-xs font-semibold ${getStatusColor(item.status)}`}>
+                        {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Status Messages */}
-              {request.status === 'approved' && (
+              {request.status === 'ready_for_pickup' && (
+                <motion.div
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  className="mt-4 p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-xl"
+                >
+                  <div className="flex items-center gap-3">
+                    <CheckCircle className="w-5 h-5 text-cyan-400" />
+                    <div>
+                      <p className="text-cyan-400 font-semibold">Request Approved!</p>
+                      <p className="text-cyan-300 text-sm mt-1">
+                        Come and get it in the Isaac Asimov Robotics Lab
+                        {request.pickupDeadline && ` by ${new Date(request.pickupDeadline).toLocaleString()}`}.
+                        Your loan period starts when you pick it up.
+                      </p>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+
+              {request.status === 'expired' && (
+                <motion.div
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  className="mt-4 p-4 bg-dark-700/30 border border-dark-600 rounded-xl"
+                >
+                  <div className="flex items-center gap-3">
+                    <Hourglass className="w-5 h-5 text-dark-300" />
+                    <div>
+                      <p className="text-dark-200 font-semibold">Pickup Window Expired</p>
+                      <p className="text-dark-300 text-sm mt-1">
+                        This approval was not collected in time and the items were released. Submit a new request if you still need them.
+                      </p>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+
+              {request.status === 'checked_out' && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
@@ -196,8 +266,21 @@ const BorrowedItems: React.FC = () => {
                   <div className="flex items-center gap-3">
                     <CheckCircle className="w-5 h-5 text-green-400" />
                     <div>
-                      <p className="text-green-400 font-semibold">Request Approved!</p>
-                      <p className="text-green-300 text-sm mt-1">Come and get it in the Isaac Asimov Robotics Lab</p>
+                      {request.returns?.length ? (
+                        <>
+                          <p className="text-green-400 font-semibold">Partially Returned</p>
+                          <p className="text-green-300 text-sm mt-1">
+                            Still to return: {formatItemList(getOutstandingLines(request))}
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-green-400 font-semibold">Checked Out</p>
+                          <p className="text-green-300 text-sm mt-1">
+                            Collected on {new Date(request.checkedOutAt || request.requestDate).toLocaleDateString()}. Please return it by the due date.
+                          </p>
+                        </>
+                      )}
                     </div>
                   </div>
                 </motion.div>
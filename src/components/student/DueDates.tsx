@@ -1,25 +1,38 @@
 import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
-import { Calendar, AlertTriangle, Clock } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Calendar, AlertTriangle, Clock, CalendarClock } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { useData } from '../../context/DataContext';
 import { hybridDataService } from '../../services/hybridDataService';
 import { BorrowRequest } from '../../types';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { getApprovedItems, getOutstandingLines, formatItemList } from '../../utils/requestItems';
+import { isOpenLoan } from '../../utils/requestLifecycle';
+import { ExtensionLimits, getExtensionBlocker, getPendingExtension, getWaitlistBlocker } from '../../utils/loanExtensions';
+import ExtensionRequestDialog from './ExtensionRequestDialog';
 
 const DueDates: React.FC = () => {
   const { user } = useAuth();
-  const [upcomingItems, setUpcomingItems] = useState<BorrowRequest[]>([]);
+  const { requests, components } = useData();
+  const [limits, setLimits] = useState<ExtensionLimits>(defaultLabSettings);
+  const [extendingRequest, setExtendingRequest] = useState<BorrowRequest | null>(null);
 
   useEffect(() => {
-    if (user) {
-      hybridDataService.getUserRequests(user.id).then(userRequests => {
-        const approved = userRequests.filter(r => r.status === 'approved');
-        const sorted = approved.sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
-        setUpcomingItems(sorted);
-      }).catch(error => {
-        console.error('Error loading due dates:', error);
-      });
-    }
-  }, [user]);
+    hybridDataService.getSettings().then(settings => {
+      setLimits(settings);
+    }).catch(error => {
+      console.error('Error loading settings:', error);
+    });
+  }, []);
+
+  // Approvals waiting to be collected count down to the end of their pickup window instead
+  const getDeadline = (item: BorrowRequest) => {
+    return item.status === 'ready_for_pickup' && item.pickupDeadline ? item.pickupDeadline : item.dueDate;
+  };
+
+  const upcomingItems = requests
+    .filter(request => request.studentId === user?.id && isOpenLoan(request))
+    .sort((a, b) => new Date(getDeadline(a)).getTime() - new Date(getDeadline(b)).getTime());
 
   const getDaysRemaining = (dueDate: string) => {
     const today = new Date();
@@ -45,7 +58,7 @@ const DueDates: React.FC = () => {
       >
         <Calendar className="w-16 h-16 text-peacock-400 mx-auto mb-4" />
         <h3 className="text-xl font-semibold text-white mb-2">No Due Dates</h3>
-        <p className="text-peacock-300">You don't have any approved items with upcoming due dates.</p>
+        <p className="text-peacock-300">You don't have any items to pick up or return.</p>
       </motion.div>
     );
   }
@@ -54,9 +67,17 @@ const DueDates: React.FC = () => {
     <div className="space-y-6">
       <div className="grid gap-4">
         {upcomingItems.map((item, index) => {
-          const status = getDueDateStatus(item.dueDate);
+          const awaitingPickup = item.status === 'ready_for_pickup';
+          const status = awaitingPickup
+            ? { color: 'text-cyan-400', bg: 'bg-cyan-500/10 border-cyan-500/20', text: 'Awaiting Pickup', icon: Clock }
+            : getDueDateStatus(item.dueDate);
           const daysRemaining = getDaysRemaining(item.dueDate);
           const StatusIcon = status.icon;
+          // Only what is still out; partially returned lines show the remaining units
+          const borrowedLines = awaitingPickup ? getApprovedItems(item) : getOutstandingLines(item);
+          const pendingExtension = getPendingExtension(item);
+          const lastExtension = item.extensions?.[item.extensions.length - 1];
+          const extensionBlocker = awaitingPickup ? null : getExtensionBlocker(item, limits) || getWaitlistBlocker(item, components);
 
           return (
             <motion.div
@@ -71,14 +92,17 @@ const DueDates: React.FC = () => {
                   <StatusIcon className={`w-5 h-5 ${status.color}`} />
                   <div>
                     <h3 className="text-white font-semibold">{item.componentName}</h3>
-                    <p className="text-peacock-300 text-sm">Quantity: {item.quantity}</p>
+                    <p className="text-peacock-300 text-sm">
+                      {borrowedLines.length > 1 ? formatItemList(borrowedLines) : `Quantity: ${borrowedLines[0]?.quantity ?? item.quantity}`}
+                    </p>
                   </div>
                 </div>
                 
                 <div className="text-right">
                   <p className={`font-semibold ${status.color}`}>{status.text}</p>
                   <p className="text-sm text-peacock-300">
-                    {daysRemaining < 0 ? `${Math.abs(daysRemaining)} days overdue` :
+                    {awaitingPickup ? 'Loan starts at pickup' :
+                     daysRemaining < 0 ? `${Math.abs(daysRemaining)} days overdue` :
                      daysRemaining === 0 ? 'Today' :
                      `${daysRemaining} days remaining`}
                   </p>
@@ -87,8 +111,10 @@ const DueDates: React.FC = () => {
               
               <div className="mt-3 pt-3 border-t border-dark-600">
                 <div className="flex justify-between text-sm">
-                  <span className="text-peacock-300">Due Date:</span>
-                  <span className="text-white">{new Date(item.dueDate).toLocaleDateString()}</span>
+                  <span className="text-peacock-300">{awaitingPickup ? 'Pick Up By:' : 'Due Date:'}</span>
+                  <span className="text-white">
+                    {awaitingPickup ? new Date(getDeadline(item)).toLocaleString() : new Date(item.dueDate).toLocaleDateString()}
+                  </span>
                 </div>
                 <div className="flex justify-between text-sm mt-1">
                   <span className="text-peacock-300">Roll No:</span>
@@ -96,7 +122,34 @@ const DueDates: React.FC = () => {
                 </div>
               </div>
 
-              {daysRemaining <= 1 && daysRemaining >= 0 && (
+              {!awaitingPickup && (
+                <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+                  {pendingExtension ? (
+                    <p className="text-peacock-300 text-sm">
+                      Extension to {new Date(pendingExtension.proposedDueDate).toLocaleDateString()} requested, waiting for review
+                    </p>
+                  ) : lastExtension?.status === 'denied' ? (
+                    <p className="text-red-400 text-sm">
+                      Extension denied{lastExtension.response ? `: ${lastExtension.response}` : ''}
+                    </p>
+                  ) : extensionBlocker ? (
+                    <p className="text-dark-300 text-xs">{extensionBlocker}</p>
+                  ) : <span />}
+                  {!pendingExtension && (
+                    <button
+                      onClick={() => setExtendingRequest(item)}
+                      disabled={!!extensionBlocker}
+                      title={extensionBlocker || undefined}
+                      className="flex items-center gap-2 px-3 py-1 bg-peacock-500/20 text-peacock-300 rounded-lg text-sm font-medium hover:bg-peacock-500/30 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      <CalendarClock className="w-4 h-4" />
+                      Request Extension
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {!awaitingPickup && daysRemaining <= 1 && daysRemaining >= 0 && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
@@ -109,6 +162,17 @@ const DueDates: React.FC = () => {
           );
         })}
       </div>
+
+      <AnimatePresence>
+        {extendingRequest && (
+          <ExtensionRequestDialog
+            request={extendingRequest}
+            limits={limits}
+            onClose={() => setExtendingRequest(null)}
+            onComplete={() => setExtendingRequest(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
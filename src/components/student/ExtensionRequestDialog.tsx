@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock } from 'lucide-react';
+import { requestLifecycleService } from '../../services/requestLifecycleService';
+import { BorrowRequest } from '../../types';
+import { getOutstandingLines, formatItemList } from '../../utils/requestItems';
+import { ExtensionLimits, getExtensionBlocker, getLatestDueDate, getRenewalCount } from '../../utils/loanExtensions';
+import { StockTransactionError } from '../../utils/stockTransactions';
+
+interface ExtensionRequestDialogProps {
+  request: BorrowRequest;
+  limits: ExtensionLimits;
+  onClose: () => void;
+  onComplete: (updated: BorrowRequest) => void;
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const ExtensionRequestDialog: React.FC<ExtensionRequestDialogProps> = ({ request, limits, onClose, onComplete }) => {
+  const [proposedDate, setProposedDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const earliest = new Date(new Date(request.dueDate).getTime() + 24 * 60 * 60 * 1000);
+  const latest = getLatestDueDate(request, limits);
+  const dateError = proposedDate ? getExtensionBlocker(request, limits, proposedDate) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (dateError) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await requestLifecycleService.requestExtension(request, proposedDate, reason.trim());
+      onComplete(result.request);
+    } catch (error) {
+      console.error('Error requesting extension:', error);
+      alert(error instanceof StockTransactionError ? error.message : 'Failed to submit the extension request. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+    >
+      <motion.form
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onSubmit={handleSubmit}
+        className="bg-dark-800 rounded-2xl border border-peacock-500/20 p-6 w-full max-w-md space-y-4"
+      >
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-peacock-500/20 rounded-xl">
+            <CalendarClock className="w-6 h-6 text-peacock-400" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white">Request Extension</h3>
+            <p className="text-peacock-300 text-sm">{formatItemList(getOutstandingLines(request))}</p>
+          </div>
+        </div>
+
+        <div className="text-sm text-peacock-300 space-y-1">
+          <p>Current due date: <span className="text-white">{new Date(request.dueDate).toLocaleDateString()}</span></p>
+          <p>Extensions used: <span className="text-white">{getRenewalCount(request)} of {limits.maxRenewals}</span></p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-peacock-300 mb-2">New Due Date</label>
+          <input
+            type="date"
+            required
+            value={proposedDate}
+            min={toDateInput(earliest)}
+            max={toDateInput(latest)}
+            onChange={(e) => setProposedDate(e.target.value)}
+            className="w-full px-4 py-3 bg-dark-700/50 border border-dark-600 rounded-xl text-white focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+          />
+          {dateError && <p className="text-red-400 text-xs mt-1">{dateError}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-peacock-300 mb-2">Reason</label>
+          <textarea
+            required
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            placeholder="Why do you need more time?"
+            className="w-full px-4 py-3 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-200"
+          />
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-dark-700 text-white rounded-xl font-medium hover:bg-dark-600 transition-all duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !!dateError || !reason.trim()}
+            className="px-4 py-2 bg-gradient-to-r from-peacock-500 to-blue-500 text-white rounded-xl font-semibold hover:from-peacock-600 hover:to-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit Request'}
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
+
+export default ExtensionRequestDialog;
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { UserCircle, Save, Bell, KeyRound, Lock, Mail, Hash, Phone, User as UserIcon } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { NotificationCategory } from '../../types';
+import { notificationCategories } from '../../utils/notifications';
+
+const inputClass = 'w-full pl-10 pr-4 py-3 bg-dark-700/50 border border-dark-600 rounded-xl text-white placeholder-dark-400 focus:border-peacock-500 focus:ring-2 focus:ring-peacock-500/20 transition-all duration-300';
+
+type Message = { type: 'success' | 'error'; text: string } | null;
+
+const MessageBox: React.FC<{ message: Message }> = ({ message }) => message && (
+  <div className={`p-3 rounded-xl border text-sm ${
+    message.type === 'success'
+      ? 'bg-green-500/10 border-green-500/20 text-green-400'
+      : 'bg-red-500/10 border-red-500/20 text-red-400'
+  }`}>
+    {message.text}
+  </div>
+);
+
+const ProfilePage: React.FC = () => {
+  const { user, emailVerified, updateProfile, changePassword } = useAuth();
+  const [contact, setContact] = useState({ name: user?.name || '', mobile: user?.mobile || '' });
+  const [contactMessage, setContactMessage] = useState<Message>(null);
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' });
+  const [passwordMessage, setPasswordMessage] = useState<Message>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!user) return null;
+
+  const handleSaveContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = contact.name.trim();
+    const mobile = contact.mobile.trim();
+    if (!name || !mobile) {
+      setContactMessage({ type: 'error', text: 'Name and mobile number are both required.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateProfile({ name, mobile });
+      setContactMessage({ type: 'success', text: 'Your contact details have been saved.' });
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      setContactMessage({ type: 'error', text: 'Failed to save your details. Please try again.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePreference = async (category: NotificationCategory, enabled: boolean) => {
+    try {
+      await updateProfile({ notificationPreferences: { ...user.notificationPreferences, [category]: enabled } });
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      alert('Failed to save your notification preferences. Please try again.');
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwords.next.length < 8) {
+      setPasswordMessage({ type: 'error', text: 'Password must be at least 8 characters long.' });
+      return;
+    }
+    if (passwords.next !== passwords.confirm) {
+      setPasswordMessage({ type: 'error', text: 'Passwords do not match.' });
+      return;
+    }
+    if (passwords.next === passwords.current) {
+      setPasswordMessage({ type: 'error', text: 'Choose a password different from the current one.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (await changePassword(passwords.current, passwords.next)) {
+        setPasswords({ current: '', next: '', confirm: '' });
+        setPasswordMessage({ type: 'success', text: 'Your password has been changed.' });
+      } else {
+        setPasswordMessage({ type: 'error', text: 'Current password is incorrect.' });
+      }
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setPasswordMessage({ type: 'error', text: 'Failed to change password. Please try again.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const accountInfo = [
+    { label: 'Email', value: user.email, note: emailVerified ? 'Verified' : 'Not verified' },
+    { label: 'Roll number', value: user.rollNo || '—', note: 'Ask the lab staff if this is wrong' },
+    { label: 'Member since', value: new Date(user.registeredAt).toLocaleDateString() },
+    { label: 'Last sign-in', value: user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : '—' },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl mx-auto space-y-6"
+    >
+      {/* Account */}
+      <div className="bg-dark-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-peacock-500/20 p-6">
+        <div className="flex items-center gap-4 mb-6">
+          <div className="p-3 bg-gradient-to-r from-peacock-500 to-blue-500 rounded-full">
+            <UserCircle className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white">{user.name}</h2>
+            <p className="text-peacock-300">Your account and how the lab reaches you</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {accountInfo.map(info => (
+            <div key={info.label} className="p-3 bg-dark-700/30 rounded-lg border border-dark-600">
+              <p className="text-peacock-300 text-xs">{info.label}</p>
+              <p className="text-white font-medium break-all">{info.value}</p>
+              {info.note && <p className="text-dark-300 text-xs">{info.note}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Contact details */}
+      <form
+        onSubmit={handleSaveContact}
+        className="bg-dark-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-peacock-500/20 p-6 space-y-4"
+      >
+        <h3 className="text-lg font-bold text-white">Contact Details</h3>
+        <p className="text-peacock-300 text-sm">Sent with every component request you submit.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="relative">
+            <UserIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              type="text"
+              value={contact.name}
+              onChange={(e) => setContact(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Full name"
+              className={inputClass}
+            />
+          </div>
+          <div className="relative">
+            <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              type="tel"
+              value={contact.mobile}
+              onChange={(e) => setContact(prev => ({ ...prev, mobile: e.target.value }))}
+              placeholder="Mobile number"
+              className={inputClass}
+            />
+          </div>
+          <div className="relative opacity-60">
+            <Hash className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input type="text" value={user.rollNo || ''} disabled className={inputClass} />
+          </div>
+          <div className="relative opacity-60">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input type="email" value={user.email} disabled className={inputClass} />
+          </div>
+        </div>
+        <MessageBox message={contactMessage} />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-peacock-500 to-blue-500 text-white rounded-xl font-medium hover:from-peacock-600 hover:to-blue-600 disabled:opacity-50 transition-all duration-200"
+        >
+          <Save className="w-4 h-4" />
+          Save Details
+        </button>
+      </form>
+
+      {/* Notification preferences */}
+      <div className="bg-dark-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-peacock-500/20 p-6 space-y-4">
+        <h3 className="flex items-center gap-2 text-lg font-bold text-white">
+          <Bell className="w-5 h-5 text-peacock-400" />
+          Notifications
+        </h3>
+        {notificationCategories.map(category => {
+          const enabled = user.notificationPreferences?.[category.id] !== false;
+          return (
+            <label key={category.id} className="flex items-center justify-between gap-4 p-3 bg-dark-700/30 rounded-lg border border-dark-600 cursor-pointer">
+              <div>
+                <p className="text-white font-medium">{category.label}</p>
+                <p className="text-peacock-300 text-xs">{category.description}</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => handleTogglePreference(category.id, e.target.checked)}
+                className="w-5 h-5 accent-peacock-500"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {/* Password */}
+      <form
+        onSubmit={handleChangePassword}
+        className="bg-dark-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-peacock-500/20 p-6 space-y-4"
+      >
+        <h3 className="flex items-center gap-2 text-lg font-bold text-white">
+          <KeyRound className="w-5 h-5 text-peacock-400" />
+          Change Password
+        </h3>
+        {([
+          { key: 'current', placeholder: 'Current password', autoComplete: 'current-password' },
+          { key: 'next', placeholder: 'New password', autoComplete: 'new-password' },
+          { key: 'confirm', placeholder: 'Confirm new password', autoComplete: 'new-password' },
+        ] as const).map(field => (
+          <div key={field.key} className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-peacock-400 w-5 h-5" />
+            <input
+              type="password"
+              required
+              value={passwords[field.key]}
+              onChange={(e) => setPasswords(prev => ({ ...prev, [field.key]: e.target.value }))}
+              placeholder={field.placeholder}
+              autoComplete={field.autoComplete}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <MessageBox message={passwordMessage} />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-peacock-500 to-blue-500 text-white rounded-xl font-medium hover:from-peacock-600 hover:to-blue-600 disabled:opacity-50 transition-all duration-200"
+        >
+          <KeyRound className="w-4 h-4" />
+          Change Password
+        </button>
+      </form>
+    </motion.div>
+  );
+};
+
+export default ProfilePage;
@@ -1,18 +1,44 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Package, Plus, Clock, Contact } from 'lucide-react';
+import { Package, Plus, Clock, Contact, ShieldCheck, Ban, UserCircle } from 'lucide-react';
 import BorrowForm from './BorrowForm';
 import BorrowedItems from './BorrowedItems';
 import DueDates from './DueDates';
 import AdminContact from './AdminContact';
+import ProfilePage from './ProfilePage';
+import { useAuth } from '../../context/AuthContext';
+import { hybridDataService } from '../../services/hybridDataService';
+import { reminderService } from '../../services/reminderService';
+import { defaultLabSettings } from '../../utils/labSettings';
+import { StudentStanding } from '../../types';
+import { getActivePoints, getActiveSuspension } from '../../utils/standing';
 
 const StudentDashboard: React.FC = () => {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('borrow');
+  const [standing, setStanding] = useState<StudentStanding | undefined>();
+  const [suspensionThreshold, setSuspensionThreshold] = useState(defaultLabSettings.penalties.suspensionThreshold);
+
+  useEffect(() => {
+    if (!user) return;
+    // Send this student any due date reminders that came due since they last visited
+    reminderService.run(hybridDataService, { studentId: user.id });
+    Promise.all([hybridDataService.getUserById(user.id), hybridDataService.getSettings()]).then(([student, settings]) => {
+      setStanding(student?.standing);
+      setSuspensionThreshold(settings.penalties.suspensionThreshold);
+    }).catch(error => {
+      console.error('Error loading standing:', error);
+    });
+  }, [user]);
+
+  const points = getActivePoints(standing);
+  const suspension = getActiveSuspension(standing);
 
   const tabs = [
     { id: 'borrow', label: 'Submit Request', icon: Plus },
     { id: 'items', label: 'My Items', icon: Package },
     { id: 'due', label: 'Due Dates', icon: Clock },
+    { id: 'profile', label: 'Profile', icon: UserCircle },
     { id: 'contact', label: 'Admin Contact', icon: Contact },
   ];
 
@@ -24,6 +50,8 @@ const StudentDashboard: React.FC = () => {
         return <BorrowedItems />;
       case 'due':
         return <DueDates />;
+      case 'profile':
+        return <ProfilePage />;
       case 'contact':
         return <AdminContact />;
       default:
@@ -43,6 +71,34 @@ const StudentDashboard: React.FC = () => {
           <p className="text-peacock-300">Manage your component borrowing and returns</p>
         </motion.div>
 
+        {/* Standing */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className={`mb-6 flex items-center gap-4 p-4 rounded-xl border backdrop-blur-sm ${
+            suspension
+              ? 'bg-red-500/10 border-red-500/20'
+              : points > 0
+                ? 'bg-yellow-500/10 border-yellow-500/20'
+                : 'bg-green-500/10 border-green-500/20'
+          }`}
+        >
+          {suspension ? <Ban className="w-6 h-6 text-red-400" /> : <ShieldCheck className={`w-6 h-6 ${points > 0 ? 'text-yellow-400' : 'text-green-400'}`} />}
+          <div>
+            <p className={`font-semibold ${suspension ? 'text-red-400' : points > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+              {suspension
+                ? `Borrowing suspended until ${new Date(suspension.endsAt).toLocaleDateString()}`
+                : points > 0 ? `${points} penalty point${points === 1 ? '' : 's'}` : 'Good standing'}
+            </p>
+            <p className="text-peacock-300 text-sm">
+              {suspension
+                ? 'You can still return items, but new requests will be accepted once the suspension ends.'
+                : `Late, damaged or lost returns add points. Reaching ${suspensionThreshold} points suspends borrowing.`}
+            </p>
+          </div>
+        </motion.div>
+
         {/* Tab Navigation */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { User } from '../types';
 import { hybridDataService } from '../services/hybridDataService';
 import { firebaseService } from '../services/firebaseService';
+import { isDeactivated } from '../utils/userAccounts';
 
 interface RegisterData {
   name: string;
@@ -16,6 +17,14 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<boolean>;
   register: (data: RegisterData) => Promise<boolean>;
   logout: () => void;
+  // Details students manage themselves from their profile
+  updateProfile: (changes: Pick<Partial<User>, 'name' | 'mobile' | 'notificationPreferences'>) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  resetPassword: (email: string) => Promise<void>;
+  // Students cannot submit requests until the address they registered with is confirmed
+  emailVerified: boolean;
+  sendVerificationEmail: () => Promise<void>;
+  refreshEmailVerified: () => Promise<boolean>;
   isLoading: boolean;
 }
 
@@ -34,40 +43,59 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUserState] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [emailVerified, setEmailVerified] = useState(false);
+
+  // The data service checks staff permissions against the same user, so it is updated before any child renders
+  const setUser = (next: User | null) => {
+    hybridDataService.setActor(next);
+    setUserState(next);
+  };
+
+  // Set while register is still writing the profile the auth state listener would otherwise look for
+  const registering = useRef(false);
+  // Set for a session restored offline, which Firebase itself knows nothing about
+  const offlineSession = useRef(false);
 
   useEffect(() => {
-    const initializeAuth = async () => {
-      // Check for existing session
-      const savedUser = localStorage.getItem('currentUser');
-      if (savedUser) {
-        try {
-          const parsedUser = JSON.parse(savedUser);
-          setUser(parsedUser);
-          
-          // Update user as active in the system
-          const systemUser = await hybridDataService.getUser(parsedUser.email);
-          if (systemUser) {
-            systemUser.isActive = true;
-            await hybridDataService.updateUser(systemUser);
-          }
-        } catch (error) {
-          console.error('Error loading saved user:', error);
-          localStorage.removeItem('currentUser');
+    hybridDataService.removeLegacyCredentials();
+
+    // Firebase restores its own session; the profile and role are read again from users/{uid} every time
+    const unsubscribe = firebaseService.onAuthStateChanged(async firebaseUser => {
+      if (registering.current) return;
+
+      if (firebaseUser) {
+        offlineSession.current = false;
+        let profile = await hybridDataService.loadProfile(firebaseUser);
+        // The account may have been deactivated since this session started
+        if (profile && isDeactivated(profile)) {
+          profile = null;
+          firebaseService.signOut().catch(error => {
+            console.error('Firebase sign out error:', error);
+          });
         }
+        hybridDataService.setActor(profile);
+        setEmailVerified(firebaseUser.emailVerified);
+        setUserState(profile);
+      } else if (!offlineSession.current) {
+        hybridDataService.setActor(null);
+        setEmailVerified(false);
+        setUserState(null);
       }
       setIsLoading(false);
-    };
+    });
 
-    initializeAuth();
+    return unsubscribe;
   }, []);
 
+  // Throws AccountDeactivatedError for deactivated accounts
   const login = async (email: string, password: string): Promise<boolean> => {
-    const authenticatedUser = await hybridDataService.authenticateUser(email, password);
+    const authenticatedUser = await hybridDataService.signIn(email, password);
     if (authenticatedUser) {
+      offlineSession.current = !firebaseService.isSignedIn();
+      setEmailVerified(firebaseService.isEmailVerified());
       setUser(authenticatedUser);
-      localStorage.setItem('currentUser', JSON.stringify(authenticatedUser));
       return true;
     }
     return false;
@@ -75,51 +103,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const register = async (data: RegisterData): Promise<boolean> => {
     try {
-      // Check if user already exists
-      const existingUser = await hybridDataService.getUser(data.email);
-      if (existingUser) {
-        return false;
-      }
-
-      // Create Firebase user first
-      try {
-        await firebaseService.signUp(data.email, data.password);
-      } catch (firebaseError) {
-        console.error('Firebase registration failed:', firebaseError);
-        // Continue with local registration
-      }
-
-      // Create new user
-      const newUser: User = {
-        id: `user-${Date.now()}`,
+      registering.current = true;
+      const newUser = await hybridDataService.register({
         name: data.name,
         email: data.email,
         rollNo: data.rollNumber,
         mobile: data.mobile,
-        role: 'student',
         registeredAt: new Date().toISOString(),
         loginCount: 1,
         isActive: true,
         lastLoginAt: new Date().toISOString()
-      };
-
-      // Save user and create login session
-      await hybridDataService.addUser(newUser);
+      }, data.password);
       await hybridDataService.createLoginSession(newUser);
-      
-      // Store password (in production, this would be hashed)
-      hybridDataService.setUserPassword(data.email, data.password);
-
-      // Set as current user
+      setEmailVerified(false);
       setUser(newUser);
-      localStorage.setItem('currentUser', JSON.stringify(newUser));
 
       // Add welcome notification
       await hybridDataService.addNotification({
         id: `notif-${Date.now()}`,
         userId: newUser.id,
         title: 'Welcome to Isaac Asimov Lab! 🎉',
-        message: 'Your account has been created successfully. You can now request components for your robotics projects.',
+        message: `Your account has been created successfully. Open the link we sent to ${newUser.email} to verify your email, then you can request components for your robotics projects.`,
         type: 'success',
         read: false,
         createdAt: new Date().toISOString(),
@@ -129,25 +133,67 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (error) {
       console.error('Registration error:', error);
       return false;
+    } finally {
+      registering.current = false;
+    }
+  };
+
+  const updateProfile = async (changes: Pick<Partial<User>, 'name' | 'mobile' | 'notificationPreferences'>): Promise<void> => {
+    if (!user) return;
+    setUser(await hybridDataService.updateUser(user, changes));
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const success = await hybridDataService.changePassword(user, currentPassword, newPassword);
+    if (success) {
+      setUser({ ...user, mustChangePassword: false });
     }
+    return success;
+  };
+
+  const resetPassword = async (email: string): Promise<void> => {
+    await hybridDataService.sendPasswordReset(email);
+  };
+
+  const sendVerificationEmail = async (): Promise<void> => {
+    await firebaseService.sendVerificationEmail();
+  };
+
+  const refreshEmailVerified = async (): Promise<boolean> => {
+    const verified = await firebaseService.refreshEmailVerified();
+    setEmailVerified(verified);
+    return verified;
   };
 
   const logout = () => {
     if (user) {
-      // End login session
-      hybridDataService.endLoginSession(user.id);
-      
-      // Sign out from Firebase
-      firebaseService.signOut().catch(error => {
-        console.error('Firebase sign out error:', error);
-      });
+      // End the login session while still signed in, since the rules only let users close their own
+      hybridDataService.endLoginSession(user.id)
+        .then(() => firebaseService.signOut())
+        .catch(error => {
+          console.error('Firebase sign out error:', error);
+        });
     }
+    offlineSession.current = false;
     setUser(null);
-    localStorage.removeItem('currentUser');
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{
+      user,
+      login,
+      register,
+      logout,
+      updateProfile,
+      changePassword,
+      resetPassword,
+      emailVerified,
+      sendVerificationEmail,
+      refreshEmailVerified,
+      isLoading
+    }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { BorrowRequest, Component, LoginSession, Notification, SystemStats, User } from '../types';
+import { hybridDataService } from '../services/hybridDataService';
+import { useAuth } from './AuthContext';
+
+interface DataContextType {
+  users: User[];
+  components: Component[];
+  requests: BorrowRequest[];
+  // The signed-in user's own notifications, newest first
+  notifications: Notification[];
+  loginSessions: LoginSession[];
+  stats: SystemStats;
+}
+
+const DataContext = createContext<DataContextType | undefined>(undefined);
+
+export const useData = () => {
+  const context = useContext(DataContext);
+  if (context === undefined) {
+    throw new Error('useData must be used within a DataProvider');
+  }
+  return context;
+};
+
+interface DataProviderProps {
+  children: ReactNode;
+}
+
+// Live copy of the lab data: the storage backend keeps the local copy current while online, and changes
+// made on this device show up straight away, online or not
+export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [value, setValue] = useState<DataContextType>(() => ({
+    users: [],
+    components: [],
+    requests: [],
+    notifications: [],
+    loginSessions: [],
+    stats: hybridDataService.getSystemStats()
+  }));
+
+  useEffect(() => {
+    if (!user) return;
+    return hybridDataService.subscribe(data => {
+      setValue({
+        users: data.users,
+        components: data.components,
+        requests: data.requests,
+        notifications: data.notifications
+          .filter(notification => notification.userId === user.id)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+        loginSessions: data.loginSessions,
+        stats: hybridDataService.getSystemStats()
+      });
+    });
+  }, [user]);
+
+  return (
+    <DataContext.Provider value={value}>
+      {children}
+    </DataContext.Provider>
+  );
+};
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { User } from '../types';
+import { promisify } from '../utils/indexedDb';
+import { dataService } from './dataService';
+import { cachedCollections, localCacheService } from './localCacheService';
+
+const PASSWORD = 'pl41ntext-Password!';
+
+const student: User = {
+  id: 'student-1',
+  name: 'Asha',
+  email: 'asha@example.com',
+  role: 'student',
+  registeredAt: '2025-03-01T09:00:00.000Z',
+  loginCount: 1,
+  isActive: true
+};
+
+// Everything the local cache has written to IndexedDB, once pending writes are saved
+const readCache = async (): Promise<string> => {
+  await localCacheService.query('loginSessions', 'userId', student.id);
+  const database = await promisify(indexedDB.open('isaacLabCache'));
+  const transaction = database.transaction(cachedCollections, 'readonly');
+  const records = await Promise.all(cachedCollections.map(name => promisify(transaction.objectStore(name).getAll())));
+  database.close();
+  return JSON.stringify(records);
+};
+
+describe('dataService offline sessions', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await dataService.ready;
+  });
+
+  it('signs in offline with the password Firebase accepted, and with nothing else', async () => {
+    await dataService.cacheVerifiedSession(student.email, PASSWORD, student);
+
+    expect(await dataService.authenticateOffline(student.email, PASSWORD)).toMatchObject({ id: student.id });
+    expect(await dataService.authenticateOffline(student.email, 'wrong password')).toBeNull();
+  });
+
+  it('persists no plaintext password', async () => {
+    // What earlier versions left behind
+    localStorage.setItem('isaacLabPasswords', JSON.stringify({ [student.email]: PASSWORD }));
+    localStorage.setItem('isaacLabCredentials', JSON.stringify([{ email: student.email, password: PASSWORD }]));
+
+    await dataService.cacheVerifiedSession(student.email, PASSWORD, student);
+    dataService.removeLegacyCredentials();
+
+    const stored = Object.keys(localStorage).map(key => localStorage.getItem(key) || '');
+    expect(stored.length).toBeGreaterThan(0);
+    stored.forEach(value => expect(value).not.toContain(PASSWORD));
+    expect(await readCache()).not.toContain(PASSWORD);
+  });
+});
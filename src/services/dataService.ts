@@ -1,26 +1,87 @@
-import { SystemData, User, Component, BorrowRequest, Notification, LoginSession, SystemStats } from '../types';
+import { SystemData, User, Component, BorrowRequest, Notification, LoginSession, SystemStats, LabSettings, StockTransactionResult, ReturnRecord, LoanExtension, ExtensionReview, StudentStanding } from '../types';
+import { StockTransactionError, applyStockChange } from '../utils/stockTransactions';
+import { TransitionPlan, normalizeRequest, isOverdue, planReview, planCheckout, planExpiry, planExtensionRequest, planExtensionReview, planReturn } from '../utils/requestLifecycle';
+import { ExtensionLimits } from '../utils/loanExtensions';
+import { hashPassword, verifyPassword } from '../utils/passwordHash';
+import { isStaff } from '../utils/permissions';
+import { defaultLabSettings } from '../utils/labSettings';
+import { WaitlistMutation, nextWaitlist } from '../utils/waitlist';
+import { StandingMutation, nextStanding } from '../utils/standing';
+import { CacheChange, cachedCollections, localCacheService } from './localCacheService';
+
+// The last sign-in Firebase verified on this device, per email. Offline login accepts nothing else.
+interface VerifiedSession {
+  userId: string;
+  passwordHash: string;
+  verifiedAt: string;
+}
 
-interface UserPasswords {
-  [email: string]: string;
+interface VerifiedSessions {
+  [email: string]: VerifiedSession;
 }
 
+type DataListener = (data: SystemData) => void;
+
+type CachedRecord<K extends keyof SystemData> = SystemData[K][number];
+
+const put = <K extends keyof SystemData>(collection: K, record: CachedRecord<K>): CacheChange =>
+  ({ collection, id: record.id, record });
+
+const remove = (collection: keyof SystemData, id: string): CacheChange => ({ collection, id, record: null });
+
+// Copies only the collections the changes touch; an updated record keeps its place, a new one goes last
+const applyChanges = (data: SystemData, changes: CacheChange[]): SystemData => {
+  const next = { ...data };
+  cachedCollections.forEach(collection => {
+    const touched = changes.filter(change => change.collection === collection);
+    if (touched.length === 0) return;
+    const records = new Map((next[collection] as { id: string }[]).map(record => [record.id, record as object]));
+    touched.forEach(({ id, record }) => {
+      if (record) {
+        records.set(id, record);
+      } else {
+        records.delete(id);
+      }
+    });
+    (next[collection] as object[]) = [...records.values()];
+  });
+  return next;
+};
+
+const diffRecords = (collection: keyof SystemData, before: { id: string }[], after: { id: string }[]): CacheChange[] => {
+  const previous = new Map(before.map(record => [record.id, record]));
+  const changes = after
+    .filter(record => {
+      const old = previous.get(record.id);
+      previous.delete(record.id);
+      return old !== record && JSON.stringify(old) !== JSON.stringify(record);
+    })
+    .map(record => ({ collection, id: record.id, record }));
+  return [...changes, ...[...previous.keys()].map(id => remove(collection, id))];
+};
+
+// A placeholder admin earlier versions seeded on every device; no one signs in as it, so staff notices sent
+// to it were never read
+const SEEDED_ADMIN_ID = 'admin-1';
+// How long a verified session can be used offline before Firebase has to confirm the password again
+const OFFLINE_SESSION_DAYS = 14;
+
 class DataService {
-  private storageKey = 'isaacLabData';
-  private passwordKey = 'isaacLabPasswords';
+  private sessionsKey = 'isaacLabVerifiedSessions';
+  // Local password stores from before Firebase Auth was the only identity source; see removeLegacyCredentials
+  private legacyCredentialKeys = ['isaacLabPasswords', 'isaacLabCredentials'];
+  private settingsKey = 'isaacLabSettings';
+  private listeners = new Set<DataListener>();
+  // Reads are answered from memory; every change is also saved to localCacheService record by record
+  private data: SystemData = this.getDefaultData();
+  // Changes made before the saved copy finished loading, laid over it once it has
+  private earlyChanges: CacheChange[] | null = [];
+  // Resolves once the copy saved on this device is loaded
+  readonly ready: Promise<void> = this.load();
 
   private getDefaultData(): SystemData {
     return {
-      users: [
-        {
-          id: 'admin-1',
-          name: 'Administrator',
-          email: 'admin@issacasimov.in',
-          role: 'admin',
-          registeredAt: new Date().toISOString(),
-          loginCount: 0,
-          isActive: false
-        }
-      ],
+      users: [],
       components: [
         {
           id: 'comp-1',
@@ -37,124 +98,190 @@ class DataService {
     };
   }
 
-  getData(): SystemData {
+  private async load(): Promise<void> {
     try {
-      const data = localStorage.getItem(this.storageKey);
-      if (data) {
-        const parsedData = JSON.parse(data);
-        // Ensure loginSessions exists for backward compatibility
-        if (!parsedData.loginSessions) {
-          parsedData.loginSessions = [];
+      const stored = await localCacheService.load();
+      if (stored) {
+        const users = stored.users.filter(user => user.id !== SEEDED_ADMIN_ID);
+        this.data = applyChanges({ ...stored, users, requests: stored.requests.map(normalizeRequest) }, this.earlyChanges || []);
+        if (users.length < stored.users.length) {
+          localCacheService.save([remove('users', SEEDED_ADMIN_ID)]);
         }
-        return parsedData;
+      } else {
+        // Nothing saved on this device yet, so the starting data is saved as it stands
+        localCacheService.save(cachedCollections.flatMap(collection => diffRecords(collection, [], this.data[collection])));
       }
     } catch (error) {
       console.error('Error loading data:', error);
     }
-    return this.getDefaultData();
+    this.earlyChanges = null;
+    this.notifyChange();
+  }
+
+  getData(): SystemData {
+    return this.data;
   }
 
+  // Replaces the whole local copy, saving only the records that differ from it
   saveData(data: SystemData): void {
-    try {
-      localStorage.setItem(this.storageKey, JSON.stringify(data));
-    } catch (error) {
-      console.error('Error saving data:', error);
-    }
+    const next = { ...data, requests: data.requests.map(normalizeRequest) };
+    const changes = cachedCollections.flatMap(collection =>
+      diffRecords(collection, this.data[collection], next[collection])
+    );
+    this.data = next;
+    this.store(changes);
   }
 
-  // Password management (in production, passwords would be hashed)
-  setUserPassword(email: string, password: string): void {
-    try {
-      const passwords = this.getUserPasswords();
-      passwords[email] = password;
-      localStorage.setItem(this.passwordKey, JSON.stringify(passwords));
-    } catch (error) {
-      console.error('Error saving password:', error);
+  private commit(changes: CacheChange[]): void {
+    this.data = applyChanges(this.data, changes);
+    this.store(changes);
+  }
+
+  private store(changes: CacheChange[]): void {
+    this.earlyChanges?.push(...changes);
+    localCacheService.save(changes);
+    this.notifyChange();
+  }
+
+  // Listeners hear about every change to the local copy, including a download from the backend
+  subscribe(listener: DataListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  notifyChange(): void {
+    if (this.listeners.size === 0) return;
+    const data = this.getData();
+    this.listeners.forEach(listener => listener(data));
+  }
+
+  // Swaps the cached records for what a live backend listener delivered. scope marks the records the
+  // listener covers when it sees only part of the collection, such as one student's requests.
+  replaceCollection<K extends keyof SystemData>(
+    key: K,
+    records: SystemData[K],
+    scope?: (record: SystemData[K][number]) => boolean
+  ): void {
+    const kept = scope ? (this.data[key] as SystemData[K][number][]).filter(record => !scope(record)) : [];
+    this.saveData({ ...this.data, [key]: [...kept, ...records] });
+  }
+
+  // Offline sessions: only a salted hash of the password Firebase accepted is kept, never the password itself
+  async cacheVerifiedSession(email: string, password: string, user: User): Promise<void> {
+    const sessions = this.getVerifiedSessions();
+    sessions[email] = { userId: user.id, passwordHash: await hashPassword(password), verifiedAt: new Date().toISOString() };
+    this.saveVerifiedSessions(sessions);
+    this.cacheUser(user);
+  }
+
+  async authenticateOffline(email: string, password: string): Promise<User | null> {
+    await this.ready;
+    const session = this.getVerifiedSessions()[email];
+    if (!session) return null;
+
+    const age = Date.now() - new Date(session.verifiedAt).getTime();
+    if (age > OFFLINE_SESSION_DAYS * 24 * 60 * 60 * 1000 || !(await verifyPassword(password, session.passwordHash))) {
+      return null;
     }
+    return this.getUserById(session.userId) || null;
+  }
+
+  // Passwords stored by earlier versions were never checked against Firebase, so they are dropped rather than migrated
+  removeLegacyCredentials(): void {
+    this.legacyCredentialKeys.forEach(key => localStorage.removeItem(key));
   }
 
-  private getUserPasswords(): UserPasswords {
+  private getVerifiedSessions(): VerifiedSessions {
     try {
-      const passwords = localStorage.getItem(this.passwordKey);
-      return passwords ? JSON.parse(passwords) : {};
+      const sessions = localStorage.getItem(this.sessionsKey);
+      return sessions ? JSON.parse(sessions) : {};
     } catch (error) {
-      console.error('Error loading passwords:', error);
+      console.error('Error loading verified sessions:', error);
       return {};
     }
   }
 
-  private verifyPassword(email: string, password: string): boolean {
-    const passwords = this.getUserPasswords();
-    return passwords[email] === password;
+  private saveVerifiedSessions(sessions: VerifiedSessions): void {
+    try {
+      localStorage.setItem(this.sessionsKey, JSON.stringify(sessions));
+    } catch (error) {
+      console.error('Error saving verified sessions:', error);
+    }
   }
 
   // User operations
   addUser(user: User): void {
-    const data = this.getData();
     user.loginCount = 0;
     user.isActive = false;
-    data.users.push(user);
-    this.saveData(data);
+    this.commit([put('users', user)]);
   }
 
   updateUser(user: User): void {
-    const data = this.getData();
-    const index = data.users.findIndex(u => u.id === user.id);
-    if (index !== -1) {
-      data.users[index] = user;
-      this.saveData(data);
+    if (this.getUserById(user.id)) {
+      this.commit([put('users', user)]);
+    }
+  }
+
+  // Same as the backend's standing writes, for the local copy. Resolves with the standing as it now is.
+  changeStanding(mutation: StandingMutation): StudentStanding | undefined {
+    const user = this.getUserById(mutation.userId);
+    const standing = user && nextStanding(user.standing, mutation, this.getSettings().penalties);
+    if (user && standing) {
+      this.commit([put('users', { ...user, standing })]);
+      return standing;
     }
+    return user?.standing;
   }
 
   getUser(email: string): User | undefined {
-    const data = this.getData();
-    return data.users.find(user => user.email === email);
+    return this.data.users.find(user => user.email === email);
   }
 
-  authenticateUser(email: string, password: string): User | null {
-    let user = this.getUser(email);
-    
-    // Handle admin login with default password
-    if (email === 'admin@issacasimov.in') {
-      const passwords = this.getUserPasswords();
-      const adminPassword = passwords[email] || 'ralab'; // Default admin password
-      if (password !== adminPassword) {
-        return null;
-      }
-      
-      if (!user) {
-        // Create admin user if doesn't exist
-        user = {
-          id: 'admin-1',
-          name: 'Administrator',
-          email: 'admin@issacasimov.in',
-          role: 'admin',
-          registeredAt: new Date().toISOString(),
-          loginCount: 0,
-          isActive: true
-        };
-        this.addUser(user);
-        this.setUserPassword(email, 'ralab'); // Set default admin password
-      }
-    } else {
-      // For regular users, verify password
-      if (!user || !this.verifyPassword(email, password)) {
-        return null;
-      }
-    }
+  getUserById(userId: string): User | undefined {
+    return this.data.users.find(user => user.id === userId);
+  }
 
-    if (user) {
-      // Update login statistics
-      user.lastLoginAt = new Date().toISOString();
-      user.loginCount = (user.loginCount || 0) + 1;
-      user.isActive = true;
-      this.updateUser(user);
+  getUsers(): User[] {
+    return this.data.users;
+  }
 
-      // Create login session
-      this.createLoginSession(user);
-    }
+  getStaff(): User[] {
+    return this.getUsers().filter(user => isStaff(user));
+  }
 
-    return user || null;
+  // Keeps the local copy of a profile loaded from the backend, adding it if this device has not seen it yet
+  cacheUser(user: User): void {
+    this.commit([put('users', user)]);
+  }
+
+  // Same as the backend's mergeUsers write, for the local copy
+  mergeUsers(merged: User, duplicateId: string): void {
+    const { requests, notifications, loginSessions, components } = this.data;
+    this.commit([
+      remove('users', duplicateId),
+      put('users', merged),
+      ...requests
+        .filter(request => request.studentId === duplicateId)
+        .map(request => put('requests', { ...request, studentId: merged.id })),
+      ...notifications
+        .filter(notification => notification.userId === duplicateId)
+        .map(notification => put('notifications', { ...notification, userId: merged.id })),
+      ...loginSessions
+        .filter(session => session.userId === duplicateId)
+        .map(session => put('loginSessions', { ...session, userId: merged.id })),
+      ...components
+        .filter(component => component.waitlist?.some(entry => entry.studentId === duplicateId))
+        .map(component => put('components', {
+          ...component,
+          waitlist: component.waitlist!.map(entry => entry.studentId === duplicateId ? { ...entry, studentId: merged.id } : entry)
+        }))
+    ]);
+  }
+
+  deleteUser(userId: string): void {
+    this.commit([remove('users', userId)]);
   }
 
   // Login session management
@@ -172,38 +299,33 @@ class DataService {
       isActive: true
     };
 
-    const data = this.getData();
-    data.loginSessions.push(session);
-    this.saveData(data);
+    this.commit([put('loginSessions', session)]);
 
     return session;
   }
 
   endLoginSession(userId: string): void {
-    const data = this.getData();
-    const activeSessions = data.loginSessions.filter(s => s.userId === userId && s.isActive);
-    
-    activeSessions.forEach(session => {
-      session.logoutTime = new Date().toISOString();
-      session.isActive = false;
-      session.sessionDuration = new Date().getTime() - new Date(session.loginTime).getTime();
-    });
+    const now = new Date();
+    const ended = this.data.loginSessions
+      .filter(s => s.userId === userId && s.isActive)
+      .map(session => put('loginSessions', {
+        ...session,
+        logoutTime: now.toISOString(),
+        isActive: false,
+        sessionDuration: now.getTime() - new Date(session.loginTime).getTime()
+      }));
 
     // Update user active status
-    const user = data.users.find(u => u.id === userId);
-    if (user) {
-      user.isActive = false;
-    }
-
-    this.saveData(data);
+    const user = this.getUserById(userId);
+    this.commit([...ended, ...(user ? [put('users', { ...user, isActive: false })] : [])]);
   }
 
   getLoginSessions(): LoginSession[] {
-    return this.getData().loginSessions;
+    return this.data.loginSessions;
   }
 
   getActiveUsers(): User[] {
-    return this.getData().users.filter(u => u.isActive);
+    return this.data.users.filter(u => u.isActive);
   }
 
   private getClientIP(): string {
@@ -220,80 +342,147 @@ class DataService {
 
   // Component operations
   getComponents(): Component[] {
-    return this.getData().components;
+    return this.data.components;
   }
 
   updateComponent(component: Component): void {
-    const data = this.getData();
-    const index = data.components.findIndex(c => c.id === component.id);
-    if (index !== -1) {
-      data.components[index] = component;
-      this.saveData(data);
+    if (this.data.components.some(c => c.id === component.id)) {
+      this.commit([put('components', component)]);
     }
   }
 
   addComponent(component: Component): void {
-    const data = this.getData();
-    data.components.push(component);
-    this.saveData(data);
+    this.commit([put('components', component)]);
   }
 
   deleteComponent(componentId: string): void {
-    const data = this.getData();
-    data.components = data.components.filter(c => c.id !== componentId);
-    this.saveData(data);
+    this.commit([remove('components', componentId)]);
+  }
+
+  // Same as the backend's waitlist writes, for the local copy
+  changeWaitlist(mutation: WaitlistMutation): void {
+    const component = this.data.components.find(c => c.id === mutation.componentId);
+    const waitlist = component && nextWaitlist(component.waitlist, mutation);
+    if (component && waitlist) {
+      this.commit([put('components', { ...component, waitlist })]);
+    }
   }
+
   // Request operations
   addRequest(request: BorrowRequest): void {
-    const data = this.getData();
-    data.requests.push(request);
-    this.saveData(data);
+    this.commit([put('requests', request)]);
   }
 
   updateRequest(request: BorrowRequest): void {
-    const data = this.getData();
-    const index = data.requests.findIndex(r => r.id === request.id);
-    if (index !== -1) {
-      data.requests[index] = request;
-      this.saveData(data);
+    if (this.data.requests.some(r => r.id === request.id)) {
+      this.commit([put('requests', request)]);
+    }
+  }
+
+  // Validates everything before touching the data so a refused transaction leaves nothing half-written
+  reviewRequest(request: BorrowRequest): StockTransactionResult {
+    return this.runStockTransaction(request.id, stored => planReview(stored, request));
+  }
+
+  checkOutRequest(requestId: string, checkedOutAt: string, checkedOutBy: string): StockTransactionResult {
+    return this.runStockTransaction(requestId, stored => planCheckout(stored, checkedOutAt, checkedOutBy));
+  }
+
+  expireRequest(requestId: string, expiredAt: string): StockTransactionResult {
+    return this.runStockTransaction(requestId, stored => planExpiry(stored, expiredAt));
+  }
+
+  requestExtension(requestId: string, extension: LoanExtension, limits: ExtensionLimits): StockTransactionResult {
+    return this.runStockTransaction(requestId, stored => planExtensionRequest(stored, extension, limits));
+  }
+
+  reviewExtension(requestId: string, review: ExtensionReview, limits: ExtensionLimits): StockTransactionResult {
+    return this.runStockTransaction(requestId, stored => planExtensionReview(stored, review, limits));
+  }
+
+  returnRequest(requestId: string, record: ReturnRecord): StockTransactionResult {
+    return this.runStockTransaction(requestId, stored => planReturn(stored, record));
+  }
+
+  private runStockTransaction(
+    requestId: string,
+    plan: (stored: BorrowRequest) => TransitionPlan
+  ): StockTransactionResult {
+    const stored = this.data.requests.find(r => r.id === requestId);
+    if (!stored) {
+      throw new StockTransactionError('Request not found');
     }
+
+    const { request, changes } = plan(stored);
+    const components = Object.entries(changes).map(([componentId, change]) =>
+      applyStockChange(this.data.components.find(c => c.id === componentId), change)
+    );
+
+    this.commit([
+      ...components.map(component => put('components', component)),
+      put('requests', request)
+    ]);
+
+    return { request, components };
   }
 
   getRequests(): BorrowRequest[] {
-    return this.getData().requests;
+    return this.data.requests;
   }
 
-  getUserRequests(userId: string): BorrowRequest[] {
-    return this.getData().requests.filter(r => r.studentId === userId);
+  // Read through the cache's studentId index; the copy in memory answers while changes wait for room
+  async getUserRequests(userId: string): Promise<BorrowRequest[]> {
+    await this.ready;
+    const stored = await localCacheService.query('requests', 'studentId', userId).catch(() => null);
+    return stored
+      ? stored.map(normalizeRequest)
+      : this.data.requests.filter(r => r.studentId === userId);
   }
 
   // Notification operations
   addNotification(notification: Notification): void {
-    const data = this.getData();
-    data.notifications.push(notification);
-    this.saveData(data);
+    this.commit([put('notifications', notification)]);
   }
 
-  getUserNotifications(userId: string): Notification[] {
-    return this.getData().notifications.filter(n => n.userId === userId);
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    await this.ready;
+    const stored = await localCacheService.query('notifications', 'userId', userId).catch(() => null);
+    return stored || this.data.notifications.filter(n => n.userId === userId);
   }
 
   markNotificationAsRead(notificationId: string): void {
-    const data = this.getData();
-    const notification = data.notifications.find(n => n.id === notificationId);
+    const notification = this.data.notifications.find(n => n.id === notificationId);
     if (notification) {
-      notification.read = true;
-      this.saveData(data);
+      this.commit([put('notifications', { ...notification, read: true })]);
+    }
+  }
+
+  // Lab settings
+  getSettings(): LabSettings {
+    try {
+      const settings = localStorage.getItem(this.settingsKey);
+      if (settings) {
+        return { ...defaultLabSettings, ...JSON.parse(settings) };
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+    return { ...defaultLabSettings };
+  }
+
+  updateSettings(settings: LabSettings): void {
+    try {
+      localStorage.setItem(this.settingsKey, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving settings:', error);
     }
   }
 
   // System statistics
   getSystemStats(): SystemStats {
-    const data = this.getData();
+    const data = this.data;
     const now = new Date();
-    const overdueItems = data.requests.filter(r => 
-      r.status === 'approved' && new Date(r.dueDate) < now
-    );
+    const overdueItems = data.requests.filter(r => isOverdue(r, now));
 
     return {
       totalUsers: data.users.length,
@@ -1,5 +1,6 @@
 import * as XLSX from 'xlsx';
 import { SystemData, BorrowRequest, Component, User, LoginSession } from '../types';
+import { getRequestItems } from '../utils/requestItems';
 
 export class ExcelService {
   private static instance: ExcelService;
@@ -13,13 +14,14 @@ export class ExcelService {
 
   exportToExcel(data: SystemData): void {
     const workbook = XLSX.utils.book_new();
+    const requestLines = this.getRequestLines(data.requests);
     
     // Create comprehensive professional sheets
     this.addExecutiveDashboardSheet(workbook, data);
-    this.addComponentTrackingSheet(workbook, data.components, data.requests);
+    this.addComponentTrackingSheet(workbook, data.components, requestLines);
     this.addUserActivityReportSheet(workbook, data.users, data.loginSessions);
-    this.addRequestDetailsSheet(workbook, data.requests);
-    this.addCheckedOutComponentsSheet(workbook, data.requests, data.components);
+    this.addRequestDetailsSheet(workbook, requestLines);
+    this.addCheckedOutComponentsSheet(workbook, requestLines, data.components);
     this.addInventoryStatusSheet(workbook, data.components);
     this.addLoginSessionsSheet(workbook, data.loginSessions);
     this.addSystemAnalyticsSheet(workbook, data);
@@ -32,6 +34,13 @@ export class ExcelService {
     XLSX.writeFile(workbook, filename);
   }
 
+  // Rows of the first sheet keyed by their header cells; .xlsx, .xls and .csv files all read the same way
+  async readSheet(file: File): Promise<Record<string, unknown>[]> {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    return worksheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '', raw: false }) : [];
+  }
+
   private addExecutiveDashboardSheet(workbook: XLSX.WorkBook, data: SystemData): void {
     const stats = this.calculateStats(data);
     const now = new Date();
@@ -65,14 +74,15 @@ export class ExcelService {
       [''],
       ['Status', 'Count', 'Percentage', 'Trend', 'Notes', 'Action Items'],
       ['Pending Review', data.requests.filter(r => r.status === 'pending').length, `${((data.requests.filter(r => r.status === 'pending').length / Math.max(data.requests.length, 1)) * 100).toFixed(1)}%`, 'Stable', 'Requires admin attention', 'Review and approve/reject'],
-      ['Approved & Active', data.requests.filter(r => r.status === 'approved').length, `${((data.requests.filter(r => r.status === 'approved').length / Math.max(data.requests.length, 1)) * 100).toFixed(1)}%`, 'Increasing', 'Components in use', 'Monitor due dates'],
+      ['Awaiting Pickup', data.requests.filter(r => r.status === 'ready_for_pickup').length, `${((data.requests.filter(r => r.status === 'ready_for_pickup').length / Math.max(data.requests.length, 1)) * 100).toFixed(1)}%`, 'Stable', 'Stock reserved until collected', 'Confirm pickups at the counter'],
+      ['Checked Out & Active', data.requests.filter(r => r.status === 'checked_out').length, `${((data.requests.filter(r => r.status === 'checked_out').length / Math.max(data.requests.length, 1)) * 100).toFixed(1)}%`, 'Increasing', 'Components in use', 'Monitor due dates'],
       ['Successfully Returned', data.requests.filter(r => r.status === 'returned').length, `${((data.requests.filter(r => r.status === 'returned').length / Math.max(data.requests.length, 1)) * 100).toFixed(1)}%`, 'Positive', 'Completed transactions', 'Archive records'],
       ['Rejected Requests', data.requests.filter(r => r.status === 'rejected').length, `${((data.requests.filter(r => r.status === 'rejected').length / Math.max(data.requests.length, 1)) * 100).toFixed(1)}%`, 'Low', 'Quality control', 'Review rejection reasons'],
       [''],
       ['🏷️ COMPONENT CATEGORY PERFORMANCE'],
       [''],
       ['Category', 'Total Components', 'Total Units', 'Available Units', 'Utilization Rate', 'Performance Rating', 'Recommendation'],
-      ...this.getCategoryAnalysis(data.components, data.requests),
+      ...this.getCategoryAnalysis(data.components, this.getRequestLines(data.requests)),
       [''],
       ['💡 STRATEGIC RECOMMENDATIONS & INSIGHTS'],
       [''],
@@ -133,7 +143,7 @@ export class ExcelService {
 
     const rows = components.map(component => {
       const componentRequests = requests.filter(r => r.componentName === component.name);
-      const activeRequests = componentRequests.filter(r => r.status === 'approved');
+      const activeRequests = componentRequests.filter(r => r.status === 'checked_out');
       const inUse = component.totalQuantity - component.availableQuantity;
       const utilization = component.totalQuantity > 0 
         ? ((inUse / component.totalQuantity) * 100).toFixed(1)
@@ -332,7 +342,7 @@ export class ExcelService {
       const daysSinceRequest = Math.ceil((now.getTime() - requestDate.getTime()) / (1000 * 60 * 60 * 24));
       const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
       
-      const isOverdue = request.status === 'approved' && dueDate < now;
+      const isOverdue = request.status === 'checked_out' && dueDate < now;
       const priority = isOverdue ? '🚨 HIGH - OVERDUE' : 
                       request.status === 'pending' && daysSinceRequest > 2 ? '⚠️ HIGH - DELAYED' :
                       request.status === 'pending' ? '🟡 MEDIUM' : '🟢 NORMAL';
@@ -341,9 +351,10 @@ export class ExcelService {
         ? Math.ceil((new Date(request.approvedAt).getTime() - requestDate.getTime()) / (1000 * 60 * 60 * 24))
         : request.status === 'pending' ? daysSinceRequest : 0;
 
-      const usageDuration = request.returnedAt && request.approvedAt
-        ? Math.ceil((new Date(request.returnedAt).getTime() - new Date(request.approvedAt).getTime()) / (1000 * 60 * 60 * 24))
-        : request.status === 'approved' ? daysSinceRequest : 0;
+      const borrowedAt = request.checkedOutAt || request.approvedAt;
+      const usageDuration = request.returnedAt && borrowedAt
+        ? Math.ceil((new Date(request.returnedAt).getTime() - new Date(borrowedAt).getTime()) / (1000 * 60 * 60 * 24))
+        : request.status === 'checked_out' ? daysSinceRequest : 0;
 
       const lateReturn = request.returnedAt && new Date(request.returnedAt) > dueDate ? 'Yes' : 'No';
       const penaltyDays = lateReturn === 'Yes' && request.returnedAt 
@@ -366,7 +377,7 @@ export class ExcelService {
         dueDate.toLocaleDateString(),
         request.status.toUpperCase(),
         daysSinceRequest,
-        request.status === 'approved' ? daysUntilDue : 'N/A',
+        request.status === 'checked_out' ? daysUntilDue : 'N/A',
         priority,
         request.approvedBy || 'Pending',
         request.approvedAt ? new Date(request.approvedAt).toLocaleDateString() : 'Not Approved',
@@ -398,7 +409,7 @@ export class ExcelService {
   }
 
   private addCheckedOutComponentsSheet(workbook: XLSX.WorkBook, requests: BorrowRequest[], components: Component[]): void {
-    const checkedOutRequests = requests.filter(r => r.status === 'approved');
+    const checkedOutRequests = requests.filter(r => r.status === 'checked_out');
     
     const headers = [
       'Checkout ID',
@@ -634,7 +645,7 @@ export class ExcelService {
         'N/A', // Pages visited
         `${Math.round(duration * 0.7)} min`, // Time spent active (estimated)
         `${Math.round(duration * 0.3)} min`, // Idle time (estimated)
-        session.userRole === 'admin' ? 'High' : 'Standard',
+        session.userRole !== 'student' ? 'High' : 'Standard',
         'Secure', // Connection type
         sessionRating
       ];
@@ -691,7 +702,7 @@ export class ExcelService {
       ['🔧 COMPONENT PERFORMANCE'],
       [''],
       ['Top Requested Components'],
-      ...this.getTopRequestedComponents(data.requests, data.components),
+      ...this.getTopRequestedComponents(this.getRequestLines(data.requests), data.components),
       [''],
       ['📱 SYSTEM HEALTH'],
       [''],
@@ -844,7 +855,7 @@ export class ExcelService {
   private calculateStats(data: SystemData): any {
     const now = new Date();
     const overdueItems = data.requests.filter(r => 
-      r.status === 'approved' && new Date(r.dueDate) < now
+      r.status === 'checked_out' && new Date(r.dueDate) < now
     );
 
     return {
@@ -908,6 +919,23 @@ export class ExcelService {
     });
   }
 
+  // Flattens cart requests into one row per component line so per-component sheets stay accurate
+  private getRequestLines(requests: BorrowRequest[]): BorrowRequest[] {
+    return requests.flatMap(request => {
+      const items = getRequestItems(request);
+      return items.map((item, index) => ({
+        ...request,
+        id: items.length > 1 ? `${request.id}-${index + 1}` : request.id,
+        componentId: item.componentId,
+        componentName: item.componentName,
+        quantity: item.quantity,
+        status: item.status === 'approved' ? request.status : item.status,
+        notes: item.notes || request.notes,
+        items: undefined
+      }));
+    });
+  }
+
   private getPerformanceRating(current: number, target: number): string {
     const percentage = (current / target) * 100;
     if (percentage >= 90) return '⭐⭐⭐ Excellent';
@@ -1062,10 +1090,11 @@ export class ExcelService {
 
   generatePreviewData(data: SystemData): any {
     const stats = this.calculateStats(data);
+    const requestLines = this.getRequestLines(data.requests);
     
     // Generate detailed component data with enhanced tracking
     const detailedComponents = data.components.map(component => {
-      const componentRequests = data.requests.filter(r => r.componentName === component.name);
+      const componentRequests = requestLines.filter(r => r.componentName === component.name);
       const inUse = component.totalQuantity - component.availableQuantity;
       const utilization = component.totalQuantity > 0 
         ? ((inUse / component.totalQuantity) * 100).toFixed(1) + '%'
@@ -1081,7 +1110,7 @@ export class ExcelService {
         utilization: utilization,
         timesRequested: componentRequests.length,
         currentBorrowers: componentRequests
-          .filter(r => r.status === 'approved')
+          .filter(r => r.status === 'checked_out')
           .map(r => r.studentName)
           .join(', ') || 'None',
         description: component.description || 'No description'
@@ -1089,11 +1118,11 @@ export class ExcelService {
     });
 
     // Enhanced category performance data
-    const categoryPerformance = this.getCategoryPerformanceData(data.components, data.requests);
+    const categoryPerformance = this.getCategoryPerformanceData(data.components, requestLines);
     
     // Checked out components summary
-    const checkedOutSummary = data.requests
-      .filter(r => r.status === 'approved')
+    const checkedOutSummary = requestLines
+      .filter(r => r.status === 'checked_out')
       .map(request => ({
         studentName: request.studentName,
         rollNo: request.rollNo,
@@ -1112,10 +1141,10 @@ export class ExcelService {
         pendingRequests: stats.pendingRequests,
         totalComponents: stats.totalComponents,
         overdueItems: stats.overdueItems,
-        checkedOutItems: data.requests.filter(r => r.status === 'approved').length
+        checkedOutItems: requestLines.filter(r => r.status === 'checked_out').length
       },
       detailedComponents: detailedComponents,
-      recentRequests: data.requests
+      recentRequests: [...data.requests]
         .sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime())
         .slice(0, 15),
       categoryPerformance: categoryPerformance,
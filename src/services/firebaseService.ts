@@ -3,25 +3,58 @@ import {
   doc, 
   getDocs, 
   getDoc, 
-  addDoc, 
   updateDoc, 
   deleteDoc, 
   query, 
   where, 
-  orderBy, 
   onSnapshot,
   serverTimestamp,
-  writeBatch
+  writeBatch,
+  WriteBatch,
+  deleteField,
+  runTransaction,
+  increment,
+  Transaction,
+  DocumentData,
+  Unsubscribe
 } from 'firebase/firestore';
 import { 
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword, 
   signOut, 
   onAuthStateChanged,
+  updatePassword,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
+  sendPasswordResetEmail,
+  sendEmailVerification,
   User as FirebaseUser
 } from 'firebase/auth';
 import { auth, db } from '../config/firebase';
-import { User, Component, BorrowRequest, Notification, LoginSession, SystemData } from '../types';
+import { User, UserRole, Component, BorrowRequest, LabSettings, StockTransactionResult, ConflictCollection, SyncConflict } from '../types';
+import { StockTransactionError, applyStockChange } from '../utils/stockTransactions';
+import { TransitionPlan, normalizeRequest } from '../utils/requestLifecycle';
+import { staffRoles } from '../utils/permissions';
+import { ChangeBase, EntityMutation, OutboxEntry, TransitionMutation } from '../utils/outbox';
+import { conflictLabel, mergeChanges } from '../utils/conflicts';
+import { nextWaitlist } from '../utils/waitlist';
+import { nextStanding } from '../utils/standing';
+import { defaultLabSettings } from '../utils/labSettings';
+import { EntityCollection, EntityFilter, EntityRecord, EntityRecords, defaultComponents, planTransition, transitionRequestId } from '../utils/storageMutations';
+
+// Spread last into every write, after the record's own fields, so a stale revision copied from the cache never lands
+const versionStamp = () => ({ updatedAt: new Date().toISOString(), revision: increment(1) });
+
+// Field equality, or membership for an array of values
+const filteredQuery = (collectionName: EntityCollection, filter: EntityFilter = {}) => query(
+  collection(db, collectionName),
+  ...Object.entries(filter).map(([field, value]) => where(field, Array.isArray(value) ? 'in' : '==', value))
+);
+
+const toRecord = (collectionName: EntityCollection, id: string, data: DocumentData) => {
+  const record = { id, ...data };
+  return collectionName === 'requests' ? normalizeRequest(record as BorrowRequest) : record;
+};
 
 class FirebaseService {
   private static instance: FirebaseService;
@@ -63,425 +96,481 @@ class FirebaseService {
     }
   }
 
-  onAuthStateChanged(callback: (user: FirebaseUser | null) => void) {
-    return onAuthStateChanged(auth, callback);
-  }
-
-  // User management
-  async createUser(user: User): Promise<string> {
+  // Changes the password of the signed-in account after confirming the current one
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
     try {
-      const docRef = await addDoc(collection(db, 'users'), {
-        ...user,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      });
-      return docRef.id;
+      const user = auth.currentUser;
+      if (!user?.email) {
+        throw new Error('No account is signed in');
+      }
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, currentPassword));
+      await updatePassword(user, newPassword);
     } catch (error) {
-      console.error('Error creating user:', error);
+      console.error('Change password error:', error);
       throw error;
     }
   }
 
-  async getUser(userId: string): Promise<User | null> {
+  getCurrentUserId(): string | null {
+    return auth.currentUser?.uid || null;
+  }
+
+  // Role granted as a custom claim through the Admin SDK; takes precedence over the users document
+  async getRoleClaim(user: FirebaseUser): Promise<User['role'] | null> {
+    const { claims } = await user.getIdTokenResult();
+    const role = claims.role as UserRole | undefined;
+    return role && (role === 'student' || staffRoles.includes(role)) ? role : null;
+  }
+
+  isSignedIn(): boolean {
+    return !!auth.currentUser;
+  }
+
+  // Firebase does not reveal whether the address has an account, so this succeeds either way
+  async sendPasswordReset(email: string): Promise<void> {
     try {
-      const docRef = doc(db, 'users', userId);
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return { id: docSnap.id, ...docSnap.data() } as User;
-      }
-      return null;
+      await sendPasswordResetEmail(auth, email);
     } catch (error) {
-      console.error('Error getting user:', error);
+      console.error('Password reset error:', error);
       throw error;
     }
   }
 
-  async getUserByEmail(email: string): Promise<User | null> {
+  async sendVerificationEmail(): Promise<void> {
     try {
-      const q = query(collection(db, 'users'), where('email', '==', email));
-      const querySnapshot = await getDocs(q);
-      
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0];
-        return { id: doc.id, ...doc.data() } as User;
+      if (auth.currentUser) {
+        await sendEmailVerification(auth.currentUser);
       }
-      return null;
     } catch (error) {
-      console.error('Error getting user by email:', error);
+      console.error('Email verification error:', error);
       throw error;
     }
   }
 
-  async updateUser(userId: string, userData: Partial<User>): Promise<void> {
-    try {
-      const docRef = doc(db, 'users', userId);
-      await updateDoc(docRef, {
-        ...userData,
-        updatedAt: serverTimestamp()
-      });
-    } catch (error) {
-      console.error('Error updating user:', error);
-      throw error;
-    }
+  isEmailVerified(): boolean {
+    return !!auth.currentUser?.emailVerified;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    try {
-      const querySnapshot = await getDocs(collection(db, 'users'));
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as User[];
-    } catch (error) {
-      console.error('Error getting users:', error);
-      throw error;
+  // Picks up a verification link opened elsewhere, and refreshes the token so security rules see it too
+  async refreshEmailVerified(): Promise<boolean> {
+    const user = auth.currentUser;
+    if (!user) return false;
+
+    await user.reload();
+    if (user.emailVerified) {
+      await user.getIdToken(true);
     }
+    return user.emailVerified;
+  }
+
+  onAuthStateChanged(callback: (user: FirebaseUser | null) => void) {
+    return onAuthStateChanged(auth, callback);
+  }
+
+
+  // Sent to a self-hosted storage server so it can check who is writing
+  async getIdToken(): Promise<string | null> {
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
   }
 
-  // Component management
-  async createComponent(component: Component): Promise<string> {
+  // Records, read and watched generically for the Firestore storage backend. The security rules decide
+  // what each role may read, so students filter to their own requests and notifications.
+  async listDocuments<K extends EntityCollection>(collectionName: K, filter?: EntityFilter): Promise<EntityRecords[K]> {
     try {
-      const docRef = await addDoc(collection(db, 'components'), {
-        ...component,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      });
-      return docRef.id;
+      const querySnapshot = await getDocs(filteredQuery(collectionName, filter));
+      return querySnapshot.docs.map(doc => toRecord(collectionName, doc.id, doc.data())) as EntityRecords[K];
     } catch (error) {
-      console.error('Error creating component:', error);
+      console.error(`Error getting ${collectionName}:`, error);
       throw error;
     }
   }
 
-  async getComponent(componentId: string): Promise<Component | null> {
+  async getDocument<K extends EntityCollection>(collectionName: K, documentId: string): Promise<EntityRecord<K> | null> {
     try {
-      const docRef = doc(db, 'components', componentId);
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return { id: docSnap.id, ...docSnap.data() } as Component;
-      }
-      return null;
+      const docSnap = await getDoc(doc(db, collectionName, documentId));
+      return docSnap.exists() ? toRecord(collectionName, docSnap.id, docSnap.data()) as EntityRecord<K> : null;
     } catch (error) {
-      console.error('Error getting component:', error);
+      console.error(`Error getting ${collectionName}/${documentId}:`, error);
       throw error;
     }
   }
 
-  async updateComponent(componentId: string, componentData: Partial<Component>): Promise<void> {
+  // onError receives a listener the rules refused
+  watchDocuments<K extends EntityCollection>(
+    collectionName: K,
+    filter: EntityFilter | undefined,
+    callback: (records: EntityRecords[K]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(filteredQuery(collectionName, filter), (snapshot) => {
+      callback(snapshot.docs.map(doc => toRecord(collectionName, doc.id, doc.data())) as EntityRecords[K]);
+    }, onError);
+  }
+
+  async getSettings(): Promise<LabSettings | null> {
     try {
-      const docRef = doc(db, 'components', componentId);
-      await updateDoc(docRef, {
-        ...componentData,
-        updatedAt: serverTimestamp()
-      });
+      const docSnap = await getDoc(doc(db, 'settings', 'lab'));
+      return docSnap.exists() ? (docSnap.data() as LabSettings) : null;
     } catch (error) {
-      console.error('Error updating component:', error);
+      console.error('Error getting settings:', error);
       throw error;
     }
   }
 
-  async deleteComponent(componentId: string): Promise<void> {
-    try {
-      const docRef = doc(db, 'components', componentId);
-      await deleteDoc(docRef);
-    } catch (error) {
-      console.error('Error deleting component:', error);
-      throw error;
+  // Writes one change. Created documents keep the id they were given locally. With an outbox entry the
+  // write lands together with a receipt under the entry's id, so replaying it twice changes nothing.
+  async write(mutation: EntityMutation, entry?: OutboxEntry): Promise<void> {
+    // Account administration is never queued; these writes query for related records, which a transaction cannot
+    switch (mutation.type) {
+      case 'adoptProfile':
+        return this.adoptLegacyProfile(mutation.profile, mutation.previousId);
+      case 'importUsers':
+        return this.importUsers(mutation.users);
+      case 'mergeUsers':
+        return this.mergeUsers(mutation.merged, mutation.duplicateId);
+      case 'setUserDeactivation':
+        return this.setUserDeactivation(mutation.userId, mutation.deactivation);
+      case 'deleteUser':
+        return this.deleteUser(mutation.userId);
+      case 'resolveSyncConflict':
+        return this.resolveSyncConflict(mutation.conflict, mutation.resolution, mutation.resolvedBy);
     }
+
+    await runTransaction(db, async (transaction) => {
+      const receiptRef = entry && doc(db, 'outboxReceipts', entry.id);
+      if (receiptRef && (await transaction.get(receiptRef)).exists()) return;
+
+      switch (mutation.type) {
+        case 'createRequest':
+          transaction.set(doc(db, 'requests', mutation.request.id), { ...mutation.request, createdAt: serverTimestamp(), ...versionStamp() });
+          break;
+        case 'updateRequest':
+          await this.applyUpdate(transaction, 'requests', mutation.requestId, mutation, entry);
+          break;
+        case 'createComponent':
+          transaction.set(doc(db, 'components', mutation.component.id), { ...mutation.component, createdAt: serverTimestamp(), ...versionStamp() });
+          break;
+        case 'updateComponent':
+          await this.applyUpdate(transaction, 'components', mutation.componentId, mutation, entry);
+          break;
+        case 'deleteComponent':
+          transaction.delete(doc(db, 'components', mutation.componentId));
+          break;
+        case 'joinWaitlist':
+        case 'leaveWaitlist':
+        case 'surfaceWaitlistEntry': {
+          const ref = doc(db, 'components', mutation.componentId);
+          const snap = await transaction.get(ref);
+          if (!snap.exists()) {
+            throw new Error(`components/${mutation.componentId} no longer exists`);
+          }
+          const waitlist = nextWaitlist(snap.data().waitlist, mutation);
+          if (waitlist) {
+            transaction.update(ref, { waitlist, ...versionStamp() });
+          }
+          break;
+        }
+        // Profiles are keyed by the Firebase Auth uid
+        case 'createUser':
+          transaction.set(doc(db, 'users', mutation.user.id), { ...mutation.user, createdAt: serverTimestamp(), ...versionStamp() });
+          break;
+        case 'updateUser':
+          await this.applyUpdate(transaction, 'users', mutation.userId, mutation, entry);
+          break;
+        case 'chargeReturn':
+        case 'adjustStanding':
+        case 'waivePenalty':
+        case 'liftSuspension': {
+          const ref = doc(db, 'users', mutation.userId);
+          const [snap, settings] = await Promise.all([transaction.get(ref), transaction.get(doc(db, 'settings', 'lab'))]);
+          if (!snap.exists()) {
+            throw new Error(`users/${mutation.userId} no longer exists`);
+          }
+          const penalties = { ...defaultLabSettings, ...settings.data() }.penalties;
+          const standing = nextStanding(snap.data().standing, mutation, penalties);
+          if (standing) {
+            transaction.update(ref, { standing, ...versionStamp() });
+          }
+          break;
+        }
+        case 'createNotification':
+          transaction.set(doc(db, 'notifications', mutation.notification.id), { ...mutation.notification, createdAt: serverTimestamp(), ...versionStamp() });
+          break;
+        case 'markNotificationRead':
+          transaction.update(doc(db, 'notifications', mutation.notificationId), { read: true, readAt: serverTimestamp(), ...versionStamp() });
+          break;
+        case 'updateSettings':
+          transaction.set(doc(db, 'settings', 'lab'), { ...mutation.settings, ...versionStamp() }, { merge: true });
+          break;
+        case 'createLoginSession':
+          transaction.set(doc(db, 'loginSessions', mutation.session.id), { ...mutation.session, createdAt: serverTimestamp(), ...versionStamp() });
+          break;
+        case 'updateLoginSession':
+          transaction.update(doc(db, 'loginSessions', mutation.sessionId), { ...mutation.changes, ...versionStamp() });
+          break;
+      }
+      if (entry && receiptRef) {
+        transaction.set(receiptRef, this.receiptFor(entry));
+      }
+    });
   }
-  async getAllComponents(): Promise<Component[]> {
+
+  // Stock transactions: the request and the stock it moves are read and written together
+  async transition(mutation: TransitionMutation, entry?: OutboxEntry): Promise<StockTransactionResult> {
     try {
-      const querySnapshot = await getDocs(collection(db, 'components'));
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Component[];
+      return await this.runStockTransaction(transitionRequestId(mutation), stored => planTransition(stored, mutation), entry);
     } catch (error) {
-      console.error('Error getting components:', error);
+      console.error(`Error running ${mutation.type}:`, error);
       throw error;
     }
   }
 
-  // Request management
-  async createRequest(request: BorrowRequest): Promise<string> {
-    try {
-      const docRef = await addDoc(collection(db, 'requests'), {
+  // With a receipt, the transaction is skipped if the receipt already exists and records it otherwise
+  private runStockTransaction(
+    requestId: string,
+    plan: (stored: BorrowRequest) => TransitionPlan,
+    receipt?: OutboxEntry
+  ): Promise<StockTransactionResult> {
+    return runTransaction(db, async (transaction) => {
+      const requestRef = doc(db, 'requests', requestId);
+      const receiptRef = receipt && doc(db, 'outboxReceipts', receipt.id);
+      const [requestSnap, receiptSnap] = await Promise.all([
+        transaction.get(requestRef),
+        receiptRef ? transaction.get(receiptRef) : Promise.resolve(null)
+      ]);
+      if (!requestSnap.exists()) {
+        throw new StockTransactionError('Request not found');
+      }
+
+      const stored = normalizeRequest({ id: requestSnap.id, ...requestSnap.data() } as BorrowRequest);
+      if (receiptSnap?.exists()) {
+        return { request: stored, components: [] };
+      }
+
+      const { request, changes } = plan(stored);
+
+      // Firestore requires every read to happen before the first write
+      const componentSnaps = await Promise.all(
+        Object.keys(changes).map(componentId => transaction.get(doc(db, 'components', componentId)))
+      );
+      const components = componentSnaps.map(snap => applyStockChange(
+        snap.exists() ? { id: snap.id, ...snap.data() } as Component : undefined,
+        changes[snap.id]
+      ));
+
+      components.forEach(component => {
+        transaction.update(doc(db, 'components', component.id), {
+          availableQuantity: component.availableQuantity,
+          totalQuantity: component.totalQuantity,
+          ...(component.writeOffs ? { writeOffs: component.writeOffs } : {}),
+          ...(component.units ? { units: component.units } : {}),
+          ...versionStamp()
+        });
+      });
+      transaction.update(requestRef, {
         ...request,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        ...versionStamp()
       });
-      return docRef.id;
-    } catch (error) {
-      console.error('Error creating request:', error);
-      throw error;
-    }
+      if (receipt && receiptRef) {
+        transaction.set(receiptRef, this.receiptFor(receipt));
+      }
+
+      return { request, components };
+    });
   }
 
-  async getRequest(requestId: string): Promise<BorrowRequest | null> {
-    try {
-      const docRef = doc(db, 'requests', requestId);
-      const docSnap = await getDoc(docRef);
-      
-      if (docSnap.exists()) {
-        return { id: docSnap.id, ...docSnap.data() } as BorrowRequest;
-      }
-      return null;
-    } catch (error) {
-      console.error('Error getting request:', error);
-      throw error;
-    }
+  private receiptFor(entry: OutboxEntry) {
+    return { userId: entry.userId, type: entry.mutation.type, queuedAt: entry.queuedAt, appliedAt: serverTimestamp() };
   }
 
-  async updateRequest(requestId: string, requestData: Partial<BorrowRequest>): Promise<void> {
-    try {
-      const docRef = doc(db, 'requests', requestId);
-      await updateDoc(docRef, {
-        ...requestData,
-        updatedAt: serverTimestamp()
-      });
-    } catch (error) {
-      console.error('Error updating request:', error);
-      throw error;
+  // Applies an update. If a queued change finds the record moved on since it was made, only what still
+  // merges is written and the rest is recorded in syncConflicts for staff to settle.
+  private async applyUpdate(
+    transaction: Transaction,
+    collectionName: ConflictCollection,
+    documentId: string,
+    { changes, base, baseRevision }: { changes: object } & ChangeBase<object>,
+    entry?: OutboxEntry
+  ): Promise<void> {
+    const ref = doc(db, collectionName, documentId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) {
+      throw new Error(`${collectionName}/${documentId} no longer exists`);
     }
-  }
 
-  async getAllRequests(): Promise<BorrowRequest[]> {
-    try {
-      const q = query(collection(db, 'requests'), orderBy('createdAt', 'desc'));
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as BorrowRequest[];
-    } catch (error) {
-      console.error('Error getting requests:', error);
-      throw error;
+    const current = snap.data();
+    const remoteRevision: number = current.revision || 0;
+    if (!base || remoteRevision === (baseRevision || 0)) {
+      transaction.update(ref, { ...changes, ...versionStamp() });
+      return;
     }
-  }
 
-  async getUserRequests(userId: string): Promise<BorrowRequest[]> {
-    try {
-      const q = query(
-        collection(db, 'requests'), 
-        where('studentId', '==', userId),
-        orderBy('createdAt', 'desc')
-      );
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as BorrowRequest[];
-    } catch (error) {
-      console.error('Error getting user requests:', error);
-      throw error;
+    const { merged, conflicts } = mergeChanges(collectionName, base as Record<string, unknown>, changes as Record<string, unknown>, current);
+    if (Object.keys(merged).length > 0) {
+      transaction.update(ref, { ...merged, ...versionStamp() });
+    }
+    if (conflicts.length > 0) {
+      const conflictRef = doc(collection(db, 'syncConflicts'));
+      const conflict: SyncConflict = {
+        id: conflictRef.id,
+        collection: collectionName,
+        documentId,
+        label: conflictLabel(collectionName, current),
+        fields: conflicts,
+        baseRevision: baseRevision || 0,
+        remoteRevision,
+        // Direct edits that clash are recorded against whoever made them
+        queuedBy: entry?.userId || auth.currentUser?.uid || '',
+        queuedAt: entry?.queuedAt || new Date().toISOString(),
+        detectedAt: new Date().toISOString()
+      };
+      transaction.set(conflictRef, conflict);
     }
   }
 
-  // Notification management
-  async createNotification(notification: Notification): Promise<string> {
-    try {
-      const docRef = await addDoc(collection(db, 'notifications'), {
-        ...notification,
-        createdAt: serverTimestamp()
+  // Writes the queued value of every field settled in its favour, unless the record changed again since
+  // the conflict was shown, and closes the conflict
+  private async resolveSyncConflict(conflict: SyncConflict, resolution: Record<string, 'local' | 'remote'>, resolvedBy: string): Promise<void> {
+    await runTransaction(db, async (transaction) => {
+      const ref = doc(db, conflict.collection, conflict.documentId);
+      const snap = await transaction.get(ref);
+      const accepted = conflict.fields.filter(field => resolution[field.field] === 'local');
+      if (accepted.length > 0) {
+        if (!snap.exists()) {
+          throw new Error('The record no longer exists');
+        }
+        const changed = accepted.find(field => JSON.stringify(snap.data()[field.field] ?? null) !== JSON.stringify(field.remote));
+        if (changed) {
+          throw new Error(`${changed.field} has changed again since this conflict was recorded`);
+        }
+        transaction.update(ref, {
+          ...Object.fromEntries(accepted.map(field => [field.field, field.local])),
+          ...versionStamp()
+        });
+      }
+      transaction.update(doc(db, 'syncConflicts', conflict.id), {
+        resolution,
+        resolvedBy,
+        resolvedAt: new Date().toISOString()
       });
-      return docRef.id;
-    } catch (error) {
-      console.error('Error creating notification:', error);
-      throw error;
-    }
+    });
   }
 
-  async getUserNotifications(userId: string): Promise<Notification[]> {
+  // Moves a profile saved under an auto-generated id to the owner's auth uid, together with their
+  // requests and notifications
+  private async adoptLegacyProfile(profile: User, previousId: string): Promise<void> {
     try {
-      const q = query(
-        collection(db, 'notifications'), 
-        where('userId', '==', userId),
-        orderBy('createdAt', 'desc')
-      );
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Notification[];
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'users', profile.id), { ...profile, ...versionStamp() });
+      batch.delete(doc(db, 'users', previousId));
+      await this.queueRekey(batch, previousId, profile.id);
+      await batch.commit();
     } catch (error) {
-      console.error('Error getting user notifications:', error);
+      console.error('Error adopting legacy profile:', error);
       throw error;
     }
   }
 
-  async markNotificationAsRead(notificationId: string): Promise<void> {
+  // Adds the writes that move a user's requests and notifications to another user id
+  private async queueRekey(batch: WriteBatch, fromId: string, toId: string): Promise<void> {
+    const [requests, notifications] = await Promise.all([
+      getDocs(query(collection(db, 'requests'), where('studentId', '==', fromId))),
+      getDocs(query(collection(db, 'notifications'), where('userId', '==', fromId)))
+    ]);
+    requests.docs.forEach(request => batch.update(request.ref, { studentId: toId }));
+    notifications.docs.forEach(notification => batch.update(notification.ref, { userId: toId }));
+  }
+
+  // Folds a duplicate registration into the kept profile: its requests, notifications, login sessions and
+  // waitlist places move over and the duplicate document is removed. Its Firebase Auth account is left
+  // without a profile, so it can no longer sign in.
+  private async mergeUsers(merged: User, duplicateId: string): Promise<void> {
     try {
-      const docRef = doc(db, 'notifications', notificationId);
-      await updateDoc(docRef, {
-        read: true,
-        readAt: serverTimestamp()
+      const [sessions, components] = await Promise.all([
+        getDocs(query(collection(db, 'loginSessions'), where('userId', '==', duplicateId))),
+        getDocs(collection(db, 'components'))
+      ]);
+
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'users', merged.id), { ...merged, ...versionStamp() });
+      batch.delete(doc(db, 'users', duplicateId));
+      await this.queueRekey(batch, duplicateId, merged.id);
+      sessions.docs.forEach(session => batch.update(session.ref, { userId: merged.id }));
+      components.docs.forEach(component => {
+        const waitlist = (component.data() as Component).waitlist || [];
+        if (waitlist.some(entry => entry.studentId === duplicateId)) {
+          batch.update(component.ref, {
+            waitlist: waitlist.map(entry => entry.studentId === duplicateId ? { ...entry, studentId: merged.id } : entry)
+          });
+        }
       });
+      await batch.commit();
     } catch (error) {
-      console.error('Error marking notification as read:', error);
+      console.error('Error merging users:', error);
       throw error;
     }
   }
 
-  // Login session management
-  async createLoginSession(session: LoginSession): Promise<string> {
+  // Roster profiles are written in batches, which Firestore caps at 500 writes
+  private async importUsers(users: User[]): Promise<void> {
     try {
-      const docRef = await addDoc(collection(db, 'loginSessions'), {
-        ...session,
-        createdAt: serverTimestamp()
-      });
-      return docRef.id;
+      for (let start = 0; start < users.length; start += 400) {
+        const batch = writeBatch(db);
+        users.slice(start, start + 400).forEach(user => batch.set(doc(db, 'users', user.id), {
+          ...user,
+          createdAt: serverTimestamp(),
+          ...versionStamp()
+        }));
+        await batch.commit();
+      }
     } catch (error) {
-      console.error('Error creating login session:', error);
+      console.error('Error importing users:', error);
       throw error;
     }
   }
 
-  async updateLoginSession(sessionId: string, sessionData: Partial<LoginSession>): Promise<void> {
+  // Pass null to reactivate the account
+  private async setUserDeactivation(userId: string, deactivation: Required<Pick<User, 'deactivatedAt' | 'deactivatedBy'>> | null): Promise<void> {
     try {
-      const docRef = doc(db, 'loginSessions', sessionId);
-      await updateDoc(docRef, {
-        ...sessionData,
-        updatedAt: serverTimestamp()
+      await updateDoc(doc(db, 'users', userId), {
+        deactivatedAt: deactivation ? deactivation.deactivatedAt : deleteField(),
+        deactivatedBy: deactivation ? deactivation.deactivatedBy : deleteField(),
+        ...versionStamp()
       });
     } catch (error) {
-      console.error('Error updating login session:', error);
+      console.error('Error updating account status:', error);
       throw error;
     }
   }
 
-  async getAllLoginSessions(): Promise<LoginSession[]> {
+  // Removes only the profile; past requests keep the student's name and roll number
+  private async deleteUser(userId: string): Promise<void> {
     try {
-      const q = query(collection(db, 'loginSessions'), orderBy('createdAt', 'desc'));
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as LoginSession[];
+      await deleteDoc(doc(db, 'users', userId));
     } catch (error) {
-      console.error('Error getting login sessions:', error);
+      console.error('Error deleting user:', error);
       throw error;
     }
   }
 
-  // Real-time listeners
-  onUsersChange(callback: (users: User[]) => void) {
-    return onSnapshot(collection(db, 'users'), (snapshot) => {
-      const users = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as User[];
-      callback(users);
-    });
-  }
-
-  onComponentsChange(callback: (components: Component[]) => void) {
-    return onSnapshot(collection(db, 'components'), (snapshot) => {
-      const components = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Component[];
-      callback(components);
-    });
-  }
-
-  onRequestsChange(callback: (requests: BorrowRequest[]) => void) {
-    const q = query(collection(db, 'requests'), orderBy('createdAt', 'desc'));
-    return onSnapshot(q, (snapshot) => {
-      const requests = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as BorrowRequest[];
-      callback(requests);
-    });
-  }
-
-  onUserNotificationsChange(userId: string, callback: (notifications: Notification[]) => void) {
-    const q = query(
-      collection(db, 'notifications'), 
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc')
-    );
-    return onSnapshot(q, (snapshot) => {
-      const notifications = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Notification[];
-      callback(notifications);
-    });
-  }
-
   // Batch operations
   async initializeDefaultData(): Promise<void> {
     try {
       const batch = writeBatch(db);
 
-      // Check if admin user exists
-      const adminUser = await this.getUserByEmail('admin@issacasimov.in');
-      if (!adminUser) {
-        // Create admin user
-        const adminRef = doc(collection(db, 'users'));
-        batch.set(adminRef, {
-          name: 'Administrator',
-          email: 'admin@issacasimov.in',
-          role: 'admin',
-          registeredAt: new Date().toISOString(),
-          loginCount: 0,
-          isActive: false,
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp()
-        });
-      }
+      // No admin profile is seeded here: admins are granted their role on the server, either as a
+      // custom claim or by setting role on their users/{uid} document from the console
 
       // Check if default components exist
-      const components = await this.getAllComponents();
-      if (components.length === 0) {
-        const defaultComponents = [
-          {
-            name: 'Arduino Uno R3',
-            totalQuantity: 25,
-            availableQuantity: 25,
-            category: 'Microcontroller',
-            description: 'Arduino Uno R3 development board'
-          },
-          {
-            name: 'L298N Motor Driver',
-            totalQuantity: 15,
-            availableQuantity: 15,
-            category: 'Motor Driver',
-            description: 'Dual H-Bridge Motor Driver'
-          },
-          {
-            name: 'Ultrasonic Sensor HC-SR04',
-            totalQuantity: 20,
-            availableQuantity: 20,
-            category: 'Sensor',
-            description: 'Ultrasonic distance sensor'
-          },
-          {
-            name: 'Servo Motor SG90',
-            totalQuantity: 30,
-            availableQuantity: 30,
-            category: 'Actuator',
-            description: '9g micro servo motor'
-          },
-          {
-            name: 'ESP32 Development Board',
-            totalQuantity: 12,
-            availableQuantity: 12,
-            category: 'Microcontroller',
-            description: 'WiFi and Bluetooth enabled microcontroller'
-          }
-        ];
-
+      const components = await getDocs(collection(db, 'components'));
+      if (components.empty) {
         defaultComponents.forEach(component => {
           const componentRef = doc(collection(db, 'components'));
           batch.set(componentRef, {
             ...component,
             id: componentRef.id,
             createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp()
+            ...versionStamp()
           });
         });
       }
@@ -493,36 +582,6 @@ class FirebaseService {
       throw error;
     }
   }
-
-  // Sync with local storage (for offline support)
-  async syncToLocal(): Promise<void> {
-    try {
-      const [users, components, requests, notifications, loginSessions] = await Promise.all([
-        this.getAllUsers(),
-        this.getAllComponents(),
-        this.getAllRequests(),
-        // Get all notifications (you might want to limit this)
-        getDocs(collection(db, 'notifications')).then(snapshot => 
-          snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Notification[]
-        ),
-        this.getAllLoginSessions()
-      ]);
-
-      const systemData: SystemData = {
-        users,
-        components,
-        requests,
-        notifications,
-        loginSessions
-      };
-
-      localStorage.setItem('isaacLabData', JSON.stringify(systemData));
-      localStorage.setItem('lastFirebaseSync', new Date().toISOString());
-    } catch (error) {
-      console.error('Error syncing to local storage:', error);
-      throw error;
-    }
-  }
 }
 
-export const firebaseService = FirebaseService.getInstance();
\ No newline at end of file
+export const firebaseService = FirebaseService.getInstance();
@@ -0,0 +1,15 @@
+import { firebaseService } from './firebaseService';
+import { StorageBackend } from './storageBackend';
+
+// Firestore, with its security rules, transactions and live listeners; the default backend
+export const firestoreBackend: StorageBackend = {
+  name: 'Firestore',
+  remote: true,
+  list: (collection, filter) => firebaseService.listDocuments(collection, filter),
+  get: (collection, id) => firebaseService.getDocument(collection, id),
+  getSettings: () => firebaseService.getSettings(),
+  write: (mutation, entry) => firebaseService.write(mutation, entry),
+  transition: (mutation, entry) => firebaseService.transition(mutation, entry),
+  watch: (collection, filter, callback, onError) => firebaseService.watchDocuments(collection, filter, callback, onError),
+  initialize: () => firebaseService.initializeDefaultData(),
+};
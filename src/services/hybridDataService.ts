@@ -1,11 +1,42 @@
 import { dataService } from './dataService';
 import { firebaseService } from './firebaseService';
-import { User, Component, BorrowRequest, Notification, LoginSession, SystemStats } from '../types';
+import { User as FirebaseUser } from 'firebase/auth';
+import { User, UserRole, Component, BorrowRequest, Notification, LoginSession, SystemStats, LabSettings, StockTransactionResult, ReturnRecord, LoanExtension, ExtensionReview, StudentStanding, SyncConflict, SystemData } from '../types';
+import { RequestTransitionError } from '../utils/requestLifecycle';
+import { ExtensionLimits } from '../utils/loanExtensions';
+import { Permission, PermissionError, can, isStaff, staffNotifications, staffRoles } from '../utils/permissions';
+import { AccountDeactivatedError, RosterEntry, isDeactivated, mergeProfiles, rosterProfile } from '../utils/userAccounts';
+import { isOpenLoan } from '../utils/requestLifecycle';
+import { EntityMutation, OutboxEntry, OutboxMutation, TransitionMutation, changeBase, isTransition } from '../utils/outbox';
+import { conflictPermissions, mergeChanges } from '../utils/conflicts';
+import { defaultLabSettings } from '../utils/labSettings';
+import { WaitlistMutation } from '../utils/waitlist';
+import { StandingMutation } from '../utils/standing';
+import { outboxService } from './outboxService';
+import { StorageBackend, createStorageBackend } from './storageBackend';
+
+const getErrorCode = (error: unknown): string => (error as { code?: string })?.code || '';
+
+// How often backends that cannot push changes are read again while the app is open
+const POLL_INTERVAL_MS = 30000;
+
+// Failures worth retrying later, from Firebase Auth or the storage backend
+const isNetworkError = (error: unknown): boolean =>
+  ['auth/network-request-failed', 'unavailable', 'deadline-exceeded'].includes(getErrorCode(error)) || !navigator.onLine;
 
 class HybridDataService {
   private static instance: HybridDataService;
-  private useFirebase: boolean = true;
+  private backend: StorageBackend = createStorageBackend();
+  private useBackend: boolean = true;
   private isOnline: boolean = navigator.onLine;
+  // The signed-in user, whose role decides which staff operations are allowed
+  private actor: User | null = null;
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
+  // Backend listeners for the signed-in user, keyed by who they were opened for
+  private liveUpdates: (() => void)[] = [];
+  private liveUpdatesFor: string | null = null;
+  // Snapshots that arrived while offline changes were still uploading, applied once the outbox drains
+  private deferredLiveUpdates = new Map<keyof SystemData, () => void>();
 
   static getInstance(): HybridDataService {
     if (!HybridDataService.instance) {
@@ -16,7 +47,28 @@ class HybridDataService {
 
   constructor() {
     this.setupOnlineListener();
-    this.initializeFirebase();
+    this.initializeBackend();
+  }
+
+  setActor(user: User | null): void {
+    this.actor = user;
+    this.startLiveUpdates(user);
+    if (user && this.canReachBackend()) {
+      this.flushOutbox().catch(error => {
+        console.error('Error replaying queued changes:', error);
+      });
+    }
+  }
+
+  // Throws unless the signed-in user's role grants at least one of the permissions
+  private authorize(...permissions: Permission[]): void {
+    if (!permissions.some(permission => can(this.actor, permission))) {
+      throw new PermissionError('Your role does not allow this action');
+    }
+  }
+
+  allows(permission: Permission): boolean {
+    return can(this.actor, permission);
   }
 
   private setupOnlineListener() {
@@ -30,181 +82,667 @@ class HybridDataService {
     });
   }
 
-  private async initializeFirebase() {
+  // Backends on this device are reachable offline too
+  private canReachBackend(): boolean {
+    return this.useBackend && (this.isOnline || !this.backend.remote);
+  }
+
+  private async initializeBackend() {
     try {
-      if (this.isOnline) {
-        await firebaseService.initializeDefaultData();
-        await firebaseService.syncToLocal();
+      if (this.canReachBackend()) {
+        await this.backend.initialize?.();
+        await this.syncToLocal();
       }
     } catch (error) {
-      console.error('Firebase initialization failed, falling back to local storage:', error);
-      this.useFirebase = false;
+      // Security rules refuse these reads before sign-in and for students, which says nothing about the backend itself
+      if (getErrorCode(error) === 'permission-denied') return;
+      console.error(`${this.backend.name} initialization failed, falling back to local storage:`, error);
+      this.useBackend = false;
     }
   }
 
   private async syncWhenOnline() {
-    if (this.isOnline && this.useFirebase) {
+    if (this.canReachBackend()) {
       try {
-        await firebaseService.syncToLocal();
+        await this.flushOutbox();
+        await this.syncToLocal();
       } catch (error) {
         console.error('Sync failed:', error);
       }
     }
   }
 
+  // Downloading replaces the local copy, so it waits until no change made offline is left to upload
+  private async syncToLocal() {
+    await dataService.ready;
+    if (await this.hasQueuedChanges()) return;
+
+    const [users, components, requests, notifications, loginSessions] = await Promise.all([
+      this.backend.list('users'),
+      this.backend.list('components'),
+      this.backend.list('requests'),
+      this.backend.list('notifications'),
+      this.backend.list('loginSessions')
+    ]);
+    localStorage.setItem('lastBackendSync', new Date().toISOString());
+    dataService.saveData({ users, components, requests, notifications, loginSessions });
+  }
+
+  // Listens to what the user's role may read, so request queues, stock and notifications stay current
+  // without reloading. Students only see their own requests and notifications. Backends that cannot
+  // push changes are read again every POLL_INTERVAL_MS instead.
+  private startLiveUpdates(user: User | null) {
+    const key = user && this.useBackend ? `${user.id}:${user.role}` : null;
+    if (key === this.liveUpdatesFor) return;
+    this.liveUpdates.forEach(unsubscribe => unsubscribe());
+    this.liveUpdates = [];
+    this.deferredLiveUpdates.clear();
+    this.liveUpdatesFor = key;
+    if (!user || !key) return;
+
+    const { watch } = this.backend;
+    if (!watch) {
+      const timer = setInterval(() => {
+        if (!this.canReachBackend()) return;
+        this.syncToLocal().catch(error => {
+          console.error('Error refreshing from the backend:', error);
+        });
+      }, POLL_INTERVAL_MS);
+      this.liveUpdates = [() => clearInterval(timer)];
+      return;
+    }
+
+    const onError = (error: Error) => {
+      console.error('Live update listener failed:', error);
+    };
+    const staff = isStaff(user);
+    this.liveUpdates = [
+      watch('components', undefined, components => this.applyLiveUpdate('components', components), onError),
+      staff
+        ? watch('requests', undefined, requests => this.applyLiveUpdate('requests', requests), onError)
+        : watch('requests', { studentId: user.id }, requests => this.applyLiveUpdate('requests', requests, r => r.studentId === user.id), onError),
+      watch('notifications', { userId: user.id }, notifications => this.applyLiveUpdate('notifications', notifications, n => n.userId === user.id), onError),
+      ...(staff ? [watch('users', undefined, users => this.applyLiveUpdate('users', users), onError)] : []),
+      ...(can(user, 'view_analytics') ? [watch('loginSessions', undefined, sessions => this.applyLiveUpdate('loginSessions', sessions), onError)] : []),
+    ];
+  }
+
+  // Like syncToLocal, a snapshot waits while changes made offline are uploading, since it would hide them
+  private applyLiveUpdate<K extends keyof SystemData>(key: K, records: SystemData[K], scope?: (record: SystemData[K][number]) => boolean) {
+    const apply = () => dataService.replaceCollection(key, records, scope);
+    dataService.ready.then(() => this.hasQueuedChanges()).then(pending => {
+      if (pending) {
+        this.deferredLiveUpdates.set(key, apply);
+      } else {
+        this.deferredLiveUpdates.delete(key);
+        apply();
+      }
+    });
+  }
+
+  // Live view of the local copy: called now, then after every change from this device or a listener
+  subscribe(listener: (data: SystemData) => void): () => void {
+    listener(dataService.getData());
+    return dataService.subscribe(listener);
+  }
+
+  // Replays the signed-in user's queued changes in order, then tries again after a backoff if any are left
+  private async flushOutbox() {
+    const userId = firebaseService.getCurrentUserId();
+    if (!userId) return;
+
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+    const retryIn = await outboxService.replay(userId, entry => this.replay(entry), isNetworkError);
+    if (retryIn !== null) {
+      this.replayTimer = setTimeout(() => this.syncWhenOnline(), retryIn);
+    } else if (!(await this.hasQueuedChanges())) {
+      this.deferredLiveUpdates.forEach(apply => apply());
+      this.deferredLiveUpdates.clear();
+    }
+  }
+
+  private async replay(entry: OutboxEntry): Promise<void> {
+    const { mutation } = entry;
+    if (isTransition(mutation)) {
+      await this.backend.transition(mutation, entry);
+    } else {
+      await this.backend.write(mutation, entry);
+    }
+  }
+
+  // Only the signed-in user's queue counts: flushOutbox never replays anyone else's, so entries another
+  // user left on a shared device must not hold this one up
+  private async hasQueuedChanges(): Promise<boolean> {
+    const userId = firebaseService.getCurrentUserId();
+    return !!userId && outboxService.hasPending(userId).catch(() => false);
+  }
+
+  // Changes queue while the backend is out of reach, and behind earlier queued changes so they reach it in order
+  private async shouldQueue(): Promise<boolean> {
+    return !this.canReachBackend() || this.hasQueuedChanges();
+  }
+
+  private async enqueue(mutation: OutboxMutation): Promise<void> {
+    await outboxService.enqueue(this.actor?.id || '', this.withBase(mutation));
+  }
+
+  // Updates note what they were made against, read from the cache before the change is applied to it
+  // unless the caller already says
+  private withBase(mutation: OutboxMutation): OutboxMutation {
+    if ('base' in mutation && mutation.base) return mutation;
+    switch (mutation.type) {
+      case 'updateRequest':
+        return { ...mutation, ...changeBase(dataService.getRequests().find(r => r.id === mutation.requestId), mutation.changes) };
+      case 'updateComponent':
+        return { ...mutation, ...changeBase(dataService.getComponents().find(c => c.id === mutation.componentId), mutation.changes) };
+      case 'updateUser':
+        return { ...mutation, ...changeBase(dataService.getUserById(mutation.userId), mutation.changes) };
+      default:
+        return mutation;
+    }
+  }
+
+  // Sends the write to the backend now, or queues it for replay when the backend cannot be reached. A refusal
+  // reaches the caller, which then leaves the copy on this device as it was.
+  private async pushToBackend(mutation: EntityMutation): Promise<void> {
+    if (!this.useBackend) return;
+    if (!(await this.shouldQueue())) {
+      try {
+        await this.backend.write(mutation);
+        return;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.error(`${this.backend.name} unreachable, queueing change:`, error);
+      }
+    }
+    await this.enqueue(mutation);
+  }
+
+  // For writes that are not queued: skipped while the backend is out of reach, and a refusal reaches the caller
+  private async writeNow(mutation: EntityMutation): Promise<void> {
+    if (this.canReachBackend()) {
+      await this.backend.write(mutation);
+    }
+  }
+
   // User operations
   async addUser(user: User): Promise<void> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseId = await firebaseService.createUser(user);
-        user.id = firebaseId;
-      }
-      dataService.addUser(user);
+      await this.writeNow({ type: 'createUser', user });
     } catch (error) {
+      if (!isNetworkError(error)) throw error;
       console.error('Error adding user:', error);
-      // Fallback to local storage
-      dataService.addUser(user);
     }
+    dataService.addUser(user);
   }
 
-  async updateUser(user: User): Promise<void> {
-    try {
-      if (this.isOnline && this.useFirebase) {
-        await firebaseService.updateUser(user.id, user);
-      }
-      dataService.updateUser(user);
-    } catch (error) {
-      console.error('Error updating user:', error);
-      // Fallback to local storage
-      dataService.updateUser(user);
-    }
+  // Writes only the changed fields, so a stale copy of the profile cannot overwrite its role or standing
+  async updateUser(user: User, changes: Partial<User>): Promise<User> {
+    const updated = { ...user, ...changes };
+    await this.pushToBackend({ type: 'updateUser', userId: user.id, changes });
+    dataService.cacheUser(updated);
+    return updated;
   }
 
   async getUser(email: string): Promise<User | undefined> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseUser = await firebaseService.getUserByEmail(email);
-        if (firebaseUser) {
-          return firebaseUser;
+      if (this.canReachBackend()) {
+        const storedUser = await this.findUserByEmail(email);
+        if (storedUser) {
+          return storedUser;
         }
       }
     } catch (error) {
-      console.error('Error getting user from Firebase:', error);
+      console.error('Error getting user from the backend:', error);
     }
     
     return dataService.getUser(email);
   }
 
-  async authenticateUser(email: string, password: string): Promise<User | null> {
+  async getUserById(userId: string): Promise<User | undefined> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        // Try Firebase authentication first
-        const firebaseUser = await firebaseService.signIn(email, password);
-        if (firebaseUser) {
-          const userData = await firebaseService.getUserByEmail(email);
-          if (userData) {
-            // Update local data
-            dataService.updateUser(userData);
-            return userData;
-          }
+      if (this.canReachBackend()) {
+        const storedUser = await this.backend.get('users', userId);
+        if (storedUser) {
+          return storedUser;
         }
       }
     } catch (error) {
-      console.error('Firebase authentication failed, trying local:', error);
+      console.error('Error getting user from the backend:', error);
     }
 
-    // Fallback to local authentication
-    return dataService.authenticateUser(email, password);
+    return dataService.getUserById(userId);
   }
 
-  // Component operations
-  async getComponents(): Promise<Component[]> {
+  async getUsers(): Promise<User[]> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseComponents = await firebaseService.getAllComponents();
-        if (firebaseComponents.length > 0) {
-          return firebaseComponents;
+      if (this.canReachBackend()) {
+        const storedUsers = await this.backend.list('users');
+        if (storedUsers.length > 0) {
+          return storedUsers;
         }
       }
     } catch (error) {
-      console.error('Error getting components from Firebase:', error);
+      console.error('Error getting users from the backend:', error);
     }
 
-    return dataService.getComponents();
+    return dataService.getUsers();
   }
 
-  async updateComponent(component: Component): Promise<void> {
+  async getStaff(): Promise<User[]> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        await firebaseService.updateComponent(component.id, component);
+      if (this.canReachBackend()) {
+        const storedStaff = await this.backend.list('users', { role: staffRoles });
+        if (storedStaff.length > 0) {
+          return storedStaff;
+        }
       }
-      dataService.updateComponent(component);
     } catch (error) {
-      console.error('Error updating component:', error);
-      dataService.updateComponent(component);
+      console.error('Error getting staff from the backend:', error);
     }
+
+    return dataService.getStaff();
   }
 
-  async addComponent(component: Component): Promise<void> {
+  async setUserRole(user: User, role: UserRole): Promise<User> {
+    this.authorize('manage_users');
+    const updated = { ...user, role };
+    try {
+      await this.writeNow({ type: 'updateUser', userId: user.id, changes: { role } });
+    } catch (error) {
+      console.error('Error updating role:', error);
+      throw error;
+    }
+    dataService.cacheUser(updated);
+    return updated;
+  }
+
+  // Account administration. Like role changes, these are refused outright when the backend rejects them
+  async updateProfile(user: User, details: Pick<User, 'name' | 'rollNo' | 'mobile'>): Promise<User> {
+    this.authorize('manage_users');
+    const updated = { ...user, ...details };
+    try {
+      await this.writeNow({ type: 'updateUser', userId: user.id, changes: details });
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      throw error;
+    }
+    dataService.cacheUser(updated);
+    return updated;
+  }
+
+  async setUserActive(user: User, active: boolean, actorName: string): Promise<User> {
+    this.authorize('manage_users');
+    const deactivation = active ? null : { deactivatedAt: new Date().toISOString(), deactivatedBy: actorName };
+    try {
+      await this.writeNow({ type: 'setUserDeactivation', userId: user.id, deactivation });
+    } catch (error) {
+      console.error('Error updating account status:', error);
+      throw error;
+    }
+
+    const updated: User = { ...user, ...deactivation };
+    if (!deactivation) {
+      delete updated.deactivatedAt;
+      delete updated.deactivatedBy;
+    }
+    dataService.cacheUser(updated);
+    return updated;
+  }
+
+  // Sent on the user's behalf from the user-management screen, for staff and students alike
+  async sendAccountPasswordReset(user: User): Promise<void> {
+    this.authorize('manage_users');
+    await firebaseService.sendPasswordReset(user.email);
+  }
+
+  // Profiles for students on a class roster, taken over when each of them registers with the same email
+  async importRoster(entries: RosterEntry[]): Promise<User[]> {
+    this.authorize('manage_users');
+    const importedAt = new Date().toISOString();
+    const users = entries.map(entry => rosterProfile(entry, importedAt));
+    try {
+      await this.writeNow({ type: 'importUsers', users });
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      throw error;
+    }
+    users.forEach(user => dataService.cacheUser(user));
+    return users;
+  }
+
+  // Keeps the first profile and moves everything recorded against the duplicate onto it
+  async mergeUsers(keep: User, duplicate: User): Promise<User> {
+    this.authorize('manage_users');
+    const merged = mergeProfiles(keep, duplicate);
+    try {
+      await this.writeNow({ type: 'mergeUsers', merged, duplicateId: duplicate.id });
+    } catch (error) {
+      console.error('Error merging users:', error);
+      throw error;
+    }
+    dataService.mergeUsers(merged, duplicate.id);
+    return merged;
+  }
+
+  // Accounts with components still reserved or out cannot be deleted; deactivate them instead
+  async deleteUser(user: User): Promise<void> {
+    this.authorize('manage_users');
+    const requests = await this.getUserRequests(user.id);
+    if (requests.some(isOpenLoan)) {
+      throw new Error(`${user.name} still has components reserved or on loan`);
+    }
+
+    try {
+      await this.writeNow({ type: 'deleteUser', userId: user.id });
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    }
+    dataService.deleteUser(user.id);
+  }
+
+  // Conflicts left by offline changes, limited to the records the signed-in role manages
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    if (!this.canReachBackend()) return [];
+    const conflicts = await this.backend.list('syncConflicts');
+    return conflicts
+      .filter(conflict => can(this.actor, conflictPermissions[conflict.collection]))
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }
+
+  async resolveSyncConflict(conflict: SyncConflict, resolution: Record<string, 'local' | 'remote'>): Promise<void> {
+    this.authorize(conflictPermissions[conflict.collection]);
+    if (!this.canReachBackend()) {
+      throw new Error('Conflicts can only be resolved while online');
+    }
+    await this.backend.write({ type: 'resolveSyncConflict', conflict, resolution, resolvedBy: this.actor?.name || 'Unknown' });
+    await this.syncToLocal();
+  }
+
+  // Applied to the standing as stored, so a return and an adjustment saved at the same time both count
+  // Returns charge penalty points, so staff who take returns may write standing as well
+  async changeStanding(mutation: StandingMutation): Promise<StudentStanding | undefined> {
+    this.authorize('manage_standing', 'manage_returns');
+    await this.pushToBackend(mutation);
+    return dataService.changeStanding(mutation);
+  }
+
+  // Identity comes from Firebase Auth alone. Without a connection, only a sign-in Firebase verified
+  // earlier on this device is accepted.
+  async signIn(email: string, password: string): Promise<User | null> {
+    let profile: User | null;
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseId = await firebaseService.createComponent(component);
-        component.id = firebaseId;
+      const firebaseUser = await firebaseService.signIn(email, password);
+      profile = firebaseUser && await this.loadProfile(firebaseUser);
+      if (profile) {
+        await dataService.cacheVerifiedSession(email, password, profile);
+      } else {
+        // An account without a lab profile cannot use the app
+        await firebaseService.signOut();
       }
-      dataService.addComponent(component);
     } catch (error) {
-      console.error('Error adding component:', error);
-      dataService.addComponent(component);
+      if (!isNetworkError(error)) return null;
+      profile = await dataService.authenticateOffline(email, password);
     }
+
+    if (profile && isDeactivated(profile)) {
+      await firebaseService.signOut();
+      throw new AccountDeactivatedError();
+    }
+    if (profile) {
+      await this.recordLogin(profile);
+    }
+    return profile;
   }
 
-  async deleteComponent(componentId: string): Promise<void> {
+  // Creates the Firebase account and its student profile; fails as a whole if either step does
+  async register(details: Omit<User, 'id' | 'role'>, password: string): Promise<User> {
+    const firebaseUser = await firebaseService.signUp(details.email, password);
+    if (!firebaseUser) {
+      throw new Error('Account could not be created');
+    }
+
+    let user: User = { ...details, id: firebaseUser.uid, role: 'student' };
     try {
-      if (this.isOnline && this.useFirebase) {
-        await firebaseService.deleteComponent(componentId);
+      // Students added from a class roster already have a profile waiting under their email
+      const roster = await this.findUserByEmail(details.email);
+      if (roster?.invited) {
+        user = await this.adoptProfile({ ...roster, ...details, invited: false }, firebaseUser.uid);
+      } else {
+        await this.backend.write({ type: 'createUser', user });
       }
-      dataService.deleteComponent(componentId);
     } catch (error) {
-      console.error('Error deleting component:', error);
-      dataService.deleteComponent(componentId);
+      await firebaseUser.delete().catch(deleteError => {
+        console.error('Error removing account without a profile:', deleteError);
+      });
+      throw error;
     }
+
+    await firebaseService.sendVerificationEmail().catch(error => {
+      console.error('Error sending verification email:', error);
+    });
+    await dataService.cacheVerifiedSession(details.email, password, user);
+    return user;
   }
-  // Request operations
-  async addRequest(request: BorrowRequest): Promise<void> {
+
+  // The profile stored at users/{uid}, with the role from the token's claim when one is set. Falls back
+  // to the copy cached at the last verified sign-in when the backend cannot be reached.
+  async loadProfile(firebaseUser: FirebaseUser): Promise<User | null> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseId = await firebaseService.createRequest(request);
-        request.id = firebaseId;
+      let profile = await this.backend.get('users', firebaseUser.uid);
+      if (!profile && firebaseUser.email) {
+        const legacy = await this.findUserByEmail(firebaseUser.email);
+        if (legacy) {
+          profile = await this.adoptProfile(legacy, firebaseUser.uid);
+        }
       }
-      dataService.addRequest(request);
+      if (!profile) return null;
+
+      const role = await firebaseService.getRoleClaim(firebaseUser);
+      const verified = role ? { ...profile, role } : profile;
+      dataService.cacheUser(verified);
+      return verified;
     } catch (error) {
-      console.error('Error adding request:', error);
-      dataService.addRequest(request);
+      console.error('Error loading profile from the backend:', error);
+      return dataService.getUserById(firebaseUser.uid) || null;
     }
   }
 
-  async updateRequest(request: BorrowRequest): Promise<void> {
+  private async findUserByEmail(email: string): Promise<User | null> {
+    const [user] = await this.backend.list('users', { email });
+    return user || null;
+  }
+
+  // Moves a profile saved under another id to the owner's auth uid. The role is not carried over from
+  // the old client-written document.
+  private async adoptProfile(legacy: User, uid: string): Promise<User> {
+    const profile: User = { ...legacy, id: uid, role: 'student' };
+    await this.backend.write({ type: 'adoptProfile', profile, previousId: legacy.id });
+    return profile;
+  }
+
+  // Writes only the login statistics, never the role
+  private async recordLogin(user: User): Promise<void> {
+    const stats: Partial<User> = {
+      lastLoginAt: new Date().toISOString(),
+      loginCount: (user.loginCount || 0) + 1,
+      isActive: true
+    };
+    try {
+      await this.pushToBackend({ type: 'updateUser', userId: user.id, changes: stats });
+      dataService.cacheUser({ ...user, ...stats });
+    } catch (error) {
+      console.error('Error recording login:', error);
+    }
+    await this.createLoginSession(user);
+  }
+
+  // Component operations
+  async getComponents(): Promise<Component[]> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        await firebaseService.updateRequest(request.id, request);
+      if (this.canReachBackend()) {
+        const storedComponents = await this.backend.list('components');
+        if (storedComponents.length > 0) {
+          return storedComponents;
+        }
       }
-      dataService.updateRequest(request);
     } catch (error) {
-      console.error('Error updating request:', error);
-      dataService.updateRequest(request);
+      console.error('Error getting components from the backend:', error);
+    }
+
+    return dataService.getComponents();
+  }
+
+  // changes holds only the edited fields and component the copy they were made against, so stock that
+  // approvals and returns moved in the meantime is merged rather than overwritten
+  async updateComponent(component: Component, changes: Partial<Component>): Promise<void> {
+    this.authorize('manage_inventory');
+    const base = changeBase(component, changes);
+    await this.pushToBackend({ type: 'updateComponent', componentId: component.id, changes, ...base });
+
+    const stored = dataService.getComponents().find(c => c.id === component.id);
+    if (stored) {
+      const { merged } = mergeChanges('components', base.base || {}, changes, stored as unknown as Record<string, unknown>);
+      dataService.updateComponent({ ...stored, ...merged });
+    }
+  }
+
+  async addComponent(component: Component): Promise<void> {
+    this.authorize('manage_inventory');
+    await this.pushToBackend({ type: 'createComponent', component: { ...component } });
+    dataService.addComponent(component);
+  }
+
+  async deleteComponent(componentId: string): Promise<void> {
+    this.authorize('manage_inventory');
+    await this.pushToBackend({ type: 'deleteComponent', componentId });
+    dataService.deleteComponent(componentId);
+  }
+
+  // Joins, removals and notices are applied to the queue as stored, so students joining at the same time
+  // all keep their place
+  async changeWaitlist(mutation: WaitlistMutation): Promise<void> {
+    await this.pushToBackend(mutation);
+    dataService.changeWaitlist(mutation);
+  }
+
+  // Request operations
+  async addRequest(request: BorrowRequest): Promise<void> {
+    await this.pushToBackend({ type: 'createRequest', request: { ...request } });
+    dataService.addRequest(request);
+  }
+
+  // For details only; status changes go through the lifecycle transactions below
+  async updateRequest(request: BorrowRequest): Promise<void> {
+    const stored = dataService.getRequests().find(r => r.id === request.id);
+    if (stored && stored.status !== request.status) {
+      throw new RequestTransitionError('Request status can only change through a review, pickup, expiry or return');
     }
+
+    await this.pushToBackend({ type: 'updateRequest', requestId: request.id, changes: request });
+    dataService.updateRequest(request);
+  }
+
+  // Writes only the reminder log, so it cannot overwrite a transition saved at the same time
+  async recordReminders(request: BorrowRequest, remindersSent: string[]): Promise<void> {
+    await this.pushToBackend({ type: 'updateRequest', requestId: request.id, changes: { remindersSent } });
+
+    const stored = dataService.getRequests().find(r => r.id === request.id);
+    if (stored) {
+      dataService.updateRequest({ ...stored, remindersSent });
+    }
+  }
+
+  // Status changes follow the request lifecycle and move stock, so each runs as a transaction. A refused
+  // transaction is rethrown rather than retried against the local copy.
+  async reviewRequest(request: BorrowRequest): Promise<StockTransactionResult> {
+    this.authorize('review_requests');
+    return this.runStockTransaction(
+      { type: 'reviewRequest', request },
+      () => dataService.reviewRequest(request)
+    );
+  }
+
+  async checkOutRequest(requestId: string, checkedOutBy: string): Promise<StockTransactionResult> {
+    this.authorize('manage_returns');
+    const checkedOutAt = new Date().toISOString();
+    return this.runStockTransaction(
+      { type: 'checkOutRequest', requestId, checkedOutAt, checkedOutBy },
+      () => dataService.checkOutRequest(requestId, checkedOutAt, checkedOutBy)
+    );
+  }
+
+  async expireRequest(requestId: string): Promise<StockTransactionResult> {
+    this.authorize('review_requests');
+    const expiredAt = new Date().toISOString();
+    return this.runStockTransaction(
+      { type: 'expireRequest', requestId, expiredAt },
+      () => dataService.expireRequest(requestId, expiredAt)
+    );
+  }
+
+  async requestExtension(requestId: string, extension: LoanExtension, limits: ExtensionLimits): Promise<StockTransactionResult> {
+    return this.runStockTransaction(
+      { type: 'requestExtension', requestId, extension, limits },
+      () => dataService.requestExtension(requestId, extension, limits)
+    );
+  }
+
+  async reviewExtension(requestId: string, review: ExtensionReview, limits: ExtensionLimits): Promise<StockTransactionResult> {
+    this.authorize('review_requests');
+    return this.runStockTransaction(
+      { type: 'reviewExtension', requestId, review, limits },
+      () => dataService.reviewExtension(requestId, review, limits)
+    );
+  }
+
+  async returnRequest(requestId: string, record: ReturnRecord): Promise<StockTransactionResult> {
+    this.authorize('manage_returns');
+    return this.runStockTransaction(
+      { type: 'returnRequest', requestId, record },
+      () => dataService.returnRequest(requestId, record)
+    );
+  }
+
+  // Offline, the transaction runs against the local copy and is queued to run again in the backend. Anything
+  // a reachable backend refuses reaches the caller and leaves the local copy alone.
+  private async runStockTransaction(
+    mutation: TransitionMutation,
+    local: () => StockTransactionResult
+  ): Promise<StockTransactionResult> {
+    if (this.useBackend && !(await this.shouldQueue())) {
+      try {
+        const result = await this.backend.transition(mutation);
+        result.components.forEach(component => dataService.updateComponent(component));
+        dataService.updateRequest(result.request);
+        return result;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.error(`${this.backend.name} unreachable, queueing stock transaction:`, error);
+      }
+    }
+
+    const result = local();
+    if (this.useBackend) {
+      await this.enqueue(mutation);
+    }
+    return result;
   }
 
   async getRequests(): Promise<BorrowRequest[]> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseRequests = await firebaseService.getAllRequests();
-        if (firebaseRequests.length > 0) {
-          return firebaseRequests;
+      if (this.canReachBackend()) {
+        const storedRequests = await this.backend.list('requests');
+        if (storedRequests.length > 0) {
+          return storedRequests;
         }
       }
     } catch (error) {
-      console.error('Error getting requests from Firebase:', error);
+      console.error('Error getting requests from the backend:', error);
     }
 
     return dataService.getRequests();
@@ -212,14 +750,14 @@ class HybridDataService {
 
   async getUserRequests(userId: string): Promise<BorrowRequest[]> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseRequests = await firebaseService.getUserRequests(userId);
-        if (firebaseRequests.length > 0) {
-          return firebaseRequests;
+      if (this.canReachBackend()) {
+        const storedRequests = await this.backend.list('requests', { studentId: userId });
+        if (storedRequests.length > 0) {
+          return storedRequests;
         }
       }
     } catch (error) {
-      console.error('Error getting user requests from Firebase:', error);
+      console.error('Error getting user requests from the backend:', error);
     }
 
     return dataService.getUserRequests(userId);
@@ -227,43 +765,36 @@ class HybridDataService {
 
   // Notification operations
   async addNotification(notification: Notification): Promise<void> {
-    try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseId = await firebaseService.createNotification(notification);
-        notification.id = firebaseId;
-      }
-      dataService.addNotification(notification);
-    } catch (error) {
-      console.error('Error adding notification:', error);
-      dataService.addNotification(notification);
+    await this.pushToBackend({ type: 'createNotification', notification: { ...notification } });
+    dataService.addNotification(notification);
+  }
+
+  // Sends a copy to every staff member whose role includes the permission
+  async notifyStaff(permission: Permission, notice: Omit<Notification, 'userId'>): Promise<void> {
+    const staff = await this.getStaff();
+    for (const notification of staffNotifications(staff, permission, notice)) {
+      await this.addNotification(notification);
     }
   }
 
   async getUserNotifications(userId: string): Promise<Notification[]> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseNotifications = await firebaseService.getUserNotifications(userId);
-        if (firebaseNotifications.length > 0) {
-          return firebaseNotifications;
+      if (this.canReachBackend()) {
+        const storedNotifications = await this.backend.list('notifications', { userId });
+        if (storedNotifications.length > 0) {
+          return storedNotifications;
         }
       }
     } catch (error) {
-      console.error('Error getting notifications from Firebase:', error);
+      console.error('Error getting notifications from the backend:', error);
     }
 
     return dataService.getUserNotifications(userId);
   }
 
   async markNotificationAsRead(notificationId: string): Promise<void> {
-    try {
-      if (this.isOnline && this.useFirebase) {
-        await firebaseService.markNotificationAsRead(notificationId);
-      }
-      dataService.markNotificationAsRead(notificationId);
-    } catch (error) {
-      console.error('Error marking notification as read:', error);
-      dataService.markNotificationAsRead(notificationId);
-    }
+    await this.pushToBackend({ type: 'markNotificationRead', notificationId });
+    dataService.markNotificationAsRead(notificationId);
   }
 
   // Login session operations
@@ -271,12 +802,9 @@ class HybridDataService {
     const session = dataService.createLoginSession(user);
     
     try {
-      if (this.isOnline && this.useFirebase) {
-        const firebaseId = await firebaseService.createLoginSession(session);
-        session.id = firebaseId;
-      }
+      await this.writeNow({ type: 'createLoginSession', session });
     } catch (error) {
-      console.error('Error creating login session in Firebase:', error);
+      console.error('Error creating login session in the backend:', error);
     }
 
     return session;
@@ -284,16 +812,19 @@ class HybridDataService {
 
   async endLoginSession(userId: string): Promise<void> {
     try {
-      if (this.isOnline && this.useFirebase) {
-        // Find and update Firebase sessions
-        const sessions = await firebaseService.getAllLoginSessions();
-        const userSessions = sessions.filter(s => s.userId === userId && s.isActive);
+      if (this.canReachBackend()) {
+        const sessions = await this.backend.list('loginSessions', { userId });
+        const userSessions = sessions.filter(s => s.isActive);
         
         for (const session of userSessions) {
-          await firebaseService.updateLoginSession(session.id, {
-            isActive: false,
-            logoutTime: new Date().toISOString(),
-            sessionDuration: new Date().getTime() - new Date(session.loginTime).getTime()
+          await this.backend.write({
+            type: 'updateLoginSession',
+            sessionId: session.id,
+            changes: {
+              isActive: false,
+              logoutTime: new Date().toISOString(),
+              sessionDuration: new Date().getTime() - new Date(session.loginTime).getTime()
+            }
           });
         }
       }
@@ -304,6 +835,28 @@ class HybridDataService {
     }
   }
 
+  // Settings operations
+  async getSettings(): Promise<LabSettings> {
+    try {
+      if (this.canReachBackend()) {
+        const storedSettings = await this.backend.getSettings();
+        if (storedSettings) {
+          return { ...defaultLabSettings, ...storedSettings };
+        }
+      }
+    } catch (error) {
+      console.error('Error getting settings from the backend:', error);
+    }
+
+    return dataService.getSettings();
+  }
+
+  async updateSettings(settings: LabSettings): Promise<void> {
+    this.authorize('manage_policy');
+    await this.pushToBackend({ type: 'updateSettings', settings });
+    dataService.updateSettings(settings);
+  }
+
   // Delegate other methods to dataService
   getLoginSessions(): LoginSession[] {
     return dataService.getLoginSessions();
@@ -325,16 +878,39 @@ class HybridDataService {
     return dataService.getData();
   }
 
-  setUserPassword(email: string, password: string): void {
-    dataService.setUserPassword(email, password);
+  async sendPasswordReset(email: string): Promise<void> {
+    await firebaseService.sendPasswordReset(email);
+  }
+
+  removeLegacyCredentials(): void {
+    dataService.removeLegacyCredentials();
+  }
+
+  // Returns false when Firebase rejects the current password
+  async changePassword(user: User, currentPassword: string, newPassword: string): Promise<boolean> {
+    try {
+      await firebaseService.changePassword(currentPassword, newPassword);
+    } catch (error) {
+      if (['auth/wrong-password', 'auth/invalid-credential'].includes(getErrorCode(error))) {
+        return false;
+      }
+      throw error;
+    }
+
+    await dataService.cacheVerifiedSession(user.email, newPassword, { ...user, mustChangePassword: false });
+    if (user.mustChangePassword) {
+      await this.writeNow({ type: 'updateUser', userId: user.id, changes: { mustChangePassword: false } });
+    }
+    return true;
   }
 
   // Connection status
-  getConnectionStatus(): { isOnline: boolean; useFirebase: boolean; lastSync: string | null } {
+  getConnectionStatus(): { isOnline: boolean; backend: string; useBackend: boolean; lastSync: string | null } {
     return {
       isOnline: this.isOnline,
-      useFirebase: this.useFirebase,
-      lastSync: localStorage.getItem('lastFirebaseSync')
+      backend: this.backend.name,
+      useBackend: this.useBackend,
+      lastSync: localStorage.getItem('lastBackendSync')
     };
   }
 }
@@ -0,0 +1,89 @@
+import { LabSettings } from '../types';
+import { EntityRecords, StoreCollection, StoredData, WrittenRecord, applyTransition, applyWrite, emptyStore, matchesFilter } from '../utils/storageMutations';
+import { promisify, transactionDone } from '../utils/indexedDb';
+import { StorageBackend } from './storageBackend';
+
+const DB_NAME = 'isaacLabStore';
+const COLLECTIONS: StoreCollection[] = ['users', 'components', 'requests', 'notifications', 'loginSessions', 'syncConflicts', 'outboxReceipts'];
+// Holds the lab settings as settings/lab
+const SETTINGS = 'settings';
+
+let database: Promise<IDBDatabase> | null = null;
+// Writes run one at a time, since each reads the store, applies the change and saves what it touched
+let queue: Promise<unknown> = Promise.resolve();
+
+// A new database starts with the default inventory
+const open = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [...COLLECTIONS, SETTINGS].forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+      const components = request.transaction!.objectStore('components');
+      emptyStore().components.forEach(component => components.put(component));
+    };
+    database = promisify(request);
+  }
+  return database;
+};
+
+const getAll = async <T>(name: string): Promise<T[]> =>
+  promisify((await open()).transaction(name, 'readonly').objectStore(name).getAll() as IDBRequest<T[]>);
+
+const getSettings = async (): Promise<LabSettings | null> => {
+  const stored = await promisify((await open()).transaction(SETTINGS, 'readonly').objectStore(SETTINGS).get('lab'));
+  if (!stored) return null;
+  const settings = { ...stored };
+  delete settings.id;
+  return settings as LabSettings;
+};
+
+const load = async (): Promise<StoredData> => {
+  const data = emptyStore();
+  await Promise.all(COLLECTIONS.map(async name => {
+    (data[name] as object[]) = await getAll(name);
+  }));
+  data.settings = await getSettings();
+  return data;
+};
+
+const save = async (written: WrittenRecord[]): Promise<void> => {
+  if (written.length === 0) return;
+  const transaction = (await open()).transaction([...COLLECTIONS, SETTINGS], 'readwrite');
+  written.forEach(({ collection, id, record }) => {
+    const store = transaction.objectStore(collection);
+    if (record) {
+      store.put({ ...record, id });
+    } else {
+      store.delete(id);
+    }
+  });
+  await transactionDone(transaction);
+};
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+// Everything stays in this browser like localStorage, without its size limit
+export const indexedDbBackend: StorageBackend = {
+  name: 'Browser database',
+  remote: false,
+  list: async (collection, filter) =>
+    (await getAll<object>(collection)).filter(record => matchesFilter(record, filter)) as EntityRecords[typeof collection],
+  get: async (collection, id) =>
+    (await promisify((await open()).transaction(collection, 'readonly').objectStore(collection).get(id))) || null,
+  getSettings,
+  write: (mutation, entry) => serialized(async () => {
+    const data = await load();
+    await save(applyWrite(data, mutation, entry));
+  }),
+  transition: (mutation, entry) => serialized(async () => {
+    const data = await load();
+    const { result, written } = applyTransition(data, mutation, entry);
+    await save(written);
+    return result;
+  }),
+};
@@ -0,0 +1,146 @@
+import QRCode from 'qrcode';
+import { Component } from '../types';
+import { encodeLabel } from '../utils/labels';
+
+export interface Label {
+  payload: string;
+  title: string;
+  subtitle: string;
+}
+
+// A4 sheet in millimetres, 3 x 8 labels of 70 x 37mm
+const PAGE = { width: 210, height: 297, columns: 3, rows: 8, marginTop: 0.5 };
+const CELL = { width: 70, height: 37, qr: 30, padding: 3.5 };
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+export class LabelService {
+  private static instance: LabelService;
+
+  static getInstance(): LabelService {
+    if (!LabelService.instance) {
+      LabelService.instance = new LabelService();
+    }
+    return LabelService.instance;
+  }
+
+  // One label for the component itself plus one per tracked unit still in the inventory
+  getComponentLabels(component: Component): Label[] {
+    const labels: Label[] = [{
+      payload: encodeLabel({ componentId: component.id }),
+      title: component.name,
+      subtitle: component.category,
+    }];
+
+    if (component.serialized) {
+      (component.units || [])
+        .filter(unit => unit.status !== 'written_off')
+        .forEach(unit => labels.push({
+          payload: encodeLabel({ componentId: component.id, assetTag: unit.assetTag }),
+          title: component.name,
+          subtitle: unit.serialNumber ? `${unit.assetTag} · S/N ${unit.serialNumber}` : unit.assetTag,
+        }));
+    }
+    return labels;
+  }
+
+  // Returns one SVG document per A4 page
+  generateSheets(labels: Label[]): string[] {
+    return this.renderPages(labels).map(page => this.wrapSvg(page, PAGE.height));
+  }
+
+  downloadSVG(labels: Label[], filename: string): void {
+    // A single tall document with the pages stacked top to bottom
+    const pages = this.renderPages(labels);
+    const svg = this.wrapSvg(
+      pages.map((page, index) => `<g transform="translate(0 ${index * PAGE.height})">${page}</g>`).join(''),
+      PAGE.height * pages.length
+    );
+
+    const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  // Opens the sheets in a print window; "Save as PDF" in the print dialog produces the PDF
+  print(labels: Label[], title: string): void {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Allow pop-ups for this site to print labels');
+    }
+
+    const pages = this.generateSheets(labels)
+      .map(page => `<div class="page">${page}</div>`)
+      .join('');
+    printWindow.document.write(
+      `<!DOCTYPE html><html><head><title>${escapeXml(title)}</title><style>` +
+      '@page { size: A4; margin: 0; } body { margin: 0; } .page { page-break-after: always; } .page svg { display: block; }' +
+      `</style></head><body>${pages}</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  }
+
+  private renderPages(labels: Label[]): string[] {
+    const perPage = PAGE.columns * PAGE.rows;
+    const pages: string[] = [];
+
+    for (let start = 0; start < labels.length; start += perPage) {
+      const cells = labels.slice(start, start + perPage).map((label, index) => {
+        const x = (index % PAGE.columns) * CELL.width;
+        const y = PAGE.marginTop + Math.floor(index / PAGE.columns) * CELL.height;
+        return this.renderLabel(label, x, y);
+      });
+      pages.push(`<rect width="${PAGE.width}" height="${PAGE.height}" fill="#fff"/>${cells.join('')}`);
+    }
+    return pages;
+  }
+
+  private wrapSvg(content: string, height: number): string {
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE.width}mm" height="${height}mm" ` +
+      `viewBox="0 0 ${PAGE.width} ${height}">${content}</svg>`
+    );
+  }
+
+  private renderLabel(label: Label, x: number, y: number): string {
+    const qr = QRCode.create(label.payload, { errorCorrectionLevel: 'M' });
+    const size = qr.modules.size;
+    let path = '';
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (qr.modules.get(row, col)) path += `M${col} ${row}h1v1h-1z`;
+      }
+    }
+
+    // Quiet zone of two modules around the code
+    const scale = CELL.qr / (size + 4);
+    const qrX = x + CELL.padding;
+    const qrY = y + (CELL.height - CELL.qr) / 2;
+    const textX = qrX + CELL.qr + 2;
+
+    return (
+      `<g>` +
+      `<rect x="${x + 0.5}" y="${y + 0.5}" width="${CELL.width - 1}" height="${CELL.height - 1}" rx="2" fill="none" stroke="#ddd" stroke-width="0.2"/>` +
+      `<path transform="translate(${qrX + 2 * scale} ${qrY + 2 * scale}) scale(${scale})" d="${path}" fill="#000"/>` +
+      `<text x="${textX}" y="${y + 13}" font-family="Helvetica, Arial, sans-serif" font-size="3.6" font-weight="bold" fill="#000">${escapeXml(truncate(label.title, 16))}</text>` +
+      `<text x="${textX}" y="${y + 19}" font-family="Helvetica, Arial, sans-serif" font-size="2.8" fill="#333">${escapeXml(truncate(label.subtitle, 22))}</text>` +
+      `<text x="${textX}" y="${y + 29}" font-family="Helvetica, Arial, sans-serif" font-size="2.2" fill="#666">Isaac Asimov Robotics Lab</text>` +
+      `</g>`
+    );
+  }
+}
+
+export const labelService = LabelService.getInstance();
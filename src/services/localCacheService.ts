@@ -0,0 +1,194 @@
+import { LoginSession, Notification, SystemData } from '../types';
+import { promisify, transactionDone } from '../utils/indexedDb';
+
+const DB_NAME = 'isaacLabCache';
+// The single localStorage entry earlier versions kept the whole copy in; moved across once, then removed
+const LEGACY_KEY = 'isaacLabData';
+// Read notifications and ended sessions older than this are the first to go when the device runs out of room
+const PRUNE_AFTER_DAYS = 30;
+
+export const cachedCollections: (keyof SystemData)[] = ['users', 'components', 'requests', 'notifications', 'loginSessions'];
+
+const indexes: Partial<Record<keyof SystemData, string[]>> = {
+  requests: ['studentId', 'status', 'dueDate'],
+  notifications: ['userId'],
+  loginSessions: ['userId']
+};
+
+// One record to save, or to delete when record is null
+export interface CacheChange {
+  collection: keyof SystemData;
+  id: string;
+  record: object | null;
+}
+
+type StorageListener = (full: boolean) => void;
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// dataService's copy of the lab data, kept record by record in IndexedDB
+class LocalCacheService {
+  private static instance: LocalCacheService;
+  private database: Promise<IDBDatabase> | null = null;
+  private pending = new Map<string, CacheChange>();
+  private scheduled = false;
+  private writes: Promise<void> = Promise.resolve();
+  private full = false;
+  private listeners = new Set<StorageListener>();
+
+  static getInstance(): LocalCacheService {
+    if (!LocalCacheService.instance) {
+      LocalCacheService.instance = new LocalCacheService();
+    }
+    return LocalCacheService.instance;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        cachedCollections.forEach(name => {
+          const store = request.result.createObjectStore(name, { keyPath: 'id' });
+          indexes[name]?.forEach(field => store.createIndex(field, field));
+        });
+      };
+      this.database = promisify(request);
+    }
+    return this.database;
+  }
+
+  // Resolves with the saved copy, or null when this device has none yet
+  async load(): Promise<SystemData | null> {
+    const legacy = localStorage.getItem(LEGACY_KEY);
+    if (legacy) {
+      return this.migrate(JSON.parse(legacy));
+    }
+
+    const transaction = (await this.open()).transaction(cachedCollections, 'readonly');
+    const records = await Promise.all(cachedCollections.map(name => promisify(transaction.objectStore(name).getAll())));
+    if (records.every(stored => stored.length === 0)) return null;
+    return Object.fromEntries(cachedCollections.map((name, index) => [name, records[index]])) as unknown as SystemData;
+  }
+
+  // The old entry is only removed once every record in it is saved, so a failed move is tried again next load
+  private async migrate(legacy: Partial<SystemData>): Promise<SystemData> {
+    const data: SystemData = { users: [], components: [], requests: [], notifications: [], loginSessions: [], ...legacy };
+    const changes = cachedCollections.flatMap(collection =>
+      (data[collection] as { id: string }[]).map(record => ({ collection, id: record.id, record }))
+    );
+    const saved = await this.persist(changes).catch(error => {
+      console.error('Error moving data to IndexedDB:', error);
+      return false;
+    });
+    if (saved) {
+      localStorage.removeItem(LEGACY_KEY);
+    }
+    return data;
+  }
+
+  // Saves in the background. Changes made in the same tick share one transaction, and a record changed
+  // twice is only written once.
+  save(changes: CacheChange[]): void {
+    changes.forEach(change => this.pending.set(`${change.collection}/${change.id}`, change));
+    if (this.scheduled || this.pending.size === 0) return;
+    this.scheduled = true;
+    this.writes = this.writes.then(() => this.flush());
+  }
+
+  private async flush(): Promise<void> {
+    this.scheduled = false;
+    const changes = [...this.pending.values()];
+    this.pending.clear();
+    try {
+      if (!(await this.persist(changes))) {
+        // Kept for the next save, unless a newer change to the same record replaced them meanwhile
+        changes.forEach(change => {
+          const key = `${change.collection}/${change.id}`;
+          if (!this.pending.has(key)) this.pending.set(key, change);
+        });
+      }
+    } catch (error) {
+      console.error('Error saving data:', error);
+    }
+  }
+
+  // When the device is out of room, old history is dropped and the write tried once more; if that fails too,
+  // listeners hear the copy on this device is full. Resolves with whether the changes were saved.
+  private async persist(changes: CacheChange[]): Promise<boolean> {
+    try {
+      await this.write(changes);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      try {
+        await this.pruneHistory();
+        await this.write(changes);
+      } catch (retryError) {
+        if (!isQuotaError(retryError)) throw retryError;
+        this.setFull(true);
+        return false;
+      }
+    }
+    this.setFull(false);
+    return true;
+  }
+
+  private async write(changes: CacheChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const transaction = (await this.open()).transaction(cachedCollections, 'readwrite');
+    changes.forEach(({ collection, id, record }) => {
+      const store = transaction.objectStore(collection);
+      if (record) {
+        store.put(record);
+      } else {
+        store.delete(id);
+      }
+    });
+    await transactionDone(transaction);
+  }
+
+  // Only this device's copy is pruned; the backend still has the records
+  private async pruneHistory(): Promise<void> {
+    const cutoff = new Date(Date.now() - PRUNE_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const transaction = (await this.open()).transaction(['notifications', 'loginSessions'], 'readwrite');
+    const notifications = transaction.objectStore('notifications');
+    const sessions = transaction.objectStore('loginSessions');
+    const [storedNotifications, storedSessions] = await Promise.all([
+      promisify(notifications.getAll() as IDBRequest<Notification[]>),
+      promisify(sessions.getAll() as IDBRequest<LoginSession[]>)
+    ]);
+    storedNotifications
+      .filter(notification => notification.read && notification.createdAt < cutoff)
+      .forEach(notification => notifications.delete(notification.id));
+    storedSessions
+      .filter(session => !session.isActive && (session.logoutTime || session.loginTime) < cutoff)
+      .forEach(session => sessions.delete(session.id));
+    await transactionDone(transaction);
+  }
+
+  // Records whose indexed field matches. Resolves with null while changes are still waiting for room,
+  // since the database does not have them yet.
+  async query<K extends keyof SystemData>(collection: K, index: string, key: IDBValidKey | IDBKeyRange): Promise<SystemData[K] | null> {
+    await this.writes;
+    if (this.pending.size > 0) return null;
+    const store = (await this.open()).transaction(collection, 'readonly').objectStore(collection);
+    return promisify(store.index(index).getAll(key) as IDBRequest<SystemData[K]>);
+  }
+
+  private setFull(full: boolean): void {
+    if (full === this.full) return;
+    this.full = full;
+    this.listeners.forEach(listener => listener(full));
+  }
+
+  // Called now, then whenever the device runs out of room or has room again
+  subscribe(listener: StorageListener): () => void {
+    this.listeners.add(listener);
+    listener(this.full);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const localCacheService = LocalCacheService.getInstance();
@@ -0,0 +1,42 @@
+import { EntityRecords, StoredData, applyTransition, applyWrite, emptyStore, matchesFilter } from '../utils/storageMutations';
+import { StorageBackend } from './storageBackend';
+
+// Separate from dataService's cache, which copies whichever backend is in use
+const STORAGE_KEY = 'isaacLabStore';
+
+const load = (): StoredData => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...emptyStore(), ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Error loading the local store:', error);
+  }
+  return emptyStore();
+};
+
+// Lets a full store fail the write rather than lose it
+const save = (data: StoredData) => localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+
+// Everything stays in this browser: for a single lab computer, or for trying the app out
+export const localStorageBackend: StorageBackend = {
+  name: 'Browser storage',
+  remote: false,
+  list: async (collection, filter) =>
+    (load()[collection] as object[]).filter(record => matchesFilter(record, filter)) as EntityRecords[typeof collection],
+  get: async (collection, id) =>
+    (load()[collection] as { id: string }[]).find(record => record.id === id) as EntityRecords[typeof collection][number] || null,
+  getSettings: async () => load().settings,
+  write: async (mutation, entry) => {
+    const data = load();
+    applyWrite(data, mutation, entry);
+    save(data);
+  },
+  transition: async (mutation, entry) => {
+    const data = load();
+    const { result } = applyTransition(data, mutation, entry);
+    save(data);
+    return result;
+  },
+};
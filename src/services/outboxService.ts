@@ -0,0 +1,137 @@
+import { OutboxEntry, OutboxMutation, getRetryDelay } from '../utils/outbox';
+import { promisify } from '../utils/indexedDb';
+
+const DB_NAME = 'isaacLabOutbox';
+const STORE = 'mutations';
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+// Durable queue of backend writes made offline, kept in IndexedDB so it survives reloads
+class OutboxService {
+  private static instance: OutboxService;
+  private database: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private replaying: Promise<number | null> | null = null;
+
+  static getInstance(): OutboxService {
+    if (!OutboxService.instance) {
+      OutboxService.instance = new OutboxService();
+    }
+    return OutboxService.instance;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'sequence', autoIncrement: true });
+      };
+      this.database = promisify(request);
+    }
+    return this.database;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.open()).transaction(STORE, mode).objectStore(STORE);
+  }
+
+  async getEntries(): Promise<OutboxEntry[]> {
+    const entries = await promisify((await this.store('readonly')).getAll() as IDBRequest<OutboxEntry[]>);
+    return entries.sort((a, b) => (a.sequence || 0) - (b.sequence || 0));
+  }
+
+  async enqueue(userId: string, mutation: OutboxMutation): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      id: `outbox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      mutation,
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+    entry.sequence = await promisify((await this.store('readwrite')).add(entry)) as number;
+    await this.notify();
+    return entry;
+  }
+
+  // True while this user's writes are waiting; their later writes must queue behind them to keep their order
+  async hasPending(userId: string): Promise<boolean> {
+    return (await this.getEntries()).some(entry => entry.userId === userId && !entry.failedAt);
+  }
+
+  async discardFailed(): Promise<void> {
+    const failed = (await this.getEntries()).filter(entry => entry.failedAt);
+    const store = await this.store('readwrite');
+    await Promise.all(failed.map(entry => promisify(store.delete(entry.sequence!))));
+    await this.notify();
+  }
+
+  // Replays this user's pending entries in order. A retryable failure stops the run so nothing overtakes
+  // it, and backs the entry off; any other failure marks the entry failed and the run moves on. Resolves
+  // with the milliseconds until the next retry is due, or null once nothing is left to retry.
+  replay(
+    userId: string,
+    apply: (entry: OutboxEntry) => Promise<void>,
+    isRetryable: (error: unknown) => boolean
+  ): Promise<number | null> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(userId, apply, isRetryable).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(
+    userId: string,
+    apply: (entry: OutboxEntry) => Promise<void>,
+    isRetryable: (error: unknown) => boolean
+  ): Promise<number | null> {
+    const pending = (await this.getEntries()).filter(entry => entry.userId === userId && !entry.failedAt);
+    try {
+      for (const entry of pending) {
+        const waitMs = entry.nextAttemptAt ? new Date(entry.nextAttemptAt).getTime() - Date.now() : 0;
+        if (waitMs > 0) return waitMs;
+
+        try {
+          await apply(entry);
+          await promisify((await this.store('readwrite')).delete(entry.sequence!));
+        } catch (error) {
+          const attempts = entry.attempts + 1;
+          const lastError = error instanceof Error ? error.message : String(error);
+          if (isRetryable(error)) {
+            const delay = getRetryDelay(attempts);
+            await this.put({ ...entry, attempts, lastError, nextAttemptAt: new Date(Date.now() + delay).toISOString() });
+            return delay;
+          }
+          console.error('Queued change was rejected:', error);
+          await this.put({ ...entry, attempts, lastError, failedAt: new Date().toISOString() });
+        }
+      }
+      return null;
+    } finally {
+      await this.notify();
+    }
+  }
+
+  private async put(entry: OutboxEntry): Promise<void> {
+    await promisify((await this.store('readwrite')).put(entry));
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.getEntries().then(listener).catch(error => {
+      console.error('Error reading the outbox:', error);
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.getEntries();
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+export const outboxService = OutboxService.getInstance();
@@ -0,0 +1,56 @@
+import { requestLifecycleService } from './requestLifecycleService';
+import { waitlistService } from './waitlistService';
+import { BorrowRequest } from '../types';
+import { getApprovedItems } from '../utils/requestItems';
+import { isPickupExpired } from '../utils/pickup';
+import { StockTransactionError } from '../utils/stockTransactions';
+
+class PickupService {
+  private static instance: PickupService;
+
+  static getInstance(): PickupService {
+    if (!PickupService.instance) {
+      PickupService.instance = new PickupService();
+    }
+    return PickupService.instance;
+  }
+
+  private expiring: Promise<BorrowRequest[]> | null = null;
+
+  // Expires every approval among the given requests whose pickup window has passed, returns the reserved
+  // stock to the shelf and hands it to the next waitlisted request. A call made while a run is still going
+  // shares it rather than expiring the same requests twice.
+  expireUncollected(requests: BorrowRequest[]): Promise<BorrowRequest[]> {
+    if (!this.expiring) {
+      this.expiring = this.runExpiry(requests).finally(() => {
+        this.expiring = null;
+      });
+    }
+    return this.expiring;
+  }
+
+  private async runExpiry(requests: BorrowRequest[]): Promise<BorrowRequest[]> {
+    const expired: BorrowRequest[] = [];
+    try {
+      const now = new Date();
+      for (const request of requests.filter(r => isPickupExpired(r, now))) {
+        try {
+          const result = await requestLifecycleService.expire(request);
+          expired.push(result.request);
+        } catch (error) {
+          // Another client may have expired or checked it out first
+          if (!(error instanceof StockTransactionError)) throw error;
+        }
+      }
+
+      if (expired.length > 0) {
+        await waitlistService.promote(expired.flatMap(request => getApprovedItems(request).map(item => item.componentId)));
+      }
+    } catch (error) {
+      console.error('Error expiring uncollected requests:', error);
+    }
+    return expired;
+  }
+}
+
+export const pickupService = PickupService.getInstance();
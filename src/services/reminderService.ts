@@ -0,0 +1,98 @@
+import { BorrowRequest, LabSettings, Notification, StockTransactionResult } from '../types';
+import { planReminders } from '../utils/reminders';
+import { Permission } from '../utils/permissions';
+import { isPickupExpired, pickupExpiredNotification } from '../utils/pickup';
+import { formatItemList, getApprovedItems } from '../utils/requestItems';
+import { StockTransactionError } from '../utils/stockTransactions';
+
+// Where reminders are read from and written to: hybridDataService in the browser,
+// the storage backend directly from scripts/send-reminders.ts
+export interface ReminderStore {
+  getRequests(): Promise<BorrowRequest[]>;
+  getSettings(): Promise<LabSettings>;
+  addNotification(notification: Notification): Promise<unknown>;
+  notifyStaff(permission: Permission, notice: Omit<Notification, 'userId'>): Promise<void>;
+  recordReminders(request: BorrowRequest, remindersSent: string[]): Promise<void>;
+  expireRequest(requestId: string): Promise<StockTransactionResult>;
+}
+
+interface ReminderRunOptions {
+  // Limits the run to one student's loans, e.g. when a student opens their dashboard
+  studentId?: string;
+  now?: Date;
+}
+
+class ReminderService {
+  private static instance: ReminderService;
+
+  static getInstance(): ReminderService {
+    if (!ReminderService.instance) {
+      ReminderService.instance = new ReminderService();
+    }
+    return ReminderService.instance;
+  }
+
+  // Sends every reminder and escalation that has come due and returns how many notifications went out.
+  // The reminder log is saved before notifying so a failed run never sends the same reminder twice.
+  async run(store: ReminderStore, options: ReminderRunOptions = {}): Promise<number> {
+    let sent = 0;
+    try {
+      const now = options.now || new Date();
+      const [requests, settings] = await Promise.all([store.getRequests(), store.getSettings()]);
+
+      for (const request of requests) {
+        if (options.studentId && request.studentId !== options.studentId) continue;
+        const plan = planReminders(request, settings.reminders, now);
+        if (!plan) continue;
+
+        await store.recordReminders(request, plan.remindersSent);
+        for (const notification of plan.notifications) {
+          await store.addNotification(notification);
+          sent++;
+        }
+        if (plan.escalation) {
+          await store.notifyStaff('manage_returns', plan.escalation);
+          sent++;
+        }
+      }
+    } catch (error) {
+      console.error('Error sending reminders:', error);
+    }
+    return sent;
+  }
+
+  // Expires approvals whose pickup window has passed, for scheduled runs; in the app pickupService does this
+  // and also serves the waitlist, so here staff are told to check it instead
+  async expireUncollected(store: ReminderStore, now: Date = new Date()): Promise<BorrowRequest[]> {
+    const expired: BorrowRequest[] = [];
+    try {
+      const requests = await store.getRequests();
+      for (const request of requests.filter(r => isPickupExpired(r, now))) {
+        try {
+          const result = await store.expireRequest(request.id);
+          expired.push(result.request);
+          await store.addNotification(pickupExpiredNotification(result.request));
+        } catch (error) {
+          // Checked out or expired by someone else since it was read
+          if (!(error instanceof StockTransactionError)) throw error;
+        }
+      }
+
+      if (expired.length > 0) {
+        await store.notifyStaff('review_requests', {
+          id: `notif-${Date.now()}-staff`,
+          title: 'Uncollected Approvals Expired',
+          message: `${expired.map(request => `${request.studentName}: ${formatItemList(getApprovedItems(request))}`).join('; ')}. The items are back in stock; check the waitlist for anyone waiting on them.`,
+          type: 'info',
+          read: false,
+          createdAt: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      console.error('Error expiring uncollected requests:', error);
+    }
+    return expired;
+  }
+}
+
+export const reminderService = ReminderService.getInstance();
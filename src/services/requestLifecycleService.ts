@@ -0,0 +1,203 @@
+import { hybridDataService } from './hybridDataService';
+import { standingService } from './standingService';
+import { BorrowRequest, BorrowRequestItem, ReturnRecord, StockTransactionResult } from '../types';
+import { getRequestItems, getApprovedItems, getOutstandingLines, applyItemDecisions, formatItemList } from '../utils/requestItems';
+import { getPickupDeadline, pickupExpiredNotification } from '../utils/pickup';
+import { getWaitlistBlocker } from '../utils/loanExtensions';
+import { StockTransactionError } from '../utils/stockTransactions';
+
+interface ReviewOptions {
+  reviewedBy: string;
+  // Left out for automatic approvals, e.g. from the waitlist
+  reviewerId?: string;
+  // Kept on the request when the review rejects all of it
+  note?: string;
+  // Extra sentence for the student, e.g. why less was granted than asked for
+  detail?: string;
+}
+
+// Runs each lifecycle transition (see utils/requestLifecycle) and tells the student about it
+class RequestLifecycleService {
+  private static instance: RequestLifecycleService;
+
+  static getInstance(): RequestLifecycleService {
+    if (!RequestLifecycleService.instance) {
+      RequestLifecycleService.instance = new RequestLifecycleService();
+    }
+    return RequestLifecycleService.instance;
+  }
+
+  // Applies reviewed lines to a pending request; approved lines reserve stock until the pickup deadline
+  async review(request: BorrowRequest, items: BorrowRequestItem[], options: ReviewOptions): Promise<StockTransactionResult> {
+    const storedItems = getRequestItems(request);
+    const decided = (status: BorrowRequestItem['status']) =>
+      items.filter((item, index) => storedItems[index]?.status === 'pending' && item.status === status);
+    const approved = decided('approved');
+    const rejected = decided('rejected');
+
+    const reviewed = applyItemDecisions(request, items);
+    const reviewedAt = new Date().toISOString();
+    let pickupDeadline: string | undefined;
+    if (approved.length > 0) {
+      const settings = await hybridDataService.getSettings();
+      pickupDeadline = getPickupDeadline(reviewedAt, settings.pickupWindowHours);
+    }
+
+    const result = await hybridDataService.reviewRequest({
+      ...reviewed,
+      ...(pickupDeadline ? { approvedBy: options.reviewedBy, approvedAt: reviewedAt, pickupDeadline } : {}),
+      ...(pickupDeadline && options.reviewerId ? { approvedById: options.reviewerId } : {}),
+      ...(options.note && reviewed.status === 'rejected' ? { notes: options.note } : {}),
+    });
+
+    await hybridDataService.addNotification({
+      id: `notif-${Date.now()}`,
+      userId: request.studentId,
+      title: pickupDeadline ? 'Request Approved! 🎉' : 'Request Update',
+      message: pickupDeadline
+        ? [
+            `Your request for ${formatItemList(approved)} has been approved.`,
+            options.detail,
+            `Pick it up in the Isaac Asimov Robotics Lab by ${new Date(pickupDeadline).toLocaleString()} or the reservation will expire.`,
+          ].filter(Boolean).join(' ')
+        : [`Your request for ${formatItemList(rejected)} has been reviewed.`, options.detail].filter(Boolean).join(' '),
+      type: pickupDeadline ? 'success' : 'error',
+      category: 'request_update',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  async checkOut(request: BorrowRequest, checkedOutBy: string): Promise<StockTransactionResult> {
+    const result = await hybridDataService.checkOutRequest(request.id, checkedOutBy);
+
+    await hybridDataService.addNotification({
+      id: `notif-${Date.now()}`,
+      userId: request.studentId,
+      title: 'Items Checked Out',
+      message: `You have collected ${formatItemList(getApprovedItems(result.request))}. Please return them by ${new Date(result.request.dueDate).toLocaleDateString()}.`,
+      type: 'info',
+      category: 'request_update',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  async expire(request: BorrowRequest): Promise<StockTransactionResult> {
+    const result = await hybridDataService.expireRequest(request.id);
+
+    await hybridDataService.addNotification(pickupExpiredNotification(result.request));
+
+    return result;
+  }
+
+  // Students ask for more time on a checked out loan; the admin approves or denies it from the extension queue
+  async requestExtension(request: BorrowRequest, proposedDueDate: string, reason: string): Promise<StockTransactionResult> {
+    const [settings, components] = await Promise.all([hybridDataService.getSettings(), hybridDataService.getComponents()]);
+    const blocker = getWaitlistBlocker(request, components);
+    if (blocker) {
+      throw new StockTransactionError(`${blocker}, so this loan cannot be extended. Please return it by the due date.`);
+    }
+
+    const result = await hybridDataService.requestExtension(request.id, {
+      id: `ext-${Date.now()}`,
+      requestedAt: new Date().toISOString(),
+      previousDueDate: request.dueDate,
+      proposedDueDate,
+      reason,
+      status: 'pending'
+    }, settings);
+
+    await hybridDataService.notifyStaff('review_requests', {
+      id: `notif-${Date.now()}-staff`,
+      title: 'Loan Extension Requested',
+      message: `${request.studentName} (${request.rollNo}) asked to keep ${formatItemList(getOutstandingLines(request))} until ${new Date(proposedDueDate).toLocaleDateString()}: ${reason}`,
+      type: 'info',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  async reviewExtension(
+    request: BorrowRequest,
+    extensionId: string,
+    approved: boolean,
+    reviewedBy: string,
+    response?: string
+  ): Promise<StockTransactionResult> {
+    const [settings, components] = await Promise.all([hybridDataService.getSettings(), hybridDataService.getComponents()]);
+    const blocker = approved ? getWaitlistBlocker(request, components) : null;
+    if (blocker) {
+      throw new StockTransactionError(`${blocker}. Deny the extension so the item comes back on time.`);
+    }
+
+    const result = await hybridDataService.reviewExtension(request.id, {
+      extensionId,
+      approved,
+      reviewedAt: new Date().toISOString(),
+      reviewedBy,
+      ...(response ? { response } : {})
+    }, settings);
+
+    await hybridDataService.addNotification({
+      id: `notif-${Date.now()}`,
+      userId: request.studentId,
+      title: approved ? 'Extension Approved' : 'Extension Denied',
+      message: approved
+        ? `You can keep ${formatItemList(getOutstandingLines(result.request))} until ${new Date(result.request.dueDate).toLocaleDateString()}.`
+        : [`Your extension request was denied. Please return ${formatItemList(getOutstandingLines(result.request))} by ${new Date(result.request.dueDate).toLocaleDateString()}.`, response].filter(Boolean).join(' '),
+      type: approved ? 'success' : 'warning',
+      category: 'request_update',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  async recordReturn(request: BorrowRequest, record: ReturnRecord): Promise<StockTransactionResult> {
+    const result = await hybridDataService.returnRequest(request.id, record);
+
+    const items = getRequestItems(result.request);
+    const fullyReturned = result.request.status === 'returned';
+    const describe = (field: 'good' | 'damaged' | 'lost') => record.lines
+      .filter(line => line[field] > 0)
+      .map(line => `${items[line.lineIndex].componentName} x${line[field]}`)
+      .join(', ');
+
+    const returned = describe('good');
+    const writtenOff = [
+      describe('damaged') && `damaged: ${describe('damaged')}`,
+      describe('lost') && `lost: ${describe('lost')}`,
+    ].filter(Boolean).join('; ');
+
+    await hybridDataService.addNotification({
+      id: `notif-${Date.now()}`,
+      userId: request.studentId,
+      title: fullyReturned ? 'Item Returned Successfully' : 'Partial Return Recorded',
+      message: [
+        returned && `Your return of ${returned} has been confirmed.`,
+        writtenOff && `Recorded as ${writtenOff}.${record.notes ? ` ${record.notes}` : ''}`,
+        fullyReturned
+          ? 'Thank you for using Isaac Asimov Robotics Lab!'
+          : `Still outstanding: ${formatItemList(getOutstandingLines(result.request))}.`,
+      ].filter(Boolean).join(' '),
+      type: writtenOff ? 'warning' : 'success',
+      category: 'request_update',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    await standingService.recordReturn(result.request, record);
+
+    return result;
+  }
+}
+
+export const requestLifecycleService = RequestLifecycleService.getInstance();
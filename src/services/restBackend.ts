@@ -0,0 +1,79 @@
+import { StockTransactionResult } from '../types';
+import { StockTransactionError } from '../utils/stockTransactions';
+import { RequestTransitionError } from '../utils/requestLifecycle';
+import { EntityFilter } from '../utils/storageMutations';
+import { StorageBackend } from './storageBackend';
+
+// A failure reported by the storage server. code follows Firestore's, so callers tell a connection
+// problem ('unavailable') from a refused write the same way for either backend.
+export class StorageServerError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'StorageServerError';
+  }
+}
+
+// A self-hosted storage server (scripts/storage-server.ts is the reference one) answering:
+//   GET  /settings                  the lab settings, or 404 before any are saved
+//   GET  /:collection?field=value   the records whose field equals value; repeat a field to match any of several
+//   GET  /:collection/:id           one record, or 404
+//   POST /writes                    { mutation, entry? }, applied at most once per entry.id; 204
+//   POST /transitions               { mutation, entry? }; the StockTransactionResult
+// Every call carries the signed-in user's Firebase ID token as a bearer token; the server answers 401
+// without a valid one and 403 for what the user's role does not allow.
+// Failures answer { error, code }. 'stock-transaction' and 'request-transition' refuse a transition.
+export const createRestBackend = (baseUrl: string, getToken: () => Promise<string | null>): StorageBackend => {
+  const send = async <T>(path: string, body?: object): Promise<T | null> => {
+    const token = await getToken().catch(() => null);
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: body && JSON.stringify(body)
+      });
+    } catch {
+      throw new StorageServerError('The storage server could not be reached', 'unavailable');
+    }
+
+    if (response.status === 404 && !body) return null;
+    if (!response.ok) {
+      const failure: { error?: string; code?: string } = await response.json().catch(() => ({}));
+      const message = failure.error || `The storage server answered ${response.status}`;
+      if (failure.code === 'request-transition') throw new RequestTransitionError(message);
+      if (failure.code === 'stock-transaction') throw new StockTransactionError(message);
+      throw new StorageServerError(message, response.status >= 500 ? 'unavailable' : failure.code || 'invalid-argument');
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const listPath = (collection: string, filter: EntityFilter = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([field, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(item => params.append(field, item));
+    });
+    const search = params.toString();
+    return `/${collection}${search ? `?${search}` : ''}`;
+  };
+
+  return {
+    name: 'Storage server',
+    remote: true,
+    list: async (collection, filter) => (await send(listPath(collection, filter))) || [],
+    get: (collection, id) => send(`/${collection}/${encodeURIComponent(id)}`),
+    getSettings: () => send('/settings'),
+    write: async (mutation, entry) => {
+      await send('/writes', { mutation, entry });
+    },
+    transition: async (mutation, entry) => {
+      const result = await send<StockTransactionResult>('/transitions', { mutation, entry });
+      if (!result) {
+        throw new StorageServerError('The storage server did not return the transition', 'unknown');
+      }
+      return result;
+    },
+  };
+};
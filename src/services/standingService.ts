@@ -0,0 +1,114 @@
+import { hybridDataService } from './hybridDataService';
+import { BorrowRequest, PenaltyEntry, ReturnRecord, StudentStanding, User } from '../types';
+import { emptyStanding, getActivePoints, getActiveSuspension } from '../utils/standing';
+
+const trimPeriod = (text: string) => text.trim().replace(/\.+$/, '');
+
+// Penalty points and suspensions (see utils/standing); every change is announced to the student
+class StandingService {
+  private static instance: StandingService;
+
+  static getInstance(): StandingService {
+    if (!StandingService.instance) {
+      StandingService.instance = new StandingService();
+    }
+    return StandingService.instance;
+  }
+
+  // Charges the student for a late, damaged or lost return; called once the return transaction has committed.
+  // The points are worked out against the standing as stored when the charge is saved.
+  async recordReturn(request: BorrowRequest, record: ReturnRecord): Promise<void> {
+    try {
+      const student = await hybridDataService.getUserById(request.studentId);
+      if (!student) return;
+
+      const standing = await hybridDataService.changeStanding({ type: 'chargeReturn', userId: student.id, request, record });
+      await this.announce(student, standing);
+    } catch (error) {
+      console.error('Error recording penalty points:', error);
+    }
+  }
+
+  // Adds points, or takes them off when negative
+  async adjust(student: User, points: number, note: string, adjustedBy: string): Promise<StudentStanding> {
+    const entry: PenaltyEntry = {
+      id: `penalty-${Date.now()}-adjustment`,
+      points,
+      reason: 'adjustment',
+      note,
+      recordedAt: new Date().toISOString(),
+      recordedBy: adjustedBy
+    };
+    const standing = await hybridDataService.changeStanding({ type: 'adjustStanding', userId: student.id, entry });
+    return this.announce(student, standing);
+  }
+
+  async waive(student: User, entryId: string, reason: string, waivedBy: string): Promise<StudentStanding> {
+    const standing = await hybridDataService.changeStanding({
+      type: 'waivePenalty',
+      userId: student.id,
+      entryId,
+      waivedAt: new Date().toISOString(),
+      waivedBy,
+      reason
+    }) || emptyStanding;
+    await this.notify(student.id, 'Penalty Waived', `${trimPeriod(reason)}. You now have ${getActivePoints(standing)} penalty point(s).`, 'success');
+    return standing;
+  }
+
+  async liftSuspension(student: User, reason: string, liftedBy: string): Promise<StudentStanding> {
+    if (!getActiveSuspension(student.standing)) return student.standing || emptyStanding;
+
+    const standing = await hybridDataService.changeStanding({
+      type: 'liftSuspension',
+      userId: student.id,
+      liftedAt: new Date().toISOString(),
+      liftedBy,
+      reason
+    }) || emptyStanding;
+    await this.notify(student.id, 'Suspension Lifted', `You can borrow from the lab again. ${trimPeriod(reason)}.`, 'success');
+    return standing;
+  }
+
+  // Tells the student about the entries the change added, if any
+  private async announce(student: User, standing: StudentStanding = emptyStanding): Promise<StudentStanding> {
+    const previous = student.standing || emptyStanding;
+    const entries = standing.entries.filter(entry => !previous.entries.some(stored => stored.id === entry.id));
+    if (entries.length === 0) return standing;
+
+    const added = entries.reduce((sum, entry) => sum + entry.points, 0);
+    const reasons = entries.map(entry => trimPeriod(entry.note || '')).filter(Boolean).join('; ');
+    const suspension = standing.suspensions.length > previous.suspensions.length ? getActiveSuspension(standing) : undefined;
+
+    if (suspension) {
+      await this.notify(
+        student.id,
+        'Borrowing Suspended',
+        `${reasons}. You reached ${suspension.points} penalty points, so you cannot borrow from the lab until ${new Date(suspension.endsAt).toLocaleDateString()}.`,
+        'error'
+      );
+    } else {
+      await this.notify(
+        student.id,
+        added >= 0 ? 'Penalty Points Added' : 'Penalty Points Reduced',
+        `${added >= 0 ? `${added} point(s) added` : `${-added} point(s) removed`}: ${reasons}. You now have ${getActivePoints(standing)} point(s).`,
+        added >= 0 ? 'warning' : 'success'
+      );
+    }
+    return standing;
+  }
+
+  private async notify(userId: string, title: string, message: string, type: 'success' | 'warning' | 'error'): Promise<void> {
+    await hybridDataService.addNotification({
+      id: `notif-${Date.now()}`,
+      userId,
+      title,
+      message,
+      type,
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
+
+export const standingService = StandingService.getInstance();
@@ -0,0 +1,54 @@
+import { LabSettings, StockTransactionResult } from '../types';
+import { EntityMutation, OutboxEntry, TransitionMutation } from '../utils/outbox';
+import { EntityCollection, EntityFilter, EntityRecord, EntityRecords } from '../utils/storageMutations';
+import { firebaseService } from './firebaseService';
+import { firestoreBackend } from './firestoreBackend';
+import { createRestBackend } from './restBackend';
+import { localStorageBackend } from './localStorageBackend';
+import { indexedDbBackend } from './indexedDbBackend';
+
+// Where the lab's records are kept. hybridDataService sends every entity read and write through the
+// configured backend and keeps dataService as the copy on this device it falls back to. Sign-in stays
+// with Firebase Auth whichever backend holds the data: the REST backend sends the Firebase ID token with
+// every call, and a storage server refuses calls without one, so it cannot be used without Firebase.
+export interface StorageBackend {
+  readonly name: string;
+  // False for backends on this device, which keep working without a connection
+  readonly remote: boolean;
+  list<K extends EntityCollection>(collection: K, filter?: EntityFilter): Promise<EntityRecords[K]>;
+  get<K extends EntityCollection>(collection: K, id: string): Promise<EntityRecord<K> | null>;
+  getSettings(): Promise<LabSettings | null>;
+  // Given the outbox entry a write was queued as, the backend applies it at most once, keyed on entry.id
+  write(mutation: EntityMutation, entry?: OutboxEntry): Promise<void>;
+  // Refuses with a StockTransactionError when the request or the stock no longer allows the change
+  transition(mutation: TransitionMutation, entry?: OutboxEntry): Promise<StockTransactionResult>;
+  // Backends that push changes call back with the matching records after every change
+  watch?<K extends EntityCollection>(
+    collection: K,
+    filter: EntityFilter | undefined,
+    callback: (records: EntityRecords[K]) => void,
+    onError: (error: Error) => void
+  ): () => void;
+  // Seeds an empty backend with the default inventory
+  initialize?(): Promise<void>;
+}
+
+// Chosen at build time with VITE_STORAGE_BACKEND, plus VITE_STORAGE_API_URL for the REST backend
+export const createStorageBackend = (
+  kind = import.meta.env.VITE_STORAGE_BACKEND,
+  apiUrl = import.meta.env.VITE_STORAGE_API_URL
+): StorageBackend => {
+  switch (kind) {
+    case 'rest':
+      if (!apiUrl) {
+        throw new Error('VITE_STORAGE_API_URL must be set to use the REST storage backend');
+      }
+      return createRestBackend(apiUrl, () => firebaseService.getIdToken());
+    case 'localStorage':
+      return localStorageBackend;
+    case 'indexedDB':
+      return indexedDbBackend;
+    default:
+      return firestoreBackend;
+  }
+};
@@ -0,0 +1,181 @@
+import { hybridDataService } from './hybridDataService';
+import { requestLifecycleService } from './requestLifecycleService';
+import { BorrowRequest, BorrowRequestItem, Component, StockTransactionResult, WaitlistEntry } from '../types';
+import { getRequestItems, formatItemList } from '../utils/requestItems';
+import { getAvailableUnits } from '../utils/assetUnits';
+
+class WaitlistService {
+  private static instance: WaitlistService;
+
+  static getInstance(): WaitlistService {
+    if (!WaitlistService.instance) {
+      WaitlistService.instance = new WaitlistService();
+    }
+    return WaitlistService.instance;
+  }
+
+  // Queues every pending line of the request that current stock cannot cover
+  async enqueue(request: BorrowRequest): Promise<void> {
+    try {
+      const components = await hybridDataService.getComponents();
+
+      for (const item of getRequestItems(request)) {
+        if (item.status !== 'pending') continue;
+
+        const component = components.find(c => c.id === item.componentId);
+        if (!component || component.availableQuantity >= item.quantity) continue;
+
+        if (component.waitlist?.some(entry => entry.requestId === request.id)) continue;
+
+        const entry: WaitlistEntry = {
+          requestId: request.id,
+          studentId: request.studentId,
+          quantity: item.quantity,
+          queuedAt: new Date().toISOString()
+        };
+        await hybridDataService.changeWaitlist({ type: 'joinWaitlist', componentId: component.id, entry });
+      }
+    } catch (error) {
+      console.error('Error adding request to waitlist:', error);
+    }
+  }
+
+  // Removes a request from the given components' queues (all of them by default) once its lines are reviewed
+  async dequeue(requestId: string, componentIds?: string[]): Promise<void> {
+    try {
+      const components = await hybridDataService.getComponents();
+
+      for (const component of components) {
+        if (componentIds && !componentIds.includes(component.id)) continue;
+        if (component.waitlist?.some(entry => entry.requestId === requestId)) {
+          await hybridDataService.changeWaitlist({ type: 'leaveWaitlist', componentId: component.id, requestId });
+        }
+      }
+    } catch (error) {
+      console.error('Error removing request from waitlist:', error);
+    }
+  }
+
+  getEntry(components: Component[], requestId: string): { component: Component; entry: WaitlistEntry; position: number } | null {
+    for (const component of components) {
+      const position = component.waitlist?.findIndex(entry => entry.requestId === requestId) ?? -1;
+      if (position !== -1) {
+        return { component, entry: component.waitlist![position], position: position + 1 };
+      }
+    }
+    return null;
+  }
+
+  // Serves the head of each component's queue while restored stock covers it. Under the
+  // notify_admin policy the head is only surfaced to the admin; auto_approve grants it directly,
+  // unless whoever restored the stock cannot review requests (an inventory manager restocking).
+  async promote(componentIds: string[]): Promise<void> {
+    try {
+      const [settings, components, requests] = await Promise.all([
+        hybridDataService.getSettings(),
+        hybridDataService.getComponents(),
+        hybridDataService.getRequests()
+      ]);
+
+      const autoApprove = settings.waitlistPolicy === 'auto_approve' && hybridDataService.allows('review_requests');
+
+      for (const componentId of new Set(componentIds)) {
+        const component = components.find(c => c.id === componentId);
+        if (!component?.waitlist?.length) continue;
+
+        const waitlist = [...component.waitlist];
+        let current = component;
+        const leave = (requestId: string) =>
+          hybridDataService.changeWaitlist({ type: 'leaveWaitlist', componentId, requestId });
+
+        while (waitlist.length > 0) {
+          const head = waitlist[0];
+          const request = requests.find(r => r.id === head.requestId);
+          const lineIndex = request
+            ? getRequestItems(request).findIndex(item => item.componentId === componentId && item.status === 'pending')
+            : -1;
+
+          // Drop entries whose request was already handled elsewhere
+          if (!request || request.status !== 'pending' || lineIndex === -1) {
+            waitlist.shift();
+            await leave(head.requestId);
+            continue;
+          }
+
+          if (head.quantity > current.availableQuantity) break;
+
+          if (autoApprove) {
+            waitlist.shift();
+            await leave(head.requestId);
+            // Serialized components hand out the first units on the shelf
+            const assetTags = current.serialized
+              ? getAvailableUnits(current).slice(0, head.quantity).map(unit => unit.assetTag)
+              : undefined;
+            const result = await this.approveLine(request, lineIndex, assetTags);
+            requests[requests.indexOf(request)] = result.request;
+            current = result.components.find(c => c.id === componentId) || current;
+            continue;
+          }
+
+          if (!head.surfacedAt) {
+            await hybridDataService.changeWaitlist({
+              type: 'surfaceWaitlistEntry',
+              componentId,
+              requestId: head.requestId,
+              surfacedAt: new Date().toISOString()
+            });
+            await this.surface(request, component, head);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Error promoting waitlisted requests:', error);
+    }
+  }
+
+  private async approveLine(request: BorrowRequest, lineIndex: number, assetTags?: string[]): Promise<StockTransactionResult> {
+    const items = getRequestItems(request);
+    const approvedItem: BorrowRequestItem = { ...items[lineIndex], status: 'approved', ...(assetTags ? { assetTags } : {}) };
+    const result = await requestLifecycleService.review(
+      request,
+      items.map((item, index) => index === lineIndex ? approvedItem : item),
+      { reviewedBy: 'Waitlist auto-approval', detail: 'It was on the waitlist and is back in stock.' }
+    );
+
+    await hybridDataService.notifyStaff('review_requests', {
+      id: `notif-${Date.now()}-staff`,
+      title: 'Waitlist Auto-Approved',
+      message: `${request.studentName}'s waitlisted request for ${formatItemList([approvedItem])} was approved automatically after a return.`,
+      type: 'info',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  private async surface(request: BorrowRequest, component: Component, entry: WaitlistEntry): Promise<void> {
+    await hybridDataService.notifyStaff('review_requests', {
+      id: `notif-${Date.now()}-staff`,
+      title: 'Waitlisted Request Ready',
+      message: `${component.name} is back in stock. ${request.studentName} is next on the waitlist for ${entry.quantity} unit(s). Review it in the admin panel.`,
+      type: 'warning',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+
+    await hybridDataService.addNotification({
+      id: `notif-${Date.now()}`,
+      userId: request.studentId,
+      title: 'Back in Stock',
+      message: `${component.name} is available again and you are next on the waitlist. The admin will review your request shortly.`,
+      type: 'info',
+      category: 'waitlist',
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
+
+export const waitlistService = WaitlistService.getInstance();
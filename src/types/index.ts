@@ -1,26 +1,144 @@
-export interface User {
+// admin is the lab head (super-admin); the other staff roles get a subset of its permissions (see utils/permissions)
+export type UserRole = 'student' | 'lab_assistant' | 'inventory_manager' | 'admin';
+
+// Stamped by firebaseService on every write; revision goes up by one each time, so an offline change can
+// tell whether the record moved on while it waited
+export interface Versioned {
+  revision?: number;
+  updatedAt?: string;
+}
+
+export interface User extends Versioned {
   id: string;
   name: string;
   email: string;
-  role: 'student' | 'admin';
+  role: UserRole;
   rollNo?: string;
   mobile?: string;
   registeredAt: string;
   lastLoginAt?: string;
   loginCount?: number;
   isActive?: boolean;
+  // Set on the users document when the password was exposed; the user must pick a new one before continuing
+  mustChangePassword?: boolean;
+  // Students only: penalty points and suspensions from late, damaged or lost returns
+  standing?: StudentStanding;
+  // Added from a class roster and not registered yet; the student takes the profile over on registration
+  invited?: boolean;
+  // Deactivated accounts (graduated students, duplicates) keep their history but cannot sign in
+  deactivatedAt?: string;
+  deactivatedBy?: string;
+  notificationPreferences?: NotificationPreferences;
 }
 
-export interface Component {
+export type PenaltyReason = 'late_return' | 'damaged' | 'lost' | 'adjustment';
+
+export interface PenaltyEntry {
+  id: string;
+  // Negative for admin adjustments in the student's favour
+  points: number;
+  reason: PenaltyReason;
+  requestId?: string;
+  note?: string;
+  recordedAt: string;
+  recordedBy: string;
+  // A waived entry stays on record but no longer counts
+  waivedAt?: string;
+  waivedBy?: string;
+  waiverReason?: string;
+}
+
+export interface Suspension {
+  startedAt: string;
+  endsAt: string;
+  // Points that triggered it; only points recorded after startedAt count towards the next one
+  points: number;
+  liftedAt?: string;
+  liftedBy?: string;
+  liftReason?: string;
+}
+
+export interface StudentStanding {
+  entries: PenaltyEntry[];
+  suspensions: Suspension[];
+}
+
+export interface Component extends Versioned {
   id: string;
   name: string;
   totalQuantity: number;
   availableQuantity: number;
   category: string;
   description?: string;
+  // Requests queued for this component in arrival order, head first
+  waitlist?: WaitlistEntry[];
+  // Units removed from totalQuantity because they came back damaged or never came back
+  writeOffs?: StockWriteOff[];
+  // Serialized components track every unit; the quantities are then derived from units
+  serialized?: boolean;
+  units?: AssetUnit[];
+}
+
+export type AssetCondition = 'new' | 'good' | 'worn' | 'damaged';
+export type AssetStatus = 'available' | 'on_loan' | 'written_off';
+export type ReturnOutcome = 'good' | 'damaged' | 'lost';
+
+export interface AssetUnit {
+  assetTag: string;
+  serialNumber?: string;
+  condition: AssetCondition;
+  status: AssetStatus;
+  // Request currently holding the unit, set only while it is on loan
+  requestId?: string;
+  history?: AssetLoan[];
+}
+
+export interface AssetLoan {
+  requestId: string;
+  studentName: string;
+  issuedAt: string;
+  returnedAt?: string;
+  outcome?: ReturnOutcome;
+}
+
+export interface StockWriteOff {
+  requestId: string;
+  studentName: string;
+  quantity: number;
+  reason: 'damaged' | 'lost';
+  notes?: string;
+  recordedAt: string;
+  recordedBy: string;
+}
+
+export interface WaitlistEntry {
+  requestId: string;
+  studentId: string;
+  quantity: number;
+  queuedAt: string;
+  // Set once the admin has been told stock is available, so they are not notified twice
+  surfacedAt?: string;
 }
 
-export interface BorrowRequest {
+export type RequestItemStatus = 'pending' | 'approved' | 'rejected';
+
+export interface BorrowRequestItem {
+  componentId: string;
+  componentName: string;
+  quantity: number;
+  status: RequestItemStatus;
+  notes?: string;
+  // Set when an admin grants less than was asked for; quantity then holds the granted amount
+  requestedQuantity?: number;
+  adjustmentReason?: string;
+  // Units issued against this line when the component is serialized
+  assetTags?: string[];
+}
+
+// ready_for_pickup: approved and stock reserved; checked_out: the student holds the items
+export type RequestStatus = 'pending' | 'ready_for_pickup' | 'checked_out' | 'rejected' | 'returned' | 'expired';
+
+export interface BorrowRequest extends Versioned {
   id: string;
   studentId: string;
   studentName: string;
@@ -31,29 +149,104 @@ export interface BorrowRequest {
   quantity: number;
   requestDate: string;
   dueDate: string;
-  status: 'pending' | 'approved' | 'rejected' | 'returned';
+  status: RequestStatus;
   approvedBy?: string;
   approvedAt?: string;
+  // User id of the staff member who approved it; approvedBy holds their name
+  approvedById?: string;
+  // Approved stock is held until this time; uncollected requests then expire and release it
+  pickupDeadline?: string;
+  checkedOutAt?: string;
+  checkedOutBy?: string;
+  expiredAt?: string;
   returnedAt?: string;
   notes?: string;
+  // Cart requests carry one line per component; componentId/componentName/quantity
+  // then hold the first component, a combined label and the total unit count.
+  items?: BorrowRequestItem[];
+  // Id of the partially approved request this waitlisted remainder was split from
+  waitlistedFrom?: string;
+  // Each return handed in against this request; it stays checked out until every line is resolved
+  returns?: ReturnRecord[];
+  // Extension requests in the order they were made; approved ones moved dueDate
+  extensions?: LoanExtension[];
+  // Reminders already sent, keyed by offset and due date so an extension starts a fresh schedule
+  remindersSent?: string[];
 }
 
-export interface Notification {
+export type ExtensionStatus = 'pending' | 'approved' | 'denied';
+
+export interface LoanExtension {
+  id: string;
+  requestedAt: string;
+  previousDueDate: string;
+  proposedDueDate: string;
+  reason: string;
+  status: ExtensionStatus;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  // Shown to the student when an extension is denied
+  response?: string;
+}
+
+export interface ExtensionReview {
+  extensionId: string;
+  approved: boolean;
+  reviewedAt: string;
+  reviewedBy: string;
+  response?: string;
+}
+
+export interface ReturnLine {
+  lineIndex: number;
+  good: number;
+  damaged: number;
+  lost: number;
+  // Per-unit outcomes for serialized components; the counts above are derived from them
+  units?: ReturnedUnit[];
+}
+
+export interface ReturnedUnit {
+  assetTag: string;
+  outcome: ReturnOutcome;
+}
+
+export interface ReturnRecord {
+  lines: ReturnLine[];
+  notes?: string;
+  recordedAt: string;
+  recordedBy: string;
+}
+
+// What a review, checkout, expiry or return transaction committed: the request and every component whose stock it changed
+export interface StockTransactionResult {
+  request: BorrowRequest;
+  components: Component[];
+}
+
+// Kinds of notification a student may mute; anything else (overdue notices, penalties) is always shown
+export type NotificationCategory = 'due_reminder' | 'request_update' | 'waitlist';
+
+// false mutes the category; categories left out stay on
+export type NotificationPreferences = Partial<Record<NotificationCategory, boolean>>;
+
+export interface Notification extends Versioned {
   id: string;
   userId: string;
   title: string;
   message: string;
   type: 'info' | 'success' | 'warning' | 'error';
+  category?: NotificationCategory;
   read: boolean;
   createdAt: string;
 }
 
-export interface LoginSession {
+export interface LoginSession extends Versioned {
   id: string;
   userId: string;
   userEmail: string;
   userName: string;
-  userRole: 'student' | 'admin';
+  userRole: UserRole;
   loginTime: string;
   logoutTime?: string;
   ipAddress?: string;
@@ -63,6 +256,35 @@ export interface LoginSession {
   isActive: boolean;
 }
 
+export type ConflictCollection = 'requests' | 'components' | 'users';
+
+export interface ConflictField {
+  field: string;
+  // Value when the change was made, the value queued offline, and the value found in Firestore at replay
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+// An offline change that could not be merged automatically; the fields that did merge were applied already
+export interface SyncConflict {
+  id: string;
+  collection: ConflictCollection;
+  documentId: string;
+  // Component, student or request name for the review screen
+  label: string;
+  fields: ConflictField[];
+  baseRevision: number;
+  remoteRevision: number;
+  queuedBy: string;
+  queuedAt: string;
+  detectedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  // The side each field kept
+  resolution?: Record<string, 'local' | 'remote'>;
+}
+
 export interface SystemData {
   users: User[];
   components: Component[];
@@ -80,4 +302,65 @@ export interface SystemStats {
   pendingRequests: number;
   totalComponents: number;
   overdueItems: number;
-}
\ No newline at end of file
+}
+
+export type WaitlistPolicy = 'notify_admin' | 'auto_approve';
+
+export interface LabSettings {
+  waitlistPolicy: WaitlistPolicy;
+  pickupWindowHours: number;
+  // Extension limits: approved renewals per loan, and the longest a loan may run from pickup
+  maxRenewals: number;
+  maxLoanDays: number;
+  reminders: ReminderSettings;
+  policy: BorrowingPolicy;
+  penalties: PenaltySettings;
+}
+
+export interface PenaltySettings {
+  pointsPerLateDay: number;
+  // Per unit written off at return
+  damagedPoints: number;
+  lostPoints: number;
+  // Reaching this many points suspends borrowing for suspensionDays
+  suspensionThreshold: number;
+  suspensionDays: number;
+}
+
+export interface ReminderSettings {
+  // Days relative to the due date to remind the student on: -3 is three days before, 7 is a week overdue
+  offsets: number[];
+  // Days overdue before the admin is told as well
+  escalateAfterDays: number;
+}
+
+// Limits checked when a student submits a request and again when an admin approves it
+export interface BorrowingPolicy {
+  // Most units of any one component a student may hold or have requested at once
+  maxPerComponent: number;
+  // Open requests (pending, awaiting pickup or checked out) a student may have at once
+  maxConcurrentLoans: number;
+  // Requests must be made at least this many days before their due date
+  minLeadDays: number;
+  // Students with an overdue loan cannot borrow more until it is back
+  blockOverdue: boolean;
+  categoryLimits: CategoryLimit[];
+  blackouts: BlackoutPeriod[];
+}
+
+// Stricter limits for one component category; unset fields fall back to the lab-wide ones
+export interface CategoryLimit {
+  category: string;
+  maxPerComponent?: number;
+  // Units across every component in the category
+  maxTotal?: number;
+  maxLoanDays?: number;
+}
+
+// Dates (inclusive, YYYY-MM-DD) when the lab takes no requests and no loans may fall due, e.g. exam weeks
+export interface BlackoutPeriod {
+  id: string;
+  label: string;
+  start: string;
+  end: string;
+}
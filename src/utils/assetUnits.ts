@@ -0,0 +1,23 @@
+import { AssetUnit, Component } from '../types';
+
+// Matches a scanned or typed code against asset tags and serial numbers
+export const findUnit = (units: AssetUnit[], code: string): AssetUnit | undefined => {
+  const normalized = code.trim().toLowerCase();
+  return units.find(unit =>
+    unit.assetTag.toLowerCase() === normalized || unit.serialNumber?.toLowerCase() === normalized
+  );
+};
+
+export const getAvailableUnits = (component: Component | undefined): AssetUnit[] => {
+  return (component?.units || []).filter(unit => unit.status === 'available');
+};
+
+export const getUnitsOnLoan = (component: Component | undefined, requestId: string): AssetUnit[] => {
+  return (component?.units || []).filter(unit => unit.status === 'on_loan' && unit.requestId === requestId);
+};
+
+// Serialized quantities always follow the units: written-off units leave the total
+export const countUnits = (units: AssetUnit[]) => ({
+  totalQuantity: units.filter(unit => unit.status !== 'written_off').length,
+  availableQuantity: units.filter(unit => unit.status === 'available').length,
+});
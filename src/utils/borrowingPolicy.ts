@@ -0,0 +1,122 @@
+import { BlackoutPeriod, BorrowRequest, BorrowRequestItem, Component, LabSettings, StudentStanding } from '../types';
+import { MAX_REQUEST_LINES, getRequestItems, getApprovedItems, getOutstandingLines } from './requestItems';
+import { isOverdue } from './requestLifecycle';
+import { getSuspensionBlocker } from './standing';
+
+export type PolicyLimits = Pick<LabSettings, 'policy' | 'maxLoanDays'>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string | Date): string => new Date(date).toISOString().split('T')[0];
+
+// Units a request counts against the student's limits: everything still asked for, reserved or on loan
+export const getHeldLines = (request: BorrowRequest): BorrowRequestItem[] => {
+  switch (request.status) {
+    case 'pending':
+      return getRequestItems(request).filter(item => item.status !== 'rejected');
+    case 'ready_for_pickup':
+      return getApprovedItems(request);
+    case 'checked_out':
+      return getOutstandingLines(request);
+    default:
+      return [];
+  }
+};
+
+export const getActiveBlackout = (date: string | Date, blackouts: BlackoutPeriod[]): BlackoutPeriod | undefined => {
+  const day = toDay(date);
+  return blackouts.find(period => period.start <= day && day <= period.end);
+};
+
+// Days from the request to its due date, which is also how long the loan runs once picked up
+export const getRequestedLoanDays = (request: BorrowRequest): number => {
+  return Math.ceil((new Date(request.dueDate).getTime() - new Date(request.requestDate).getTime()) / DAY);
+};
+
+// Every policy rule the request breaks given the student's other requests, or an empty list when it may go ahead.
+// Checked against the cart before submitting and against the granted lines before approving.
+export const getPolicyViolations = (
+  request: BorrowRequest,
+  studentRequests: BorrowRequest[],
+  components: Component[],
+  settings: PolicyLimits,
+  standing?: StudentStanding,
+  now: Date = new Date()
+): string[] => {
+  const { policy } = settings;
+  const violations: string[] = [];
+
+  const suspended = getSuspensionBlocker(standing, now);
+  if (suspended) {
+    violations.push(suspended);
+  }
+  const others = studentRequests.filter(r => r.id !== request.id && r.studentId === request.studentId);
+  const lines = getHeldLines(request);
+  const getCategory = (componentId: string) => components.find(c => c.id === componentId)?.category || '';
+  const getCategoryLimit = (category: string) => policy.categoryLimits.find(limit => limit.category === category);
+
+  if (policy.blockOverdue && others.some(r => isOverdue(r, now))) {
+    violations.push('Overdue items must be returned before borrowing anything else');
+  }
+
+  const openRequests = others.filter(r => getHeldLines(r).length > 0).length;
+  if (openRequests + 1 > policy.maxConcurrentLoans) {
+    violations.push(`Only ${policy.maxConcurrentLoans} open request(s) are allowed at a time`);
+  }
+
+  if (getRequestItems(request).length > MAX_REQUEST_LINES) {
+    violations.push(`A request can hold at most ${MAX_REQUEST_LINES} components`);
+  }
+
+  const closed = getActiveBlackout(request.requestDate, policy.blackouts);
+  if (closed) {
+    violations.push(`The lab is not taking requests during ${closed.label} (${closed.start} to ${closed.end})`);
+  }
+
+  if (request.dueDate) {
+    const dueBlackout = getActiveBlackout(request.dueDate, policy.blackouts);
+    if (dueBlackout) {
+      violations.push(`Loans cannot fall due during ${dueBlackout.label} (${dueBlackout.start} to ${dueBlackout.end})`);
+    }
+
+    const loanDays = getRequestedLoanDays(request);
+    if (loanDays < policy.minLeadDays) {
+      violations.push(`The due date must be at least ${policy.minLeadDays} day(s) after the request`);
+    }
+    if (loanDays > settings.maxLoanDays) {
+      violations.push(`Loans cannot run longer than ${settings.maxLoanDays} days`);
+    }
+    new Set(lines.map(line => getCategory(line.componentId))).forEach(category => {
+      const maxLoanDays = getCategoryLimit(category)?.maxLoanDays;
+      if (maxLoanDays !== undefined && loanDays > maxLoanDays && maxLoanDays < settings.maxLoanDays) {
+        violations.push(`${category} components can be borrowed for at most ${maxLoanDays} days`);
+      }
+    });
+  }
+
+  const held = others.flatMap(getHeldLines);
+  const sumQuantity = (items: BorrowRequestItem[], match: (item: BorrowRequestItem) => boolean) =>
+    items.filter(match).reduce((sum, item) => sum + item.quantity, 0);
+
+  new Set(lines.map(line => line.componentId)).forEach(componentId => {
+    const isComponent = (item: BorrowRequestItem) => item.componentId === componentId;
+    const limit = getCategoryLimit(getCategory(componentId))?.maxPerComponent ?? policy.maxPerComponent;
+    const alreadyHeld = sumQuantity(held, isComponent);
+    if (alreadyHeld + sumQuantity(lines, isComponent) > limit) {
+      const name = lines.find(isComponent)?.componentName;
+      violations.push(`At most ${limit} ${name} per student${alreadyHeld > 0 ? ` (${alreadyHeld} already requested or on loan)` : ''}`);
+    }
+  });
+
+  new Set(lines.map(line => getCategory(line.componentId))).forEach(category => {
+    const maxTotal = getCategoryLimit(category)?.maxTotal;
+    if (maxTotal === undefined) return;
+    const inCategory = (item: BorrowRequestItem) => getCategory(item.componentId) === category;
+    const alreadyHeld = sumQuantity(held, inCategory);
+    if (alreadyHeld + sumQuantity(lines, inCategory) > maxTotal) {
+      violations.push(`At most ${maxTotal} ${category} units per student${alreadyHeld > 0 ? ` (${alreadyHeld} already requested or on loan)` : ''}`);
+    }
+  });
+
+  return violations;
+};
@@ -0,0 +1,88 @@
+import { ConflictCollection, ConflictField, Versioned } from '../types';
+import { Permission } from './permissions';
+
+// Counters merge as a delta: the amount the offline change moved them is added to whatever the backend holds
+const counterFields: Record<ConflictCollection, string[]> = {
+  components: ['availableQuantity', 'totalQuantity'],
+  requests: [],
+  users: ['loginCount'],
+};
+
+export const conflictPermissions: Record<ConflictCollection, Permission> = {
+  components: 'manage_inventory',
+  requests: 'review_requests',
+  users: 'manage_users',
+};
+
+export const conflictCollectionLabels: Record<ConflictCollection, string> = {
+  components: 'Component',
+  requests: 'Request',
+  users: 'User',
+};
+
+type LabelFields = Partial<Record<'name' | 'email' | 'studentName' | 'componentName', string>>;
+
+export const conflictLabel = (collection: ConflictCollection, record: LabelFields): string => {
+  switch (collection) {
+    case 'components':
+      return record.name || 'Unnamed component';
+    case 'users':
+      return record.name || record.email || 'Unknown user';
+    case 'requests':
+      return `${record.studentName || 'Unknown student'}: ${record.componentName || 'request'}`;
+  }
+};
+
+const versionFields = ['id', 'revision', 'updatedAt'];
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Later revision wins; records from before versioning fall back to their timestamps
+export const isNewerVersion = (a: Versioned, b: Versioned): boolean =>
+  (a.revision || 0) !== (b.revision || 0)
+    ? (a.revision || 0) > (b.revision || 0)
+    : (a.updatedAt || '') > (b.updatedAt || '');
+
+// Three-way merge of an offline change against the record as the backend has it now. A field only one side
+// changed keeps that side's value, counters add up, and a field both sides changed differently is a conflict.
+export const mergeChanges = (
+  collection: ConflictCollection,
+  base: Record<string, unknown>,
+  changes: Record<string, unknown>,
+  current: Record<string, unknown>
+): { merged: Record<string, unknown>; conflicts: ConflictField[] } => {
+  const merged: Record<string, unknown> = {};
+  const conflicts: ConflictField[] = [];
+
+  Object.entries(changes).forEach(([field, value]) => {
+    if (versionFields.includes(field)) return;
+    // Firestore stores null, not undefined
+    const local = value ?? null;
+    const baseValue = base[field] ?? null;
+    const remote = current[field] ?? null;
+    if (sameValue(local, baseValue) || sameValue(local, remote)) return;
+    if (sameValue(remote, baseValue)) {
+      merged[field] = local;
+      return;
+    }
+
+    if (counterFields[collection].includes(field) &&
+        typeof local === 'number' && typeof remote === 'number' && typeof baseValue === 'number') {
+      const total = remote + (local - baseValue);
+      if (total >= 0) {
+        merged[field] = total;
+        return;
+      }
+    }
+
+    conflicts.push({ field, base: baseValue, local, remote });
+  });
+
+  return { merged, conflicts };
+};
+
+export const formatConflictValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
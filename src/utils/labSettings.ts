@@ -0,0 +1,27 @@
+import { LabSettings } from '../types';
+
+export const defaultLabSettings: LabSettings = {
+  waitlistPolicy: 'notify_admin',
+  pickupWindowHours: 48,
+  maxRenewals: 2,
+  maxLoanDays: 30,
+  reminders: {
+    offsets: [-3, 0, 1, 3, 7],
+    escalateAfterDays: 3
+  },
+  policy: {
+    maxPerComponent: 10,
+    maxConcurrentLoans: 3,
+    minLeadDays: 1,
+    blockOverdue: true,
+    categoryLimits: [],
+    blackouts: []
+  },
+  penalties: {
+    pointsPerLateDay: 1,
+    damagedPoints: 3,
+    lostPoints: 5,
+    suspensionThreshold: 10,
+    suspensionDays: 14
+  }
+};
@@ -0,0 +1,64 @@
+import { AssetUnit, BorrowRequest, Component } from '../types';
+import { findUnit } from './assetUnits';
+import { getOutstandingItems } from './requestItems';
+import { isOpenLoan } from './requestLifecycle';
+
+// Label payloads carry a prefix so counter scans can tell our labels apart from other barcodes
+const LABEL_PREFIX = 'IALAB';
+
+export interface LabelTarget {
+  componentId: string;
+  assetTag?: string;
+}
+
+export const encodeLabel = ({ componentId, assetTag }: LabelTarget): string => {
+  return assetTag ? `${LABEL_PREFIX}:U:${componentId}:${assetTag}` : `${LABEL_PREFIX}:C:${componentId}`;
+};
+
+export const parseLabel = (code: string): LabelTarget | null => {
+  const [prefix, kind, componentId, ...rest] = code.trim().split(':');
+  if (prefix !== LABEL_PREFIX || !componentId) return null;
+
+  if (kind === 'C') return { componentId };
+  if (kind === 'U' && rest.length > 0) return { componentId, assetTag: rest.join(':') };
+  return null;
+};
+
+export interface ScanMatch {
+  component?: Component;
+  unit?: AssetUnit;
+  // Pickups and open loans the scanned code points at
+  requests: BorrowRequest[];
+}
+
+// Resolves a counter scan: one of our labels, a bare asset tag or serial, a component id or a request id
+export const resolveScan = (code: string, components: Component[], requests: BorrowRequest[]): ScanMatch | null => {
+  const openLoans = requests.filter(isOpenLoan);
+  const target = parseLabel(code);
+
+  let component: Component | undefined;
+  let unit: AssetUnit | undefined;
+  if (target) {
+    component = components.find(c => c.id === target.componentId);
+    unit = target.assetTag ? component?.units?.find(u => u.assetTag === target.assetTag) : undefined;
+  } else {
+    const request = openLoans.find(r => r.id === code.trim());
+    if (request) return { requests: [request] };
+
+    component = components.find(c => c.serialized && findUnit(c.units || [], code));
+    unit = component && findUnit(component.units || [], code);
+    component = component || components.find(c => c.id === code.trim());
+  }
+
+  if (!component) return null;
+
+  const { id: componentId } = component;
+  const loanId = unit?.status === 'on_loan' ? unit.requestId : undefined;
+  return {
+    component,
+    unit,
+    requests: loanId
+      ? openLoans.filter(request => request.id === loanId)
+      : openLoans.filter(request => getOutstandingItems(request).some(({ item }) => item.componentId === componentId)),
+  };
+};
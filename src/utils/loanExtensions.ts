@@ -0,0 +1,63 @@
+import { BorrowRequest, Component, LabSettings, LoanExtension } from '../types';
+import { getOutstandingItems } from './requestItems';
+
+export type ExtensionLimits = Pick<LabSettings, 'maxRenewals' | 'maxLoanDays'>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const getPendingExtension = (request: BorrowRequest): LoanExtension | undefined => {
+  return request.extensions?.find(extension => extension.status === 'pending');
+};
+
+export const getRenewalCount = (request: BorrowRequest): number => {
+  return (request.extensions || []).filter(extension => extension.status === 'approved').length;
+};
+
+export const getLoanStart = (request: BorrowRequest): string => {
+  return request.checkedOutAt || request.approvedAt || request.requestDate;
+};
+
+// The latest due date the loan length limit allows
+export const getLatestDueDate = (request: BorrowRequest, limits: ExtensionLimits): Date => {
+  return new Date(new Date(getLoanStart(request)).getTime() + limits.maxLoanDays * DAY);
+};
+
+// Why a renewal cannot be granted from the request alone, or null when it can.
+// Pass the proposed date to check it as well; leave it out to ask whether any extension is possible.
+export const getExtensionBlocker = (
+  request: BorrowRequest,
+  limits: ExtensionLimits,
+  proposedDueDate?: string
+): string | null => {
+  if (request.status !== 'checked_out') {
+    return 'Only items you have picked up can be extended';
+  }
+  if (getRenewalCount(request) >= limits.maxRenewals) {
+    return `This loan has already been extended the maximum of ${limits.maxRenewals} time(s)`;
+  }
+
+  const latest = getLatestDueDate(request, limits);
+  if (new Date(request.dueDate) >= latest) {
+    return `Loans cannot run longer than ${limits.maxLoanDays} days`;
+  }
+  if (proposedDueDate) {
+    if (new Date(proposedDueDate) <= new Date(request.dueDate)) {
+      return 'The new due date must be after the current one';
+    }
+    if (new Date(proposedDueDate) > latest) {
+      return `Loans cannot run longer than ${limits.maxLoanDays} days, so the latest due date is ${latest.toLocaleDateString()}`;
+    }
+  }
+  return null;
+};
+
+// Other students queued for anything still on this loan take priority over a renewal
+export const getWaitlistBlocker = (request: BorrowRequest, components: Component[]): string | null => {
+  const waitlisted = getOutstandingItems(request)
+    .map(({ item }) => components.find(c => c.id === item.componentId))
+    .filter((component): component is Component => !!component?.waitlist?.length);
+
+  return waitlisted.length > 0
+    ? `Other students are waiting for ${waitlisted.map(component => component.name).join(', ')}`
+    : null;
+};
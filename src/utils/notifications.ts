@@ -0,0 +1,12 @@
+import { Notification, NotificationCategory, NotificationPreferences } from '../types';
+
+export const notificationCategories: { id: NotificationCategory; label: string; description: string }[] = [
+  { id: 'due_reminder', label: 'Due date reminders', description: 'Heads-up before a loan is due. Overdue notices are always sent.' },
+  { id: 'request_update', label: 'Request updates', description: 'Approvals, pickups, extensions and returns' },
+  { id: 'waitlist', label: 'Waitlist updates', description: 'When a component you are waiting for is back in stock' },
+];
+
+// Muted notifications are still written, so whoever sends them needs no access to the recipient's
+// preferences; they are only left out when the notifications are shown
+export const isMuted = (notification: Notification, preferences: NotificationPreferences = {}): boolean =>
+  !!notification.category && preferences[notification.category] === false;
@@ -0,0 +1,130 @@
+import { BorrowRequest, Component, ExtensionReview, LabSettings, LoanExtension, LoginSession, Notification, PenaltyEntry, ReturnRecord, SyncConflict, User, Versioned, WaitlistEntry } from '../types';
+import { ExtensionLimits } from './loanExtensions';
+
+// What an update was made against: the stored values of the fields it changes and the record's revision.
+// Replay compares these with the backend's copy to merge around edits made in the meantime (see utils/conflicts).
+export interface ChangeBase<T> {
+  base?: Partial<T>;
+  baseRevision?: number;
+}
+
+export const changeBase = <T extends Versioned>(stored: T | undefined, changes: Partial<T>): ChangeBase<T> => stored ? {
+  base: Object.fromEntries(Object.keys(changes).map(field => [field, stored[field as keyof T] ?? null])) as Partial<T>,
+  baseRevision: stored.revision || 0
+} : {};
+
+// A write to the storage backend (see services/storageBackend). The same command is sent straight away
+// when the backend can be reached, and queued here to replay in order when it cannot.
+export type EntityMutation =
+  | { type: 'createRequest'; request: BorrowRequest }
+  | ({ type: 'updateRequest'; requestId: string; changes: Partial<BorrowRequest> } & ChangeBase<BorrowRequest>)
+  | { type: 'createComponent'; component: Component }
+  | ({ type: 'updateComponent'; componentId: string; changes: Partial<Component> } & ChangeBase<Component>)
+  | { type: 'deleteComponent'; componentId: string }
+  // Applied to the waitlist as stored rather than writing the whole queue back (see utils/waitlist)
+  | { type: 'joinWaitlist'; componentId: string; entry: WaitlistEntry }
+  | { type: 'leaveWaitlist'; componentId: string; requestId: string }
+  | { type: 'surfaceWaitlistEntry'; componentId: string; requestId: string; surfacedAt: string }
+  | { type: 'createUser'; user: User }
+  | ({ type: 'updateUser'; userId: string; changes: Partial<User> } & ChangeBase<User>)
+  // Applied to the standing as stored, with the stored penalty settings (see utils/standing)
+  | { type: 'chargeReturn'; userId: string; request: BorrowRequest; record: ReturnRecord }
+  | { type: 'adjustStanding'; userId: string; entry: PenaltyEntry }
+  | { type: 'waivePenalty'; userId: string; entryId: string; waivedAt: string; waivedBy: string; reason: string }
+  | { type: 'liftSuspension'; userId: string; liftedAt: string; liftedBy: string; reason: string }
+  | { type: 'createNotification'; notification: Notification }
+  | { type: 'markNotificationRead'; notificationId: string }
+  | { type: 'updateSettings'; settings: LabSettings }
+  | { type: 'createLoginSession'; session: LoginSession }
+  | { type: 'updateLoginSession'; sessionId: string; changes: Partial<LoginSession> }
+  // Account administration and conflict resolution need the backend and are never queued
+  | { type: 'adoptProfile'; profile: User; previousId: string }
+  | { type: 'importUsers'; users: User[] }
+  | { type: 'mergeUsers'; merged: User; duplicateId: string }
+  | { type: 'setUserDeactivation'; userId: string; deactivation: Required<Pick<User, 'deactivatedAt' | 'deactivatedBy'>> | null }
+  | { type: 'deleteUser'; userId: string }
+  | { type: 'resolveSyncConflict'; conflict: SyncConflict; resolution: Record<string, 'local' | 'remote'>; resolvedBy: string };
+
+// Stock transactions are replayed as transactions, so they are checked again against the stock of the time
+export type TransitionMutation =
+  | { type: 'reviewRequest'; request: BorrowRequest }
+  | { type: 'checkOutRequest'; requestId: string; checkedOutAt: string; checkedOutBy: string }
+  | { type: 'expireRequest'; requestId: string; expiredAt: string }
+  | { type: 'requestExtension'; requestId: string; extension: LoanExtension; limits: ExtensionLimits }
+  | { type: 'reviewExtension'; requestId: string; review: ExtensionReview; limits: ExtensionLimits }
+  | { type: 'returnRequest'; requestId: string; record: ReturnRecord };
+
+export type OutboxMutation = EntityMutation | TransitionMutation;
+
+const transitionTypes: TransitionMutation['type'][] = ['reviewRequest', 'checkOutRequest', 'expireRequest', 'requestExtension', 'reviewExtension', 'returnRequest'];
+
+export const isTransition = (mutation: OutboxMutation): mutation is TransitionMutation =>
+  (transitionTypes as string[]).includes(mutation.type);
+
+export interface OutboxEntry {
+  // Also the idempotency key: the backend stores a receipt under it in the same write, so a replay of a
+  // write that already landed is skipped
+  id: string;
+  // Assigned by IndexedDB; entries replay strictly in this order
+  sequence?: number;
+  // Replayed only while this user is signed in, since the security rules check the writer
+  userId: string;
+  mutation: OutboxMutation;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  // Set when the backend refused the write outright; failed entries are kept for review but not retried
+  failedAt?: string;
+}
+
+// Kept by the backend under the entry's id once the entry has been applied
+export interface OutboxReceipt {
+  id: string;
+  userId: string;
+  type: OutboxMutation['type'];
+  queuedAt: string;
+  appliedAt: string;
+}
+
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Exponential backoff: 5s, 10s, 20s... capped at five minutes
+export const getRetryDelay = (attempts: number): number => Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+
+const mutationLabels: Record<OutboxMutation['type'], string> = {
+  createRequest: 'New request',
+  updateRequest: 'Request update',
+  createComponent: 'New component',
+  updateComponent: 'Component update',
+  deleteComponent: 'Component removal',
+  joinWaitlist: 'Waitlist join',
+  leaveWaitlist: 'Waitlist removal',
+  surfaceWaitlistEntry: 'Waitlist notice',
+  createUser: 'New profile',
+  updateUser: 'Profile update',
+  chargeReturn: 'Return penalty',
+  adjustStanding: 'Penalty adjustment',
+  waivePenalty: 'Penalty waiver',
+  liftSuspension: 'Suspension lift',
+  createNotification: 'Notification',
+  markNotificationRead: 'Notification read',
+  updateSettings: 'Lab settings',
+  createLoginSession: 'Sign-in',
+  updateLoginSession: 'Sign-out',
+  adoptProfile: 'Roster profile',
+  importUsers: 'Roster import',
+  mergeUsers: 'Account merge',
+  setUserDeactivation: 'Account status',
+  deleteUser: 'Account removal',
+  resolveSyncConflict: 'Conflict resolution',
+  reviewRequest: 'Request review',
+  checkOutRequest: 'Pickup',
+  expireRequest: 'Pickup expiry',
+  requestExtension: 'Extension request',
+  reviewExtension: 'Extension review',
+  returnRequest: 'Return',
+};
+
+export const describeMutation = (mutation: OutboxMutation): string => mutationLabels[mutation.type];
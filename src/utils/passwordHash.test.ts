@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, isPasswordHash, verifyPassword } from './passwordHash';
+
+describe('passwordHash', () => {
+  it('verifies the password it hashed', async () => {
+    const stored = await hashPassword('correct horse battery staple');
+
+    expect(isPasswordHash(stored)).toBe(true);
+    expect(await verifyPassword('correct horse battery staple', stored)).toBe(true);
+  });
+
+  it('refuses a wrong password', async () => {
+    const stored = await hashPassword('correct horse battery staple');
+
+    expect(await verifyPassword('correct horse battery stapler', stored)).toBe(false);
+    expect(await verifyPassword('', stored)).toBe(false);
+  });
+
+  it('salts every hash and never contains the password', async () => {
+    const [first, second] = await Promise.all([hashPassword('s3cret-pass'), hashPassword('s3cret-pass')]);
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('s3cret-pass');
+  });
+
+  it('refuses a plaintext value stored by an earlier version', async () => {
+    expect(await verifyPassword('s3cret-pass', 's3cret-pass')).toBe(false);
+  });
+});
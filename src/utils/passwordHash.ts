@@ -0,0 +1,38 @@
+// Salted PBKDF2 hashes for the offline credential store, stored as pbkdf2$sha256$<iterations>$<salt>$<hash>
+const ALGORITHM = 'sha256';
+const ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+  return new Uint8Array(bits);
+};
+
+export const isPasswordHash = (value: string): boolean => value.startsWith(`pbkdf2$${ALGORITHM}$`);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return ['pbkdf2', ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!isPasswordHash(stored)) return false;
+
+  const [, , iterations, salt, expected] = stored.split('$');
+  const actual = await derive(password, fromBase64(salt), parseInt(iterations));
+  const expectedBytes = fromBase64(expected);
+
+  // Compare every byte so the time taken does not reveal how much of the hash matched
+  let difference = actual.length ^ expectedBytes.length;
+  for (let i = 0; i < actual.length; i++) {
+    difference |= actual[i] ^ (expectedBytes[i] ?? 0);
+  }
+  return difference === 0;
+};
@@ -0,0 +1,54 @@
+import { Notification, User, UserRole } from '../types';
+
+export type Permission =
+  | 'review_requests'
+  | 'manage_returns'
+  | 'manage_inventory'
+  | 'manage_policy'
+  | 'manage_standing'
+  | 'manage_users'
+  | 'view_analytics';
+
+export const staffRoles: UserRole[] = ['admin', 'lab_assistant', 'inventory_manager'];
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  student: [],
+  lab_assistant: ['review_requests', 'manage_returns'],
+  inventory_manager: ['manage_inventory'],
+  admin: ['review_requests', 'manage_returns', 'manage_inventory', 'manage_policy', 'manage_standing', 'manage_users', 'view_analytics'],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  student: 'Student',
+  lab_assistant: 'Lab Assistant',
+  inventory_manager: 'Inventory Manager',
+  admin: 'Super Admin',
+};
+
+export const roleDescriptions: Record<UserRole, string> = {
+  student: 'Borrows components',
+  lab_assistant: 'Approves requests, hands out and takes back components',
+  inventory_manager: 'Edits components and stock levels',
+  admin: 'Everything, including policy, standing and staff roles',
+};
+
+// Raised when the signed-in user's role does not allow an operation
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+export const isStaff = (user: Pick<User, 'role'> | null | undefined): boolean => !!user && staffRoles.includes(user.role);
+
+export const can = (user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean =>
+  !!user && (rolePermissions[user.role] || []).includes(permission);
+
+// One copy of a staff notice for everyone whose role includes the permission
+export const staffNotifications = (staff: User[], permission: Permission, notice: Omit<Notification, 'userId'>): Notification[] =>
+  staff.filter(member => can(member, permission)).map(member => ({
+    ...notice,
+    id: `${notice.id}-${member.id}`,
+    userId: member.id,
+  }));
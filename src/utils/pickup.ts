@@ -0,0 +1,31 @@
+import { BorrowRequest, Notification } from '../types';
+import { formatItemList, getApprovedItems } from './requestItems';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const getPickupDeadline = (approvedAt: string, windowHours: number): string => {
+  return new Date(new Date(approvedAt).getTime() + windowHours * HOUR).toISOString();
+};
+
+export const isPickupExpired = (request: BorrowRequest, now: Date = new Date()): boolean => {
+  return request.status === 'ready_for_pickup' && !!request.pickupDeadline && new Date(request.pickupDeadline) < now;
+};
+
+// The loan runs for as many days as the student asked for, counted from pickup rather than from the request
+export const getCheckoutDueDate = (request: BorrowRequest, checkedOutAt: string): string => {
+  const requested = new Date(request.dueDate).getTime() - new Date(request.requestDate).getTime();
+  const loanDays = Math.max(1, Math.ceil(requested / DAY));
+  return new Date(new Date(checkedOutAt).getTime() + loanDays * DAY).toISOString();
+};
+
+export const pickupExpiredNotification = (request: BorrowRequest): Notification => ({
+  id: `notif-${Date.now()}`,
+  userId: request.studentId,
+  title: 'Pickup Window Expired',
+  message: `Your approved request for ${formatItemList(getApprovedItems(request))} was not collected in time and has expired. The items have been released to other students.`,
+  type: 'warning',
+  category: 'request_update',
+  read: false,
+  createdAt: new Date().toISOString()
+});
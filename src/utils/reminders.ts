@@ -0,0 +1,78 @@
+import { BorrowRequest, Notification, ReminderSettings } from '../types';
+import { getOutstandingLines, formatItemList } from './requestItems';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface ReminderPlan {
+  request: BorrowRequest;
+  // The request's full reminder log once these notifications are sent
+  remindersSent: string[];
+  notifications: Notification[];
+  // Sent to every staff member who takes returns once the loan is long overdue
+  escalation?: Omit<Notification, 'userId'>;
+}
+
+// Whole days since the due date; negative while the loan is still running
+export const getDaysPastDue = (request: BorrowRequest, now: Date = new Date()): number => {
+  return Math.floor((now.getTime() - new Date(request.dueDate).getTime()) / DAY);
+};
+
+const reminderKey = (step: number | 'escalated', dueDate: string) => `${step}@${dueDate}`;
+
+const describeOffset = (offset: number): string => {
+  if (offset < 0) return `due in ${-offset} day${offset === -1 ? '' : 's'}`;
+  if (offset === 0) return 'due today';
+  return `${offset} day${offset === 1 ? '' : 's'} overdue`;
+};
+
+// Works out which reminders a checked out loan is owed, or null when it is up to date.
+// Only the latest offset reached is sent; earlier ones missed while nothing ran are logged as sent.
+export const planReminders = (
+  request: BorrowRequest,
+  settings: ReminderSettings,
+  now: Date = new Date()
+): ReminderPlan | null => {
+  if (request.status !== 'checked_out') return null;
+
+  const daysPastDue = getDaysPastDue(request, now);
+  const sent = request.remindersSent || [];
+  const keys: string[] = [];
+  const notifications: Notification[] = [];
+  const items = formatItemList(getOutstandingLines(request));
+  const dueDate = new Date(request.dueDate).toLocaleDateString();
+
+  const reached = settings.offsets.filter(offset => offset <= daysPastDue);
+  const latest = reached.length > 0 ? Math.max(...reached) : null;
+  if (latest !== null && !sent.includes(reminderKey(latest, request.dueDate))) {
+    keys.push(...reached.map(offset => reminderKey(offset, request.dueDate)).filter(key => !sent.includes(key)));
+    notifications.push({
+      id: `reminder-${request.id}-${reminderKey(latest, request.dueDate)}`,
+      userId: request.studentId,
+      title: latest > 0 ? 'Items Overdue' : 'Return Reminder',
+      message: latest > 0
+        ? `Your loan of ${items} is ${describeOffset(latest)} (due ${dueDate}). Please return it to the Isaac Asimov Robotics Lab as soon as possible.`
+        : `Your loan of ${items} is ${describeOffset(latest)} (${dueDate}). Return it on time or request an extension from Due Dates.`,
+      type: latest > 0 ? 'error' : 'warning',
+      // Only the reminders before the due date can be muted
+      ...(latest <= 0 && { category: 'due_reminder' as const }),
+      read: false,
+      createdAt: now.toISOString()
+    });
+  }
+
+  const escalationKey = reminderKey('escalated', request.dueDate);
+  let escalation: ReminderPlan['escalation'];
+  if (daysPastDue >= settings.escalateAfterDays && !sent.includes(escalationKey)) {
+    keys.push(escalationKey);
+    escalation = {
+      id: `reminder-${request.id}-${escalationKey}`,
+      title: 'Overdue Loan Escalated',
+      message: `${request.studentName} (${request.rollNo}) has not returned ${items}, due ${dueDate} (${describeOffset(daysPastDue)}).`,
+      type: 'warning',
+      read: false,
+      createdAt: now.toISOString()
+    };
+  }
+
+  return keys.length > 0 ? { request, remindersSent: [...sent, ...keys], notifications, escalation } : null;
+};
@@ -0,0 +1,83 @@
+import { BorrowRequest, BorrowRequestItem, RequestItemStatus, RequestStatus } from '../types';
+
+// The most lines one request may hold; firestore.rules checks each line of a new request and needs a bound
+export const MAX_REQUEST_LINES = 10;
+
+// Requests created before cart support have no items; treat them as a single line
+export const getRequestItems = (request: BorrowRequest): BorrowRequestItem[] => {
+  if (request.items && request.items.length > 0) {
+    return request.items;
+  }
+
+  const status: RequestItemStatus =
+    request.status === 'pending' || request.status === 'rejected' ? request.status : 'approved';
+
+  return [
+    {
+      componentId: request.componentId,
+      componentName: request.componentName,
+      quantity: request.quantity,
+      status,
+    },
+  ];
+};
+
+export const getApprovedItems = (request: BorrowRequest): BorrowRequestItem[] => {
+  return getRequestItems(request).filter(item => item.status === 'approved');
+};
+
+// Units of a borrowed line already handed back (good, damaged or lost) across all returns
+export const getResolvedQuantity = (request: BorrowRequest, lineIndex: number): number => {
+  return (request.returns || []).reduce((sum, record) =>
+    sum + record.lines
+      .filter(line => line.lineIndex === lineIndex)
+      .reduce((lineSum, line) => lineSum + line.good + line.damaged + line.lost, 0),
+  0);
+};
+
+export const getOutstandingItems = (request: BorrowRequest) => {
+  return getRequestItems(request)
+    .map((item, index) => ({ item, index, outstanding: item.quantity - getResolvedQuantity(request, index) }))
+    .filter(({ item, outstanding }) => item.status === 'approved' && outstanding > 0);
+};
+
+// Borrowed lines still on loan, with quantity reduced to the units not yet handed back
+export const getOutstandingLines = (request: BorrowRequest): BorrowRequestItem[] => {
+  return getOutstandingItems(request).map(({ item, outstanding }) => ({ ...item, quantity: outstanding }));
+};
+
+export const summarizeItems = (items: BorrowRequestItem[]) => {
+  const [first] = items;
+  return {
+    componentId: first.componentId,
+    componentName: items.length === 1 ? first.componentName : `${first.componentName} + ${items.length - 1} more`,
+    quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+  };
+};
+
+export const deriveRequestStatus = (items: BorrowRequestItem[]): RequestItemStatus => {
+  if (items.some(item => item.status === 'pending')) return 'pending';
+  if (items.some(item => item.status === 'approved')) return 'approved';
+  return 'rejected';
+};
+
+// Applies reviewed lines to a request and recomputes the summary fields and overall status.
+// Approved requests wait for pickup before the student holds anything.
+export const applyItemDecisions = (request: BorrowRequest, items: BorrowRequestItem[]): BorrowRequest => {
+  const derived = deriveRequestStatus(items);
+  const status: RequestStatus = derived === 'approved' ? 'ready_for_pickup' : derived;
+  return {
+    ...request,
+    ...summarizeItems(items),
+    items,
+    status,
+  };
+};
+
+export const formatItemList = (items: BorrowRequestItem[]): string => {
+  return items.map(item =>
+    item.requestedQuantity !== undefined
+      ? `${item.componentName} x${item.quantity} (of ${item.requestedQuantity} requested)`
+      : `${item.componentName} x${item.quantity}`
+  ).join(', ');
+};
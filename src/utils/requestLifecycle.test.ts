@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { BorrowRequest, RequestStatus, ReturnRecord } from '../types';
+import { StockTransactionError } from './stockTransactions';
+import {
+  RequestTransitionError,
+  planCheckout,
+  planExpiry,
+  planExtensionRequest,
+  planExtensionReview,
+  planReturn,
+  planReview,
+} from './requestLifecycle';
+
+const limits = { maxRenewals: 2, maxLoanDays: 30 };
+
+const request = (status: RequestStatus, overrides: Partial<BorrowRequest> = {}): BorrowRequest => ({
+  id: 'req-1',
+  studentId: 'student-1',
+  studentName: 'Asha',
+  rollNo: '21CS001',
+  mobile: '9000000000',
+  componentId: 'comp-1',
+  componentName: 'Arduino Uno R3',
+  quantity: 2,
+  requestDate: '2025-03-01T09:00:00.000Z',
+  dueDate: '2025-03-08T09:00:00.000Z',
+  status,
+  items: [{
+    componentId: 'comp-1',
+    componentName: 'Arduino Uno R3',
+    quantity: 2,
+    status: status === 'pending' ? 'pending' : status === 'rejected' ? 'rejected' : 'approved',
+  }],
+  ...overrides,
+});
+
+const approved = (stored: BorrowRequest): BorrowRequest => ({
+  ...stored,
+  status: 'ready_for_pickup',
+  approvedAt: '2025-03-02T09:00:00.000Z',
+  items: stored.items!.map(item => ({ ...item, status: 'approved' })),
+});
+
+const checkedOut = (overrides: Partial<BorrowRequest> = {}) => request('checked_out', {
+  checkedOutAt: '2025-03-02T09:00:00.000Z',
+  dueDate: '2025-03-09T09:00:00.000Z',
+  ...overrides,
+});
+
+const returnOf = (good: number, damaged = 0, lost = 0): ReturnRecord => ({
+  lines: [{ lineIndex: 0, good, damaged, lost }],
+  recordedAt: '2025-03-05T09:00:00.000Z',
+  recordedBy: 'Lab Assistant',
+});
+
+const extension = {
+  id: 'ext-1',
+  requestedAt: '2025-03-04T09:00:00.000Z',
+  previousDueDate: '',
+  proposedDueDate: '2025-03-12T09:00:00.000Z',
+  reason: 'Project demo moved',
+  status: 'pending' as const,
+};
+
+describe('planReview', () => {
+  it('approves a pending request and reserves its stock', () => {
+    const stored = request('pending');
+    const { request: next, changes } = planReview(stored, approved(stored));
+
+    expect(next.status).toBe('ready_for_pickup');
+    expect(next.approvedAt).toBe('2025-03-02T09:00:00.000Z');
+    expect(changes['comp-1'].available).toBe(-2);
+  });
+
+  it('rejects a pending request without touching stock', () => {
+    const stored = request('pending');
+    const { request: next, changes } = planReview(stored, {
+      ...stored,
+      status: 'rejected',
+      items: [{ ...stored.items![0], status: 'rejected' }],
+    });
+
+    expect(next.status).toBe('rejected');
+    expect(changes).toEqual({});
+  });
+
+  it('refuses to approve a returned request', () => {
+    const stored = request('returned');
+    expect(() => planReview(stored, approved(stored))).toThrow(RequestTransitionError);
+  });
+
+  it('refuses a review that skips straight to checked out', () => {
+    const stored = request('pending');
+    expect(() => planReview(stored, { ...approved(stored), status: 'checked_out' })).toThrow(RequestTransitionError);
+  });
+
+  it('refuses a review that swaps a component or raises a quantity', () => {
+    const stored = request('pending');
+    const line = approved(stored).items![0];
+    expect(() => planReview(stored, { ...approved(stored), items: [{ ...line, componentId: 'comp-2' }] })).toThrow(RequestTransitionError);
+    expect(() => planReview(stored, { ...approved(stored), items: [{ ...line, quantity: line.quantity + 1 }] })).toThrow(RequestTransitionError);
+    expect(() => planReview(stored, { ...approved(stored), items: [{ ...line, quantity: line.quantity - 1 }] })).not.toThrow();
+  });
+
+  it('refuses a review made against an older copy of the request', () => {
+    const stored = request('pending');
+    const reviewed = { ...approved(stored), items: [...approved(stored).items!, approved(stored).items![0]] };
+    expect(() => planReview(stored, reviewed)).toThrow(StockTransactionError);
+  });
+});
+
+describe('planCheckout', () => {
+  it('hands an approved request to the student and counts the loan from pickup', () => {
+    const stored = approved(request('pending'));
+    const { request: next, changes } = planCheckout(stored, '2025-03-03T09:00:00.000Z', 'Lab Assistant');
+
+    expect(next.status).toBe('checked_out');
+    expect(next.checkedOutAt).toBe('2025-03-03T09:00:00.000Z');
+    expect(next.checkedOutBy).toBe('Lab Assistant');
+    expect(next.dueDate).toBe('2025-03-10T09:00:00.000Z');
+    expect(changes).toEqual({});
+  });
+
+  it('refuses to check out once the pickup window has closed', () => {
+    const stored = { ...approved(request('pending')), pickupDeadline: '2025-03-04T09:00:00.000Z' };
+    expect(() => planCheckout(stored, '2025-03-04T10:00:00.000Z', 'Lab Assistant')).toThrow(RequestTransitionError);
+  });
+
+  it.each<RequestStatus>(['pending', 'expired', 'rejected', 'returned', 'checked_out'])('refuses to check out a %s request', status => {
+    expect(() => planCheckout(request(status), '2025-03-03T09:00:00.000Z', 'Lab Assistant')).toThrow(RequestTransitionError);
+  });
+});
+
+describe('planExpiry', () => {
+  it('expires an uncollected approval and releases its stock', () => {
+    const stored = approved(request('pending'));
+    const { request: next, changes } = planExpiry(stored, '2025-03-05T09:00:00.000Z');
+
+    expect(next.status).toBe('expired');
+    expect(next.expiredAt).toBe('2025-03-05T09:00:00.000Z');
+    expect(changes['comp-1'].available).toBe(2);
+  });
+
+  it.each<RequestStatus>(['pending', 'checked_out', 'returned'])('refuses to expire a %s request', status => {
+    expect(() => planExpiry(request(status), '2025-03-05T09:00:00.000Z')).toThrow(RequestTransitionError);
+  });
+});
+
+describe('planExtensionRequest', () => {
+  it('queues an extension without moving the due date', () => {
+    const stored = checkedOut();
+    const { request: next } = planExtensionRequest(stored, extension, limits);
+
+    expect(next.dueDate).toBe(stored.dueDate);
+    expect(next.extensions).toEqual([{ ...extension, previousDueDate: stored.dueDate }]);
+  });
+
+  it('records the extension as pending whatever the client sent', () => {
+    const { request: next } = planExtensionRequest(checkedOut(), { ...extension, status: 'approved' }, limits);
+    expect(next.extensions![0].status).toBe('pending');
+  });
+
+  it('refuses a second extension while one is waiting', () => {
+    const stored = checkedOut({ extensions: [extension] });
+    expect(() => planExtensionRequest(stored, { ...extension, id: 'ext-2' }, limits)).toThrow(StockTransactionError);
+  });
+
+  it('refuses an extension past the longest loan allowed', () => {
+    const stored = checkedOut();
+    expect(() => planExtensionRequest(stored, { ...extension, proposedDueDate: '2025-05-01T09:00:00.000Z' }, limits))
+      .toThrow(StockTransactionError);
+  });
+
+  it('refuses to extend a returned request', () => {
+    expect(() => planExtensionRequest(request('returned'), extension, limits)).toThrow(RequestTransitionError);
+  });
+});
+
+describe('planExtensionReview', () => {
+  const review = { extensionId: 'ext-1', approved: true, reviewedAt: '2025-03-05T09:00:00.000Z', reviewedBy: 'Admin' };
+
+  it('moves the due date when an extension is approved', () => {
+    const { request: next } = planExtensionReview(checkedOut({ extensions: [extension] }), review, limits);
+
+    expect(next.dueDate).toBe(extension.proposedDueDate);
+    expect(next.extensions![0].status).toBe('approved');
+  });
+
+  it('keeps the due date when an extension is denied', () => {
+    const stored = checkedOut({ extensions: [extension] });
+    const { request: next } = planExtensionReview(stored, { ...review, approved: false, response: 'Needed elsewhere' }, limits);
+
+    expect(next.dueDate).toBe(stored.dueDate);
+    expect(next.extensions![0]).toMatchObject({ status: 'denied', response: 'Needed elsewhere' });
+  });
+
+  it('refuses to review an extension twice', () => {
+    const stored = checkedOut({ extensions: [{ ...extension, status: 'approved' }] });
+    expect(() => planExtensionReview(stored, review, limits)).toThrow(StockTransactionError);
+  });
+
+  it('refuses to approve once the renewal limit is reached', () => {
+    const stored = checkedOut({ extensions: [extension] });
+    expect(() => planExtensionReview(stored, review, { ...limits, maxRenewals: 0 })).toThrow(StockTransactionError);
+  });
+
+  it('refuses to review an extension on a returned request', () => {
+    expect(() => planExtensionReview(request('returned', { extensions: [extension] }), review, limits)).toThrow(RequestTransitionError);
+  });
+});
+
+describe('planReturn', () => {
+  it('returns the request once every unit is back', () => {
+    const { request: next, changes } = planReturn(checkedOut(), returnOf(2));
+
+    expect(next.status).toBe('returned');
+    expect(next.returnedAt).toBe('2025-03-05T09:00:00.000Z');
+    expect(changes['comp-1'].available).toBe(2);
+  });
+
+  it('keeps a partly returned request checked out', () => {
+    const { request: next } = planReturn(checkedOut(), returnOf(1));
+
+    expect(next.status).toBe('checked_out');
+    expect(next.returns).toHaveLength(1);
+  });
+
+  it('writes off damaged and lost units instead of shelving them', () => {
+    const { changes } = planReturn(checkedOut(), returnOf(0, 1, 1));
+
+    expect(changes['comp-1'].available).toBe(0);
+    expect(changes['comp-1'].writeOffs.map(writeOff => writeOff.reason)).toEqual(['damaged', 'lost']);
+  });
+
+  it('refuses more units than are outstanding', () => {
+    const stored = checkedOut({ returns: [returnOf(1)] });
+    expect(() => planReturn(stored, returnOf(2))).toThrow(StockTransactionError);
+  });
+
+  it('refuses an empty return', () => {
+    expect(() => planReturn(checkedOut(), returnOf(0))).toThrow(StockTransactionError);
+  });
+
+  it.each<RequestStatus>(['rejected', 'returned', 'pending', 'ready_for_pickup', 'expired'])('refuses to return a %s request', status => {
+    expect(() => planReturn(request(status), returnOf(1))).toThrow(RequestTransitionError);
+  });
+});
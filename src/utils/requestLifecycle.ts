@@ -0,0 +1,279 @@
+import { BorrowRequest, ExtensionReview, LoanExtension, RequestStatus, ReturnRecord } from '../types';
+import { StockChange, StockTransactionError, getStockChange } from './stockTransactions';
+import { getRequestItems, getApprovedItems, getResolvedQuantity } from './requestItems';
+import { getCheckoutDueDate, isPickupExpired } from './pickup';
+import { ExtensionLimits, getExtensionBlocker, getPendingExtension } from './loanExtensions';
+
+// Every status change a request can go through. Each one runs as a single stock transaction.
+export type RequestEvent = 'review' | 'check_out' | 'expire' | 'extend' | 'return';
+
+export interface TransitionPlan {
+  request: BorrowRequest;
+  changes: Record<string, StockChange>;
+}
+
+// Statuses each event may lead to from each status; a status with no events is final.
+// Review and return can leave a request where it was while some lines are still open.
+const transitions: Record<RequestStatus, Partial<Record<RequestEvent, RequestStatus[]>>> = {
+  pending: { review: ['pending', 'ready_for_pickup', 'rejected'] },
+  ready_for_pickup: { check_out: ['checked_out'], expire: ['expired'] },
+  checked_out: { extend: ['checked_out'], return: ['checked_out', 'returned'] },
+  rejected: {},
+  returned: {},
+  expired: {},
+};
+
+// Stamped the first time a request enters the status
+const enteredAt: Partial<Record<RequestStatus, 'approvedAt' | 'checkedOutAt' | 'expiredAt' | 'returnedAt'>> = {
+  ready_for_pickup: 'approvedAt',
+  checked_out: 'checkedOutAt',
+  expired: 'expiredAt',
+  returned: 'returnedAt',
+};
+
+const statusLabels: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  ready_for_pickup: 'Ready for Pickup',
+  checked_out: 'Checked Out',
+  rejected: 'Rejected',
+  returned: 'Returned',
+  expired: 'Expired',
+};
+
+const eventLabels: Record<RequestEvent, string> = {
+  review: 'reviewed',
+  check_out: 'checked out',
+  expire: 'expired',
+  extend: 'extended',
+  return: 'returned',
+};
+
+// A transition the lifecycle does not allow, e.g. returning a rejected request
+export class RequestTransitionError extends StockTransactionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTransitionError';
+  }
+}
+
+export const formatRequestStatus = (status: RequestStatus): string => statusLabels[status] || status;
+
+export const canApply = (status: RequestStatus, event: RequestEvent): boolean => !!transitions[status]?.[event];
+
+export const isFinalStatus = (status: RequestStatus): boolean => Object.keys(transitions[status] || {}).length === 0;
+
+// Approved requests the lab is still accountable for: reserved for pickup or in the student's hands
+export const isOpenLoan = (request: BorrowRequest): boolean =>
+  request.status === 'ready_for_pickup' || request.status === 'checked_out';
+
+export const isOverdue = (request: BorrowRequest, now: Date = new Date()): boolean =>
+  request.status === 'checked_out' && new Date(request.dueDate) < now;
+
+// Requests approved before pickup tracking were handed over on approval, so they count as checked out
+export const normalizeRequest = (request: BorrowRequest): BorrowRequest => {
+  if ((request.status as string) !== 'approved') return request;
+  return {
+    ...request,
+    status: 'checked_out',
+    ...(request.approvedAt ? { checkedOutAt: request.approvedAt } : {}),
+  };
+};
+
+export const assertTransition = (from: RequestStatus, event: RequestEvent, to: RequestStatus): void => {
+  const allowed = transitions[from]?.[event];
+  if (!allowed) {
+    throw new RequestTransitionError(`A ${formatRequestStatus(from).toLowerCase()} request cannot be ${eventLabels[event]}`);
+  }
+  if (!allowed.includes(to)) {
+    throw new RequestTransitionError(
+      `A ${formatRequestStatus(from).toLowerCase()} request cannot become ${formatRequestStatus(to).toLowerCase()}`
+    );
+  }
+};
+
+const transition = (stored: BorrowRequest, event: RequestEvent, next: BorrowRequest, at: string): BorrowRequest => {
+  assertTransition(stored.status, event, next.status);
+  const field = enteredAt[next.status];
+  return next.status !== stored.status && field && !next[field] ? { ...next, [field]: at } : next;
+};
+
+// Checks a review against the request as currently stored and works out the stock it reserves
+export const planReview = (stored: BorrowRequest, reviewed: BorrowRequest): TransitionPlan => {
+  if (!canApply(stored.status, 'review')) {
+    throw new RequestTransitionError('This request has already been processed');
+  }
+
+  const storedItems = getRequestItems(stored);
+  const reviewedItems = getRequestItems(reviewed);
+  if (storedItems.length !== reviewedItems.length) {
+    throw new StockTransactionError('This request has changed since it was opened. Please reload and try again.');
+  }
+
+  const changes: Record<string, StockChange> = {};
+  const reviewedAt = reviewed.approvedAt || new Date().toISOString();
+  reviewedItems.forEach((item, index) => {
+    const storedItem = storedItems[index];
+    // A review decides on the lines the student asked for; it may approve fewer units but never others or more
+    if (item.componentId !== storedItem.componentId || item.quantity > storedItem.quantity) {
+      throw new RequestTransitionError(`A review cannot change the component or raise the quantity of ${storedItem.componentName}`);
+    }
+    if (storedItem.status !== 'pending') {
+      if (item.status !== storedItem.status) {
+        throw new StockTransactionError(`${storedItem.componentName} has already been reviewed`);
+      }
+      return;
+    }
+
+    if (item.status === 'approved') {
+      const change = getStockChange(changes, item.componentId, stored, reviewedAt);
+      change.available -= item.quantity;
+      change.issued.push(...(item.assetTags || []));
+    }
+  });
+
+  return { request: transition(stored, 'review', reviewed, reviewedAt), changes };
+};
+
+// Hands reserved stock to the student; nothing moves on the shelf, but the due date now counts from pickup
+export const planCheckout = (stored: BorrowRequest, checkedOutAt: string, checkedOutBy: string): TransitionPlan => {
+  // Whether or not anything has expired it yet, the reservation ends at the deadline
+  if (isPickupExpired(stored, new Date(checkedOutAt))) {
+    throw new RequestTransitionError('The pickup window for this request has closed');
+  }
+  const next: BorrowRequest = {
+    ...stored,
+    status: 'checked_out',
+    checkedOutBy,
+    dueDate: getCheckoutDueDate(stored, checkedOutAt),
+  };
+  return { request: transition(stored, 'check_out', next, checkedOutAt), changes: {} };
+};
+
+// Releases the stock reserved for an approval the student never collected
+export const planExpiry = (stored: BorrowRequest, expiredAt: string): TransitionPlan => {
+  const request = transition(stored, 'expire', { ...stored, status: 'expired' }, expiredAt);
+
+  const changes: Record<string, StockChange> = {};
+  getApprovedItems(stored).forEach(item => {
+    const change = getStockChange(changes, item.componentId, stored, expiredAt);
+    change.available += item.quantity;
+    change.returned.push(...(item.assetTags || []).map(assetTag => ({ assetTag, outcome: 'good' as const })));
+  });
+
+  return { request, changes };
+};
+
+// Queues a student's renewal request; the due date only moves once an admin approves it
+export const planExtensionRequest = (
+  stored: BorrowRequest,
+  extension: LoanExtension,
+  limits: ExtensionLimits
+): TransitionPlan => {
+  assertTransition(stored.status, 'extend', stored.status);
+  if (getPendingExtension(stored)) {
+    throw new StockTransactionError('An extension for this loan is already waiting for review');
+  }
+  const blocker = getExtensionBlocker(stored, limits, extension.proposedDueDate);
+  if (blocker) {
+    throw new StockTransactionError(blocker);
+  }
+
+  return {
+    request: { ...stored, extensions: [...(stored.extensions || []), { ...extension, status: 'pending', previousDueDate: stored.dueDate }] },
+    changes: {},
+  };
+};
+
+// Approving re-checks the limits against the loan as it is now, then moves the due date
+export const planExtensionReview = (
+  stored: BorrowRequest,
+  review: ExtensionReview,
+  limits: ExtensionLimits
+): TransitionPlan => {
+  assertTransition(stored.status, 'extend', stored.status);
+  const extension = stored.extensions?.find(e => e.id === review.extensionId);
+  if (!extension || extension.status !== 'pending') {
+    throw new StockTransactionError('This extension request has already been reviewed');
+  }
+  if (review.approved) {
+    const blocker = getExtensionBlocker(stored, limits, extension.proposedDueDate);
+    if (blocker) {
+      throw new StockTransactionError(blocker);
+    }
+  }
+
+  const reviewed: LoanExtension = {
+    ...extension,
+    status: review.approved ? 'approved' : 'denied',
+    reviewedAt: review.reviewedAt,
+    reviewedBy: review.reviewedBy,
+    ...(review.response ? { response: review.response } : {}),
+  };
+  return {
+    request: {
+      ...stored,
+      ...(review.approved ? { dueDate: extension.proposedDueDate } : {}),
+      extensions: (stored.extensions || []).map(e => e.id === extension.id ? reviewed : e),
+    },
+    changes: {},
+  };
+};
+
+// Applies one return to the stored request: good units go back on the shelf, damaged and lost ones are written off
+export const planReturn = (stored: BorrowRequest, record: ReturnRecord): TransitionPlan => {
+  if (!canApply(stored.status, 'return')) {
+    throw new RequestTransitionError('This request is not currently checked out');
+  }
+
+  const lines = record.lines.filter(line => line.good + line.damaged + line.lost > 0);
+  if (lines.length === 0) {
+    throw new StockTransactionError('Enter at least one returned, damaged or lost unit');
+  }
+
+  const items = getRequestItems(stored);
+  const changes: Record<string, StockChange> = {};
+  lines.forEach(line => {
+    const item = items[line.lineIndex];
+    if (!item || item.status !== 'approved') {
+      throw new StockTransactionError('This request has changed since it was opened. Please reload and try again.');
+    }
+    if ([line.good, line.damaged, line.lost].some(quantity => !Number.isInteger(quantity) || quantity < 0)) {
+      throw new StockTransactionError(`Invalid quantity entered for ${item.componentName}`);
+    }
+
+    const outstanding = item.quantity - getResolvedQuantity(stored, line.lineIndex);
+    if (line.good + line.damaged + line.lost > outstanding) {
+      throw new StockTransactionError(`Only ${outstanding} ${item.componentName} still outstanding on this request`);
+    }
+
+    if (line.units && line.units.some(unit => !item.assetTags?.includes(unit.assetTag))) {
+      throw new StockTransactionError(`A scanned unit was not issued on this request for ${item.componentName}`);
+    }
+
+    const change = getStockChange(changes, item.componentId, stored, record.recordedAt);
+    change.available += line.good;
+    change.returned.push(...(line.units || []));
+    (['damaged', 'lost'] as const).forEach(reason => {
+      if (line[reason] === 0) return;
+      change.writeOffs.push({
+        requestId: stored.id,
+        studentName: stored.studentName,
+        quantity: line[reason],
+        reason,
+        ...(record.notes ? { notes: record.notes } : {}),
+        recordedAt: record.recordedAt,
+        recordedBy: record.recordedBy,
+      });
+    });
+  });
+
+  const request: BorrowRequest = { ...stored, returns: [...(stored.returns || []), { ...record, lines }] };
+  const resolved = items.every((item, index) =>
+    item.status !== 'approved' || getResolvedQuantity(request, index) >= item.quantity
+  );
+
+  return {
+    request: transition(stored, 'return', resolved ? { ...request, status: 'returned' } : request, record.recordedAt),
+    changes,
+  };
+};
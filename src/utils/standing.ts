@@ -0,0 +1,132 @@
+import { BorrowRequest, PenaltyEntry, PenaltySettings, ReturnRecord, StudentStanding, Suspension } from '../types';
+import { EntityMutation } from './outbox';
+
+export type StandingMutation = Extract<EntityMutation, { type: 'chargeReturn' | 'adjustStanding' | 'waivePenalty' | 'liftSuspension' }>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const emptyStanding: StudentStanding = { entries: [], suspensions: [] };
+
+export const getLastSuspension = (standing: StudentStanding = emptyStanding): Suspension | undefined => {
+  return standing.suspensions[standing.suspensions.length - 1];
+};
+
+// Points counting towards the next suspension: everything not waived since the last one started
+export const getActivePoints = (standing: StudentStanding = emptyStanding): number => {
+  const since = getLastSuspension(standing)?.startedAt;
+  return standing.entries
+    .filter(entry => !entry.waivedAt && (!since || entry.recordedAt > since))
+    .reduce((sum, entry) => sum + entry.points, 0);
+};
+
+export const getActiveSuspension = (standing: StudentStanding = emptyStanding, now: Date = new Date()): Suspension | undefined => {
+  const last = getLastSuspension(standing);
+  return last && !last.liftedAt && new Date(last.endsAt) > now ? last : undefined;
+};
+
+export const getSuspensionBlocker = (standing: StudentStanding | undefined, now: Date = new Date()): string | null => {
+  const suspension = getActiveSuspension(standing, now);
+  return suspension ? `Borrowing is suspended until ${new Date(suspension.endsAt).toLocaleDateString()}` : null;
+};
+
+// Points a return earns: each day late (charged once per request, even across partial returns)
+// and each unit handed back damaged or lost
+export const getReturnPenalties = (
+  request: BorrowRequest,
+  record: ReturnRecord,
+  settings: PenaltySettings,
+  standing: StudentStanding = emptyStanding
+): PenaltyEntry[] => {
+  const entries: PenaltyEntry[] = [];
+  const entry = (reason: PenaltyEntry['reason'], points: number, note: string): PenaltyEntry => ({
+    id: `penalty-${new Date(record.recordedAt).getTime()}-${reason}`,
+    points,
+    reason,
+    requestId: request.id,
+    note,
+    recordedAt: record.recordedAt,
+    recordedBy: record.recordedBy,
+  });
+
+  const daysLate = Math.ceil((new Date(record.recordedAt).getTime() - new Date(request.dueDate).getTime()) / DAY);
+  const alreadyCharged = standing.entries
+    .filter(e => e.requestId === request.id && e.reason === 'late_return')
+    .reduce((sum, e) => sum + e.points, 0);
+  const latePoints = Math.max(0, daysLate) * settings.pointsPerLateDay - alreadyCharged;
+  if (latePoints > 0) {
+    entries.push(entry('late_return', latePoints, `Returned ${daysLate} day(s) late`));
+  }
+
+  const damaged = record.lines.reduce((sum, line) => sum + line.damaged, 0);
+  if (damaged > 0 && settings.damagedPoints > 0) {
+    entries.push(entry('damaged', damaged * settings.damagedPoints, `${damaged} unit(s) returned damaged`));
+  }
+  const lost = record.lines.reduce((sum, line) => sum + line.lost, 0);
+  if (lost > 0 && settings.lostPoints > 0) {
+    entries.push(entry('lost', lost * settings.lostPoints, `${lost} unit(s) lost`));
+  }
+
+  return entries;
+};
+
+// Adds entries to the standing and starts a suspension once the active points reach the threshold
+export const applyPenalties = (
+  standing: StudentStanding = emptyStanding,
+  entries: PenaltyEntry[],
+  settings: PenaltySettings,
+  at: string
+): StudentStanding => {
+  const next: StudentStanding = { ...standing, entries: [...standing.entries, ...entries] };
+  const points = getActivePoints(next);
+  if (points < settings.suspensionThreshold || getActiveSuspension(standing, new Date(at))) {
+    return next;
+  }
+
+  return {
+    ...next,
+    suspensions: [
+      ...next.suspensions,
+      { startedAt: at, endsAt: new Date(new Date(at).getTime() + settings.suspensionDays * DAY).toISOString(), points },
+    ],
+  };
+};
+
+// Applies one change to the standing as stored now, so points charged by a return and an adjustment made
+// at the same time both count. Null when the change is already in place or there is nothing to change.
+export const nextStanding = (
+  standing: StudentStanding = emptyStanding,
+  mutation: StandingMutation,
+  settings: PenaltySettings
+): StudentStanding | null => {
+  switch (mutation.type) {
+    case 'chargeReturn': {
+      const entries = getReturnPenalties(mutation.request, mutation.record, settings, standing)
+        .filter(entry => !standing.entries.some(stored => stored.id === entry.id));
+      return entries.length > 0 ? applyPenalties(standing, entries, settings, mutation.record.recordedAt) : null;
+    }
+    case 'adjustStanding':
+      return standing.entries.some(stored => stored.id === mutation.entry.id)
+        ? null
+        : applyPenalties(standing, [mutation.entry], settings, mutation.entry.recordedAt);
+    case 'waivePenalty': {
+      const waived = standing.entries.find(entry => entry.id === mutation.entryId);
+      if (!waived || waived.waivedAt) return null;
+      return {
+        ...standing,
+        entries: standing.entries.map(entry =>
+          entry === waived ? { ...entry, waivedAt: mutation.waivedAt, waivedBy: mutation.waivedBy, waiverReason: mutation.reason } : entry
+        ),
+      };
+    }
+    case 'liftSuspension': {
+      const active = getActiveSuspension(standing, new Date(mutation.liftedAt));
+      if (!active) return null;
+      return {
+        ...standing,
+        suspensions: standing.suspensions.map(suspension =>
+          suspension === active ? { ...suspension, liftedAt: mutation.liftedAt, liftedBy: mutation.liftedBy, liftReason: mutation.reason } : suspension
+        ),
+      };
+    }
+  }
+};
@@ -0,0 +1,112 @@
+import { AssetUnit, BorrowRequest, Component, ReturnedUnit, StockWriteOff } from '../types';
+
+// Raised when a transaction is refused because of the stored state, as opposed to a connection failure
+export class StockTransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StockTransactionError';
+  }
+}
+
+export interface StockChange {
+  requestId: string;
+  studentName: string;
+  at: string;
+  available: number;
+  writeOffs: StockWriteOff[];
+  // Serialized units leaving or coming back to the shelf
+  issued: string[];
+  returned: ReturnedUnit[];
+}
+
+// The pending change to one component, created on first use
+export const getStockChange = (
+  changes: Record<string, StockChange>,
+  componentId: string,
+  request: BorrowRequest,
+  at: string
+): StockChange => {
+  if (!changes[componentId]) {
+    changes[componentId] = {
+      requestId: request.id,
+      studentName: request.studentName,
+      at,
+      available: 0,
+      writeOffs: [],
+      issued: [],
+      returned: [],
+    };
+  }
+  return changes[componentId];
+};
+
+export const applyStockChange = (component: Component | undefined, change: StockChange): Component => {
+  if (!component) {
+    throw new StockTransactionError('Component no longer exists in the inventory');
+  }
+  if (component.availableQuantity + change.available < 0) {
+    throw new StockTransactionError(
+      `Not enough ${component.name} available! Only ${component.availableQuantity} left, ${-change.available} needed.`
+    );
+  }
+
+  const writtenOff = change.writeOffs.reduce((sum, writeOff) => sum + writeOff.quantity, 0);
+  const updated: Component = {
+    ...component,
+    availableQuantity: component.availableQuantity + change.available,
+    totalQuantity: component.totalQuantity - writtenOff,
+    ...(writtenOff > 0 ? { writeOffs: [...(component.writeOffs || []), ...change.writeOffs] } : {}),
+  };
+
+  if (!component.serialized) {
+    return updated;
+  }
+
+  // Every unit that moves must be named: issued units cover what leaves the shelf, returned ones what comes back or is written off
+  if (change.issued.length - change.returned.length !== -change.available - writtenOff) {
+    throw new StockTransactionError(`Select which ${component.name} units are being ${change.issued.length > 0 ? 'issued' : 'returned'}`);
+  }
+  return { ...updated, units: moveUnits(component, change) };
+};
+
+const moveUnits = (component: Component, change: StockChange): AssetUnit[] => {
+  const units = [...(component.units || [])];
+  const findUnit = (assetTag: string) => {
+    const index = units.findIndex(unit => unit.assetTag === assetTag);
+    if (index === -1) {
+      throw new StockTransactionError(`Unit ${assetTag} is not registered under ${component.name}`);
+    }
+    return index;
+  };
+
+  change.issued.forEach(assetTag => {
+    const index = findUnit(assetTag);
+    if (units[index].status !== 'available') {
+      throw new StockTransactionError(`Unit ${assetTag} is not available`);
+    }
+    units[index] = {
+      ...units[index],
+      status: 'on_loan',
+      requestId: change.requestId,
+      history: [...(units[index].history || []), { requestId: change.requestId, studentName: change.studentName, issuedAt: change.at }],
+    };
+  });
+
+  change.returned.forEach(({ assetTag, outcome }) => {
+    const index = findUnit(assetTag);
+    const { requestId, ...unit } = units[index];
+    if (unit.status !== 'on_loan' || requestId !== change.requestId) {
+      throw new StockTransactionError(`Unit ${assetTag} is not on loan to this request`);
+    }
+    units[index] = {
+      ...unit,
+      status: outcome === 'good' ? 'available' : 'written_off',
+      condition: outcome === 'damaged' ? 'damaged' : unit.condition,
+      history: (unit.history || []).map(loan =>
+        loan.requestId === change.requestId && !loan.returnedAt ? { ...loan, returnedAt: change.at, outcome } : loan
+      ),
+    };
+  });
+
+  return units;
+};
@@ -0,0 +1,362 @@
+import { BorrowRequest, Component, ConflictCollection, LabSettings, StockTransactionResult, SyncConflict, SystemData, User, Versioned } from '../types';
+import { applyStockChange, StockTransactionError } from './stockTransactions';
+import { TransitionPlan, normalizeRequest, planReview, planCheckout, planExpiry, planExtensionRequest, planExtensionReview, planReturn } from './requestLifecycle';
+import { ChangeBase, EntityMutation, OutboxEntry, OutboxReceipt, TransitionMutation } from './outbox';
+import { conflictLabel, mergeChanges } from './conflicts';
+import { nextWaitlist } from './waitlist';
+import { nextStanding } from './standing';
+import { defaultLabSettings } from './labSettings';
+
+// Everything a storage backend holds. Backends that keep their own copy of the data (localStorage,
+// IndexedDB and the reference server in scripts/storage-server.ts) apply writes to it with the functions below.
+export interface StoredData extends SystemData {
+  settings: LabSettings | null;
+  syncConflicts: SyncConflict[];
+  outboxReceipts: OutboxReceipt[];
+}
+
+export type StoreCollection = Exclude<keyof StoredData, 'settings'>;
+
+// Collections the app reads through a backend
+export type EntityCollection = keyof SystemData | 'syncConflicts';
+export type EntityRecords = SystemData & { syncConflicts: SyncConflict[] };
+export type EntityRecord<K extends EntityCollection> = EntityRecords[K][number];
+
+// Field equality; an array matches any of its values
+export type EntityFilter = Record<string, string | string[]>;
+
+// A record a write saved, or removed when record is null. Settings are saved as settings/lab.
+export interface WrittenRecord {
+  collection: keyof StoredData;
+  id: string;
+  record: object | null;
+}
+
+export const defaultComponents: Omit<Component, 'id'>[] = [
+  {
+    name: 'Arduino Uno R3',
+    totalQuantity: 25,
+    availableQuantity: 25,
+    category: 'Microcontroller',
+    description: 'Arduino Uno R3 development board'
+  },
+  {
+    name: 'L298N Motor Driver',
+    totalQuantity: 15,
+    availableQuantity: 15,
+    category: 'Motor Driver',
+    description: 'Dual H-Bridge Motor Driver'
+  },
+  {
+    name: 'Ultrasonic Sensor HC-SR04',
+    totalQuantity: 20,
+    availableQuantity: 20,
+    category: 'Sensor',
+    description: 'Ultrasonic distance sensor'
+  },
+  {
+    name: 'Servo Motor SG90',
+    totalQuantity: 30,
+    availableQuantity: 30,
+    category: 'Actuator',
+    description: '9g micro servo motor'
+  },
+  {
+    name: 'ESP32 Development Board',
+    totalQuantity: 12,
+    availableQuantity: 12,
+    category: 'Microcontroller',
+    description: 'WiFi and Bluetooth enabled microcontroller'
+  }
+];
+
+export const emptyStore = (): StoredData => ({
+  users: [],
+  components: defaultComponents.map((component, index) => ({ ...component, id: `comp-${index + 1}`, revision: 1 })),
+  requests: [],
+  notifications: [],
+  loginSessions: [],
+  settings: null,
+  syncConflicts: [],
+  outboxReceipts: []
+});
+
+export const matchesFilter = (record: object, filter: EntityFilter = {}): boolean =>
+  Object.entries(filter).every(([field, value]) => {
+    const stored = (record as Record<string, unknown>)[field];
+    return Array.isArray(value) ? value.includes(stored as string) : stored === value;
+  });
+
+export const transitionRequestId = (mutation: TransitionMutation): string =>
+  mutation.type === 'reviewRequest' ? mutation.request.id : mutation.requestId;
+
+export const planTransition = (stored: BorrowRequest, mutation: TransitionMutation): TransitionPlan => {
+  switch (mutation.type) {
+    case 'reviewRequest':
+      return planReview(stored, mutation.request);
+    case 'checkOutRequest':
+      return planCheckout(stored, mutation.checkedOutAt, mutation.checkedOutBy);
+    case 'expireRequest':
+      return planExpiry(stored, mutation.expiredAt);
+    case 'requestExtension':
+      return planExtensionRequest(stored, mutation.extension, mutation.limits);
+    case 'reviewExtension':
+      return planExtensionReview(stored, mutation.review, mutation.limits);
+    case 'returnRequest':
+      return planReturn(stored, mutation.record);
+  }
+};
+
+type StoreRecord = Versioned & { id: string };
+
+const now = () => new Date().toISOString();
+
+// Same versioning as Firestore: a created record starts at revision 1 and every save moves it on by one
+const created = <T extends object>(record: T): T => ({ ...record, updatedAt: now(), revision: 1 });
+
+const revise = <T extends StoreRecord>(current: T, changes: object = {}): T =>
+  ({ ...current, ...changes, updatedAt: now(), revision: (current.revision || 0) + 1 });
+
+const findRecord = <K extends StoreCollection>(data: StoredData, collection: K, id: string): StoredData[K][number] | undefined =>
+  (data[collection] as StoreRecord[]).find(record => record.id === id) as StoredData[K][number] | undefined;
+
+const requireRecord = <K extends StoreCollection>(data: StoredData, collection: K, id: string): StoredData[K][number] => {
+  const record = findRecord(data, collection, id);
+  if (!record) {
+    throw new Error(`${collection}/${id} no longer exists`);
+  }
+  return record;
+};
+
+// Saves into data and notes what was saved, so backends that store records one by one know what to write
+const recorder = (data: StoredData) => {
+  const written: WrittenRecord[] = [];
+  return {
+    written,
+    put: <T extends { id: string }>(collection: StoreCollection, record: T): T => {
+      const records = data[collection] as { id: string }[];
+      const index = records.findIndex(stored => stored.id === record.id);
+      if (index === -1) {
+        records.push(record);
+      } else {
+        records[index] = record;
+      }
+      written.push({ collection, id: record.id, record });
+      return record;
+    },
+    remove: (collection: StoreCollection, id: string) => {
+      const records = data[collection] as { id: string }[];
+      const index = records.findIndex(stored => stored.id === id);
+      if (index !== -1) {
+        records.splice(index, 1);
+        written.push({ collection, id, record: null });
+      }
+    },
+    saveSettings: (settings: LabSettings) => {
+      data.settings = settings;
+      written.push({ collection: 'settings', id: 'lab', record: settings });
+    }
+  };
+};
+
+type Recorder = ReturnType<typeof recorder>;
+
+const hasReceipt = (data: StoredData, entry?: OutboxEntry): boolean =>
+  !!entry && data.outboxReceipts.some(receipt => receipt.id === entry.id);
+
+const saveReceipt = (store: Recorder, entry?: OutboxEntry) => {
+  if (entry) {
+    store.put('outboxReceipts', { id: entry.id, userId: entry.userId, type: entry.mutation.type, queuedAt: entry.queuedAt, appliedAt: now() });
+  }
+};
+
+// Same as the Firestore replay: a change made against an older revision is merged field by field and
+// whatever does not merge is kept as a sync conflict
+const applyUpdate = (
+  data: StoredData,
+  store: Recorder,
+  collection: ConflictCollection,
+  id: string,
+  { changes, base, baseRevision }: { changes: object } & ChangeBase<object>,
+  entry?: OutboxEntry
+) => {
+  const current = requireRecord(data, collection, id);
+  const remoteRevision = current.revision || 0;
+  if (!base || remoteRevision === (baseRevision || 0)) {
+    store.put(collection, revise(current, changes));
+    return;
+  }
+
+  const { merged, conflicts } = mergeChanges(collection, base as Record<string, unknown>, changes as Record<string, unknown>, current as unknown as Record<string, unknown>);
+  if (Object.keys(merged).length > 0) {
+    store.put(collection, revise(current, merged));
+  }
+  if (conflicts.length > 0) {
+    store.put('syncConflicts', {
+      id: `conflict-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      collection,
+      documentId: id,
+      label: conflictLabel(collection, current),
+      fields: conflicts,
+      baseRevision: baseRevision || 0,
+      remoteRevision,
+      queuedBy: entry?.userId || '',
+      queuedAt: entry?.queuedAt || now(),
+      detectedAt: now()
+    });
+  }
+};
+
+// Moves everything recorded against one user id onto a profile saved under another
+const moveUser = (data: StoredData, store: Recorder, profile: User, fromId: string) => {
+  store.put('users', created(profile));
+  if (fromId !== profile.id) {
+    store.remove('users', fromId);
+  }
+  data.requests.filter(request => request.studentId === fromId)
+    .forEach(request => store.put('requests', revise(request, { studentId: profile.id })));
+  data.notifications.filter(notification => notification.userId === fromId)
+    .forEach(notification => store.put('notifications', revise(notification, { userId: profile.id })));
+  data.loginSessions.filter(session => session.userId === fromId)
+    .forEach(session => store.put('loginSessions', revise(session, { userId: profile.id })));
+  data.components.filter(component => component.waitlist?.some(entry => entry.studentId === fromId))
+    .forEach(component => store.put('components', revise(component, {
+      waitlist: component.waitlist!.map(entry => entry.studentId === fromId ? { ...entry, studentId: profile.id } : entry)
+    })));
+};
+
+// Applies a write to data in place. With an entry the write is applied at most once, keyed on its receipt.
+export const applyWrite = (data: StoredData, mutation: EntityMutation, entry?: OutboxEntry): WrittenRecord[] => {
+  const store = recorder(data);
+  if (hasReceipt(data, entry)) return store.written;
+
+  switch (mutation.type) {
+    case 'createRequest':
+      store.put('requests', created(mutation.request));
+      break;
+    case 'updateRequest':
+      applyUpdate(data, store, 'requests', mutation.requestId, mutation, entry);
+      break;
+    case 'createComponent':
+      store.put('components', created(mutation.component));
+      break;
+    case 'updateComponent':
+      applyUpdate(data, store, 'components', mutation.componentId, mutation, entry);
+      break;
+    case 'deleteComponent':
+      store.remove('components', mutation.componentId);
+      break;
+    case 'joinWaitlist':
+    case 'leaveWaitlist':
+    case 'surfaceWaitlistEntry': {
+      const component = requireRecord(data, 'components', mutation.componentId);
+      const waitlist = nextWaitlist(component.waitlist, mutation);
+      if (waitlist) {
+        store.put('components', revise(component, { waitlist }));
+      }
+      break;
+    }
+    case 'createUser':
+      store.put('users', created(mutation.user));
+      break;
+    case 'updateUser':
+      applyUpdate(data, store, 'users', mutation.userId, mutation, entry);
+      break;
+    case 'chargeReturn':
+    case 'adjustStanding':
+    case 'waivePenalty':
+    case 'liftSuspension': {
+      const user = requireRecord(data, 'users', mutation.userId);
+      const standing = nextStanding(user.standing, mutation, { ...defaultLabSettings, ...data.settings }.penalties);
+      if (standing) {
+        store.put('users', revise(user, { standing }));
+      }
+      break;
+    }
+    case 'createNotification':
+      store.put('notifications', created(mutation.notification));
+      break;
+    case 'markNotificationRead':
+      store.put('notifications', revise(requireRecord(data, 'notifications', mutation.notificationId), { read: true, readAt: now() }));
+      break;
+    case 'updateSettings':
+      store.saveSettings({ ...data.settings, ...mutation.settings });
+      break;
+    case 'createLoginSession':
+      store.put('loginSessions', created(mutation.session));
+      break;
+    case 'updateLoginSession':
+      store.put('loginSessions', revise(requireRecord(data, 'loginSessions', mutation.sessionId), mutation.changes));
+      break;
+    case 'adoptProfile':
+      moveUser(data, store, mutation.profile, mutation.previousId);
+      break;
+    case 'importUsers':
+      mutation.users.forEach(user => store.put('users', created(user)));
+      break;
+    case 'mergeUsers':
+      moveUser(data, store, mutation.merged, mutation.duplicateId);
+      break;
+    case 'setUserDeactivation': {
+      const user = revise(requireRecord(data, 'users', mutation.userId), mutation.deactivation || {});
+      if (!mutation.deactivation) {
+        delete user.deactivatedAt;
+        delete user.deactivatedBy;
+      }
+      store.put('users', user);
+      break;
+    }
+    case 'deleteUser':
+      store.remove('users', mutation.userId);
+      break;
+    case 'resolveSyncConflict': {
+      const { conflict, resolution, resolvedBy } = mutation;
+      const accepted = conflict.fields.filter(field => resolution[field.field] === 'local');
+      if (accepted.length > 0) {
+        const current = findRecord(data, conflict.collection, conflict.documentId) as (StoreRecord & Record<string, unknown>) | undefined;
+        if (!current) {
+          throw new Error('The record no longer exists');
+        }
+        const changed = accepted.find(field => JSON.stringify(current[field.field] ?? null) !== JSON.stringify(field.remote));
+        if (changed) {
+          throw new Error(`${changed.field} has changed again since this conflict was recorded`);
+        }
+        store.put(conflict.collection, revise(current, Object.fromEntries(accepted.map(field => [field.field, field.local]))));
+      }
+      store.put('syncConflicts', { ...requireRecord(data, 'syncConflicts', conflict.id), resolution, resolvedBy, resolvedAt: now() });
+      break;
+    }
+  }
+
+  saveReceipt(store, entry);
+  return store.written;
+};
+
+// Runs a request status change and the stock it moves together. Everything is checked before anything
+// is saved, so a refused transition leaves data untouched.
+export const applyTransition = (
+  data: StoredData,
+  mutation: TransitionMutation,
+  entry?: OutboxEntry
+): { result: StockTransactionResult; written: WrittenRecord[] } => {
+  const store = recorder(data);
+  const stored = data.requests.find(request => request.id === transitionRequestId(mutation));
+  if (!stored) {
+    throw new StockTransactionError('Request not found');
+  }
+  if (hasReceipt(data, entry)) {
+    return { result: { request: normalizeRequest(stored), components: [] }, written: store.written };
+  }
+
+  const { request, changes } = planTransition(normalizeRequest(stored), mutation);
+  const components = Object.entries(changes).map(([componentId, change]) =>
+    applyStockChange(data.components.find(component => component.id === componentId), change)
+  );
+
+  const result: StockTransactionResult = {
+    components: components.map(component => store.put('components', revise(component))),
+    request: store.put('requests', revise(stored, request))
+  };
+  saveReceipt(store, entry);
+  return { result, written: store.written };
+};
@@ -0,0 +1,107 @@
+import { StudentStanding, User } from '../types';
+
+const STUDENT_EMAIL_DOMAIN = 'issacasimov.in';
+
+// Raised when a deactivated account signs in or a session for one is restored
+export class AccountDeactivatedError extends Error {
+  constructor(message = 'This account has been deactivated. Please contact the lab staff.') {
+    super(message);
+    this.name = 'AccountDeactivatedError';
+  }
+}
+
+export const isDeactivated = (user: Pick<User, 'deactivatedAt'>): boolean => !!user.deactivatedAt;
+
+// Students sign in with their roll number, which stands for an address on the college domain
+export const rollNoToEmail = (rollNo: string): string => {
+  const cleanRollNo = rollNo.trim().toLowerCase().replace(/\s+/g, '.');
+  return !cleanRollNo || cleanRollNo.includes('@') ? cleanRollNo : `${cleanRollNo}@${STUDENT_EMAIL_DOMAIN}`;
+};
+
+export interface RosterEntry {
+  name: string;
+  rollNo: string;
+  email: string;
+  mobile?: string;
+}
+
+export interface RosterImport {
+  entries: RosterEntry[];
+  // Spreadsheet row numbers (header is row 1) that were left out, with why
+  skipped: { row: number; reason: string }[];
+}
+
+const rosterColumns: Record<keyof RosterEntry, string[]> = {
+  name: ['name', 'full name', 'student name', 'student'],
+  rollNo: ['roll no', 'roll number', 'rollno', 'roll', 'college roll number'],
+  email: ['email', 'email address', 'e-mail'],
+  mobile: ['mobile', 'mobile number', 'phone', 'phone number', 'contact'],
+};
+
+const readColumn = (row: Record<string, unknown>, field: keyof RosterEntry): string => {
+  const key = Object.keys(row).find(column => rosterColumns[field].includes(column.trim().toLowerCase().replace(/[._]/g, ' ')));
+  return key === undefined ? '' : String(row[key] ?? '').trim();
+};
+
+// Turns spreadsheet rows into roster entries, skipping incomplete rows, repeats within the file and
+// students who already have a profile
+export const parseRoster = (rows: Record<string, unknown>[], existingUsers: User[]): RosterImport => {
+  const known = new Set(existingUsers.map(user => user.email.toLowerCase()));
+  const knownRollNos = new Set(existingUsers.filter(user => user.rollNo).map(user => user.rollNo!.toLowerCase()));
+  const result: RosterImport = { entries: [], skipped: [] };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const name = readColumn(row, 'name');
+    const rollNo = readColumn(row, 'rollNo');
+    const email = (readColumn(row, 'email') || rollNoToEmail(rollNo)).toLowerCase();
+    const mobile = readColumn(row, 'mobile');
+
+    if (!name || !rollNo) {
+      result.skipped.push({ row: rowNumber, reason: 'Name or roll number missing' });
+    } else if (known.has(email) || knownRollNos.has(rollNo.toLowerCase())) {
+      result.skipped.push({ row: rowNumber, reason: `${rollNo} already has a profile` });
+    } else {
+      result.entries.push({ name, rollNo, email, ...(mobile && { mobile }) });
+      known.add(email);
+      knownRollNos.add(rollNo.toLowerCase());
+    }
+  });
+
+  return result;
+};
+
+export const rosterProfile = (entry: RosterEntry, importedAt: string): User => ({
+  id: `roster-${entry.rollNo.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+  name: entry.name,
+  email: entry.email,
+  role: 'student',
+  rollNo: entry.rollNo,
+  ...(entry.mobile && { mobile: entry.mobile }),
+  registeredAt: importedAt,
+  loginCount: 0,
+  isActive: false,
+  invited: true,
+});
+
+// The profile kept when two registrations of the same person are merged: the kept account's details
+// win, activity and standing from both are combined
+export const mergeProfiles = (keep: User, duplicate: User): User => {
+  const standing: StudentStanding | undefined = keep.standing || duplicate.standing
+    ? {
+        entries: [...(keep.standing?.entries || []), ...(duplicate.standing?.entries || [])]
+          .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt)),
+        suspensions: [...(keep.standing?.suspensions || []), ...(duplicate.standing?.suspensions || [])]
+          .sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+      }
+    : undefined;
+
+  return {
+    ...(duplicate.rollNo && { rollNo: duplicate.rollNo }),
+    ...(duplicate.mobile && { mobile: duplicate.mobile }),
+    ...keep,
+    registeredAt: keep.registeredAt < duplicate.registeredAt ? keep.registeredAt : duplicate.registeredAt,
+    loginCount: (keep.loginCount || 0) + (duplicate.loginCount || 0),
+    ...(standing && { standing }),
+  };
+};
@@ -0,0 +1,21 @@
+import { WaitlistEntry } from '../types';
+import { EntityMutation } from './outbox';
+
+export type WaitlistMutation = Extract<EntityMutation, { type: 'joinWaitlist' | 'leaveWaitlist' | 'surfaceWaitlistEntry' }>;
+
+// Applies one queue change to the waitlist as it is stored now, so joins and removals made at the same
+// time all keep their effect. Null when the change is already in place.
+export const nextWaitlist = (waitlist: WaitlistEntry[] = [], mutation: WaitlistMutation): WaitlistEntry[] | null => {
+  switch (mutation.type) {
+    case 'joinWaitlist':
+      return waitlist.some(entry => entry.requestId === mutation.entry.requestId) ? null : [...waitlist, mutation.entry];
+    case 'leaveWaitlist':
+      return waitlist.some(entry => entry.requestId === mutation.requestId)
+        ? waitlist.filter(entry => entry.requestId !== mutation.requestId)
+        : null;
+    case 'surfaceWaitlistEntry':
+      return waitlist.some(entry => entry.requestId === mutation.requestId && !entry.surfacedAt)
+        ? waitlist.map(entry => entry.requestId === mutation.requestId ? { ...entry, surfacedAt: mutation.surfacedAt } : entry)
+        : null;
+  }
+};
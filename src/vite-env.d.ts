@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // firestore (default), rest, localStorage or indexedDB; see services/storageBackend
+  readonly VITE_STORAGE_BACKEND?: string;
+  // Base URL of the storage server, for the rest backend
+  readonly VITE_STORAGE_API_URL?: string;
+}
@@ -0,0 +1,408 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestContext, RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { BorrowRequest, PenaltyEntry, Suspension, User } from '../../src/types';
+import { staffRoles } from '../../src/utils/permissions';
+
+let env: RulesTestEnvironment;
+
+const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+
+const profile = (id: string, overrides: Partial<User> = {}): User => ({
+  id,
+  name: id,
+  email: `${id}@college.edu`,
+  role: 'student',
+  registeredAt: '2025-03-01T09:00:00.000Z',
+  revision: 1,
+  ...overrides,
+});
+
+const borrowRequest = (overrides: Partial<BorrowRequest> = {}): BorrowRequest => ({
+  id: 'req-1',
+  studentId: 'student-1',
+  studentName: 'student-1',
+  rollNo: '21CS001',
+  mobile: '9000000000',
+  componentId: 'comp-1',
+  componentName: 'Arduino Uno R3',
+  quantity: 2,
+  requestDate: '2025-03-01T09:00:00.000Z',
+  dueDate: '2025-03-08T09:00:00.000Z',
+  status: 'pending',
+  items: [{ componentId: 'comp-1', componentName: 'Arduino Uno R3', quantity: 2, status: 'pending' }],
+  ...overrides,
+});
+
+// Signed in the way Firebase Auth signs in a user with a profile of their own
+const signedIn = (uid: string, emailVerified = true) =>
+  firestoreOf(env.authenticatedContext(uid, { email: `${uid}@college.edu`, email_verified: emailVerified }));
+
+const seed = (records: Record<string, object>) => env.withSecurityRulesDisabled(async context => {
+  const db = firestoreOf(context);
+  await Promise.all(Object.entries(records).map(([path, record]) => setDoc(doc(db, path), record)));
+});
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-isaac-lab',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(() => env.cleanup());
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed({
+    'users/student-1': profile('student-1'),
+    'users/student-2': profile('student-2'),
+    'users/assistant-1': profile('assistant-1', { role: 'lab_assistant' }),
+    'users/manager-1': profile('manager-1', { role: 'inventory_manager' }),
+    'users/admin-1': profile('admin-1', { role: 'admin' }),
+    'settings/lab': { pickupWindowHours: 48 },
+  });
+});
+
+describe('creating a request', () => {
+  it('lets a student ask for components for themselves', async () => {
+    await assertSucceeds(setDoc(doc(signedIn('student-1'), 'requests/req-1'), borrowRequest()));
+  });
+
+  it('refuses a request made in another student\'s name', async () => {
+    await assertFails(setDoc(doc(signedIn('student-2'), 'requests/req-1'), borrowRequest()));
+  });
+
+  it('refuses a deactivated student', async () => {
+    await seed({ 'users/student-1': profile('student-1', { deactivatedAt: '2025-03-01T09:00:00.000Z', deactivatedBy: 'Admin' }) });
+    await assertFails(setDoc(doc(signedIn('student-1'), 'requests/req-1'), borrowRequest()));
+  });
+
+  it('refuses a student who has not verified their email', async () => {
+    await assertFails(setDoc(doc(signedIn('student-1', false), 'requests/req-1'), borrowRequest()));
+  });
+
+  it('refuses a request that arrives already approved', async () => {
+    await assertFails(setDoc(doc(signedIn('student-1'), 'requests/req-1'), borrowRequest({ status: 'ready_for_pickup' })));
+  });
+
+  it('refuses a pending request with a line that is already approved', async () => {
+    const items = [
+      { componentId: 'comp-1', componentName: 'Arduino Uno R3', quantity: 2, status: 'pending' as const },
+      { componentId: 'comp-2', componentName: 'L298N Motor Driver', quantity: 1, status: 'approved' as const },
+    ];
+    await assertFails(setDoc(doc(signedIn('student-1'), 'requests/req-1'), borrowRequest({ items })));
+  });
+
+  it('refuses more lines than the rules can check', async () => {
+    const items = Array.from({ length: 11 }, (_, index) => ({
+      componentId: `comp-${index}`, componentName: `Component ${index}`, quantity: 1, status: 'pending' as const
+    }));
+    await assertFails(setDoc(doc(signedIn('student-1'), 'requests/req-1'), borrowRequest({ items })));
+  });
+});
+
+describe('joining a waitlist', () => {
+  const entry = (studentId: string, requestId: string) => ({ requestId, studentId, quantity: 1, queuedAt: '2025-03-01T09:00:00.000Z' });
+  const queued = [entry('student-2', 'req-2'), entry('student-3', 'req-3')];
+
+  beforeEach(async () => {
+    await seed({ 'components/comp-1': { id: 'comp-1', name: 'Arduino Uno R3', totalQuantity: 2, availableQuantity: 0, category: 'Microcontroller', waitlist: queued, revision: 1 } });
+  });
+
+  it('lets a student join at the back of the queue', async () => {
+    await assertSucceeds(updateDoc(doc(signedIn('student-1'), 'components/comp-1'), { waitlist: [...queued, entry('student-1', 'req-1')] }));
+  });
+
+  it('refuses an entry queued in someone else\'s name', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'components/comp-1'), { waitlist: [...queued, entry('student-2', 'req-1')] }));
+  });
+
+  it('refuses a student moving up by reordering the queue as they join', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'components/comp-1'), { waitlist: [queued[1], queued[0], entry('student-1', 'req-1')] }));
+  });
+
+  it('refuses a student dropping someone else\'s entry as they join', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'components/comp-1'), { waitlist: [queued[1], entry('student-1', 'req-1'), entry('student-1', 'req-4')] }));
+  });
+});
+
+describe('updating a request', () => {
+  beforeEach(async () => {
+    await seed({ 'requests/req-1': borrowRequest() });
+  });
+
+  it('lets a lab assistant approve a request', async () => {
+    await assertSucceeds(updateDoc(doc(signedIn('assistant-1'), 'requests/req-1'), { status: 'ready_for_pickup' }));
+  });
+
+  it('refuses an inventory manager approving or rejecting a request', async () => {
+    await assertFails(updateDoc(doc(signedIn('manager-1'), 'requests/req-1'), { status: 'ready_for_pickup' }));
+    await assertFails(updateDoc(doc(signedIn('manager-1'), 'requests/req-1'), { status: 'rejected' }));
+  });
+
+  it('refuses a student approving or returning their own request', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'requests/req-1'), { status: 'ready_for_pickup' }));
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'requests/req-1'), { status: 'returned' }));
+  });
+
+  it('lets a student log the reminders they were sent', async () => {
+    await assertSucceeds(updateDoc(doc(signedIn('student-1'), 'requests/req-1'), { remindersSent: ['due-0'] }));
+  });
+
+  it('refuses a student touching someone else\'s request', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-2'), 'requests/req-1'), { remindersSent: ['due-0'] }));
+  });
+});
+
+describe('editing components', () => {
+  beforeEach(async () => {
+    await seed({ 'components/comp-1': { id: 'comp-1', name: 'Arduino Uno R3', totalQuantity: 10, availableQuantity: 10, category: 'Microcontroller', revision: 1 } });
+  });
+
+  it('lets an inventory manager edit the catalogue and stock', async () => {
+    await assertSucceeds(updateDoc(doc(signedIn('manager-1'), 'components/comp-1'), { name: 'Arduino Uno R4', totalQuantity: 12 }));
+    await assertSucceeds(setDoc(doc(signedIn('manager-1'), 'components/comp-2'), { id: 'comp-2', name: 'ESP32', totalQuantity: 5, availableQuantity: 5, category: 'Microcontroller' }));
+  });
+
+  it('lets a lab assistant move stock but not rename a component', async () => {
+    await assertSucceeds(updateDoc(doc(signedIn('assistant-1'), 'components/comp-1'), { availableQuantity: 8 }));
+    await assertFails(updateDoc(doc(signedIn('assistant-1'), 'components/comp-1'), { name: 'Renamed' }));
+  });
+
+  it('refuses a student editing, stocking, creating or deleting components', async () => {
+    const db = signedIn('student-1');
+    await assertFails(updateDoc(doc(db, 'components/comp-1'), { name: 'Mine now' }));
+    await assertFails(updateDoc(doc(db, 'components/comp-1'), { availableQuantity: 0 }));
+    await assertFails(setDoc(doc(db, 'components/comp-2'), { id: 'comp-2', name: 'ESP32', totalQuantity: 5, availableQuantity: 5, category: 'Microcontroller' }));
+    await assertFails(deleteDoc(doc(db, 'components/comp-1')));
+  });
+});
+
+describe('notifications', () => {
+  const notification = (id: string, userId: string) => ({ id, userId, title: 'Notice', message: '', type: 'info', read: false, createdAt: '2025-03-01T09:00:00.000Z' });
+
+  it('lets a student notify themselves and staff but nobody else', async () => {
+    const db = signedIn('student-1');
+    await assertSucceeds(setDoc(doc(db, 'notifications/n-1'), notification('n-1', 'student-1')));
+    await assertSucceeds(setDoc(doc(db, 'notifications/n-2'), notification('n-2', 'assistant-1')));
+    await assertFails(setDoc(doc(db, 'notifications/n-3'), notification('n-3', 'student-2')));
+  });
+
+  it('lets staff notify a student', async () => {
+    await assertSucceeds(setDoc(doc(signedIn('assistant-1'), 'notifications/n-1'), notification('n-1', 'student-1')));
+  });
+
+  it('shows a user only their own notifications, and admins all of them', async () => {
+    await seed({ 'notifications/n-1': notification('n-1', 'student-1') });
+    await assertSucceeds(getDoc(doc(signedIn('student-1'), 'notifications/n-1')));
+    await assertSucceeds(getDoc(doc(signedIn('admin-1'), 'notifications/n-1')));
+    await assertFails(getDoc(doc(signedIn('student-2'), 'notifications/n-1')));
+    await assertFails(getDoc(doc(signedIn('assistant-1'), 'notifications/n-1')));
+  });
+
+  it('lets a user mark their own notification read and change nothing else', async () => {
+    await seed({ 'notifications/n-1': notification('n-1', 'student-1') });
+    await assertSucceeds(updateDoc(doc(signedIn('student-1'), 'notifications/n-1'), { read: true }));
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'notifications/n-1'), { title: 'Edited' }));
+    await assertFails(updateDoc(doc(signedIn('student-2'), 'notifications/n-1'), { read: true }));
+  });
+});
+
+describe('login sessions', () => {
+  const session = (userId: string) => ({ id: `session-${userId}`, userId, userEmail: `${userId}@college.edu`, userName: userId, userRole: 'student', loginTime: '2025-03-01T09:00:00.000Z', isActive: true });
+
+  it('lets a user record their own sign-in only', async () => {
+    await assertSucceeds(setDoc(doc(signedIn('student-1'), 'loginSessions/session-student-1'), session('student-1')));
+    await assertFails(setDoc(doc(signedIn('student-1'), 'loginSessions/session-student-2'), session('student-2')));
+  });
+
+  it('lets a user end their own session without rewriting it', async () => {
+    await seed({ 'loginSessions/session-student-1': session('student-1') });
+    await assertSucceeds(updateDoc(doc(signedIn('student-1'), 'loginSessions/session-student-1'), { isActive: false, logoutTime: '2025-03-01T10:00:00.000Z' }));
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'loginSessions/session-student-1'), { userRole: 'admin' }));
+    await assertFails(updateDoc(doc(signedIn('student-2'), 'loginSessions/session-student-1'), { isActive: false }));
+  });
+});
+
+describe('settings', () => {
+  it('lets only admins change the lab settings', async () => {
+    await assertSucceeds(setDoc(doc(signedIn('admin-1'), 'settings/lab'), { pickupWindowHours: 24 }, { merge: true }));
+    await assertFails(setDoc(doc(signedIn('assistant-1'), 'settings/lab'), { pickupWindowHours: 24 }, { merge: true }));
+    await assertFails(setDoc(doc(signedIn('student-1'), 'settings/lab'), { pickupWindowHours: 24 }, { merge: true }));
+  });
+
+  it('lets anyone signed in read them', async () => {
+    await assertSucceeds(getDoc(doc(signedIn('student-1'), 'settings/lab')));
+    await assertFails(getDoc(doc(firestoreOf(env.unauthenticatedContext()), 'settings/lab')));
+  });
+});
+
+describe('asking for an extension', () => {
+  const extension = (id: string, status: string) => ({ id, requestedAt: '2025-03-04T09:00:00.000Z', previousDueDate: '2025-03-08T09:00:00.000Z', proposedDueDate: '2025-03-12T09:00:00.000Z', reason: 'Demo moved', status });
+  const approved = extension('ext-1', 'approved');
+
+  beforeEach(async () => {
+    await seed({ 'requests/req-1': borrowRequest({ status: 'checked_out', extensions: [approved] as BorrowRequest['extensions'] }) });
+  });
+
+  it('lets a student add one pending extension', async () => {
+    await assertSucceeds(updateDoc(doc(signedIn('student-1'), 'requests/req-1'), { extensions: [approved, extension('ext-2', 'pending')] }));
+  });
+
+  it('refuses a student removing an approved extension to reset the renewal count', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'requests/req-1'), { extensions: [extension('ext-2', 'pending')] }));
+  });
+
+  it('refuses a student approving their own extension', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'requests/req-1'), { extensions: [approved, extension('ext-2', 'approved')] }));
+  });
+});
+
+describe('reading profiles', () => {
+  it('lets a student list the staff roster', async () => {
+    await assertSucceeds(getDocs(query(collection(signedIn('student-1'), 'users'), where('role', 'in', staffRoles))));
+  });
+
+  it('keeps other students\' profiles from a student', async () => {
+    await assertFails(getDoc(doc(signedIn('student-1'), 'users/student-2')));
+    await assertFails(getDocs(collection(signedIn('student-1'), 'users')));
+  });
+});
+
+describe('updating profiles', () => {
+  const charge: PenaltyEntry = { id: 'penalty-1', points: 2, reason: 'late_return', recordedAt: '2025-03-10T09:00:00.000Z', recordedBy: 'assistant-1' };
+  const suspension: Suspension = { startedAt: '2025-03-10T09:00:00.000Z', endsAt: '2025-03-17T09:00:00.000Z', points: 10 };
+
+  it('lets a lab assistant charge penalty points', async () => {
+    const standing = { entries: [charge], suspensions: [] };
+    await assertSucceeds(updateDoc(doc(signedIn('assistant-1'), 'users/student-1'), { standing, revision: increment(1) }));
+  });
+
+  it('lets a lab assistant charge them in the transaction standingService uses', async () => {
+    const db = signedIn('assistant-1');
+    await assertSucceeds(runTransaction(db, async transaction => {
+      await transaction.get(doc(db, 'settings/lab'));
+      await transaction.get(doc(db, 'users/student-1'));
+      transaction.update(doc(db, 'users/student-1'), { standing: { entries: [charge], suspensions: [suspension] }, revision: increment(1) });
+    }));
+  });
+
+  it('refuses a lab assistant adjusting, waiving or clearing standing, or lifting a suspension', async () => {
+    await seed({ 'users/student-2': profile('student-2', { standing: { entries: [charge], suspensions: [suspension] } }) });
+    const db = signedIn('assistant-1');
+    const adjustment = { ...charge, id: 'penalty-2', points: -2, reason: 'adjustment' };
+    await assertFails(updateDoc(doc(db, 'users/student-2'), { standing: { entries: [charge, adjustment], suspensions: [suspension] } }));
+    await assertFails(updateDoc(doc(db, 'users/student-2'), { standing: { entries: [{ ...charge, waivedAt: '2025-03-11T09:00:00.000Z' }], suspensions: [suspension] } }));
+    await assertFails(updateDoc(doc(db, 'users/student-2'), { standing: { entries: [], suspensions: [] } }));
+    await assertFails(updateDoc(doc(db, 'users/student-2'), { standing: { entries: [charge], suspensions: [{ ...suspension, liftedAt: '2025-03-11T09:00:00.000Z' }] } }));
+  });
+
+  it('refuses a lab assistant changing a role', async () => {
+    await assertFails(updateDoc(doc(signedIn('assistant-1'), 'users/student-1'), { role: 'admin' }));
+    await assertFails(updateDoc(doc(signedIn('assistant-1'), 'users/student-1'), { role: 'admin', standing: { entries: [], suspensions: [] } }));
+  });
+
+  it('refuses a student changing their own role or standing', async () => {
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'users/student-1'), { role: 'admin' }));
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'users/student-1'), { standing: { entries: [], suspensions: [] } }));
+  });
+});
+
+describe('adopting a legacy profile', () => {
+  beforeEach(async () => {
+    await seed({
+      'users/legacy-1': profile('legacy-1', { email: 'student-1@college.edu' }),
+      'requests/req-legacy': borrowRequest({ id: 'req-legacy', studentId: 'legacy-1' }),
+      'notifications/notif-legacy': { id: 'notif-legacy', userId: 'legacy-1', title: 'Welcome', message: '', type: 'info', read: false, createdAt: '2025-03-01T09:00:00.000Z' },
+    });
+    await env.withSecurityRulesDisabled(context => deleteDoc(doc(firestoreOf(context), 'users/student-1')));
+  });
+
+  // The same writes as firebaseService.adoptLegacyProfile, made by the account with the profile's email
+  const adopt = async (db: Firestore) => {
+    const [requests, notifications] = await Promise.all([
+      getDocs(query(collection(db, 'requests'), where('studentId', '==', 'legacy-1'))),
+      getDocs(query(collection(db, 'notifications'), where('userId', '==', 'legacy-1'))),
+    ]);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'users/student-1'), profile('student-1'));
+    batch.delete(doc(db, 'users/legacy-1'));
+    requests.docs.forEach(request => batch.update(request.ref, { studentId: 'student-1' }));
+    notifications.docs.forEach(notification => batch.update(notification.ref, { userId: 'student-1' }));
+    await batch.commit();
+  };
+
+  it('lets the owner move the profile and its history to their uid in one batch', async () => {
+    await assertSucceeds(adopt(signedIn('student-1')));
+  });
+
+  it('refuses anyone else', async () => {
+    const db = signedIn('student-2');
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'users/legacy-1'));
+    batch.update(doc(db, 'requests/req-legacy'), { studentId: 'student-2' });
+    await assertFails(batch.commit());
+  });
+});
+
+describe('offline queue records', () => {
+  const receipt = (userId: string) => ({ userId, type: 'createRequest', queuedAt: '2025-03-01T09:00:00.000Z', appliedAt: '2025-03-01T09:05:00.000Z' });
+
+  it('lets a user check for and record a receipt of their own', async () => {
+    const db = signedIn('student-1');
+    await assertSucceeds(getDoc(doc(db, 'outboxReceipts/entry-1')));
+    await assertSucceeds(setDoc(doc(db, 'outboxReceipts/entry-1'), receipt('student-1')));
+  });
+
+  it('refuses a receipt recorded for someone else', async () => {
+    await assertFails(setDoc(doc(signedIn('student-1'), 'outboxReceipts/entry-1'), receipt('student-2')));
+  });
+
+  it('keeps other users\' receipts private', async () => {
+    await seed({ 'outboxReceipts/entry-2': receipt('student-2') });
+    await assertFails(getDoc(doc(signedIn('student-1'), 'outboxReceipts/entry-2')));
+  });
+
+  const conflict = (queuedBy: string) => ({
+    id: 'conflict-1',
+    collection: 'components',
+    documentId: 'comp-1',
+    label: 'Arduino Uno R3',
+    fields: [{ field: 'description', base: 'Old', local: 'Mine', remote: 'Theirs' }],
+    baseRevision: 1,
+    remoteRevision: 2,
+    queuedBy,
+    queuedAt: '2025-03-01T09:00:00.000Z',
+    detectedAt: '2025-03-01T09:05:00.000Z',
+  });
+
+  it('lets a user record a conflict their change ran into', async () => {
+    await assertSucceeds(setDoc(doc(signedIn('manager-1'), 'syncConflicts/conflict-1'), conflict('manager-1')));
+  });
+
+  it('refuses a conflict recorded without the user who queued the change', async () => {
+    await assertFails(setDoc(doc(signedIn('manager-1'), 'syncConflicts/conflict-1'), conflict('')));
+  });
+
+  it('lets only staff settle conflicts', async () => {
+    await seed({ 'syncConflicts/conflict-1': conflict('manager-1') });
+    await assertSucceeds(updateDoc(doc(signedIn('admin-1'), 'syncConflicts/conflict-1'), { resolvedBy: 'admin-1' }));
+    await assertFails(updateDoc(doc(signedIn('student-1'), 'syncConflicts/conflict-1'), { resolvedBy: 'student-1' }));
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Run by `npm run test:rules` inside the Firestore emulator, which sets FIRESTORE_EMULATOR_HOST
+export default defineConfig({
+  test: {
+    include: ['tests/rules/**/*.test.ts'],
+    environment: 'node',
+    fileParallelism: false,
+    testTimeout: 20000,
+  },
+});